@@ -14,7 +14,24 @@ import { useAuth } from '../hooks/useAuth';
 import { useStudents } from '../hooks/useStudents';
 import { useMarks } from '../hooks/useMarks';
 import { useReporting } from '../hooks/useReporting';
-import type { MarksInput } from '../types';
+import { useAssessmentScheme } from '../hooks/useAssessmentScheme';
+import { createEmptyScores } from '../utils/assessment';
+import { isPassingGrade } from '../utils/marks';
+import { getGradingScaleForMarks } from '../utils/grading';
+import { formatPhoneNumber } from '../utils/phone';
+import { normalizeRegistrationNumber } from '../utils/registration';
+import { validateRegistrationNumber } from '../utils/validation';
+import type { MarksInput, Student, StudentMarks } from '../types';
+
+/**
+ * Pass/Fail label for a record, judged under the scale it was graded with.
+ * Records on a scale that is not registered cannot be judged.
+ */
+function describePass(marks: StudentMarks, pass: string, fail: string): string {
+  const scale = getGradingScaleForMarks(marks);
+  if (!scale) return 'Unknown Scale';
+  return isPassingGrade(marks.grade, scale) ? pass : fail;
+}
 
 // ============================================
 // EXAMPLE 1: LOGIN FLOW
@@ -239,17 +256,21 @@ export function StudentListExample({ courseId }: { courseId: string }) {
 /**
  * Example: Marks Entry Form
  * Demonstrates how to enter and submit marks for a student
+ * Inputs are generated from the course's assessment scheme
  */
-export function MarksEntryExample({ studentId }: { studentId: string }) {
+export function MarksEntryExample({ studentId, courseId }: { studentId: string; courseId: string }) {
+  const { scheme, components } = useAssessmentScheme(courseId);
+
   const [marksInput, setMarksInput] = useState<MarksInput>({
     studentId,
-    assignment: 0,
-    quiz: 0,
-    project: 0,
-    midsem: 0,
-    finalExam: 0,
+    scores: createEmptyScores(),
   });
 
+  // Reset inputs when the course's scheme is loaded
+  useEffect(() => {
+    setMarksInput(current => ({ ...current, scores: createEmptyScores(scheme) }));
+  }, [scheme]);
+
   const { 
     submitMarks, 
     isSubmitting, 
@@ -257,10 +278,10 @@ export function MarksEntryExample({ studentId }: { studentId: string }) {
     success,
     previewCalculation,
     clearStatus
-  } = useMarks();
+  } = useMarks(scheme);
 
-  // Calculate total and grade in real-time
-  const { totalScore, grade } = previewCalculation(marksInput);
+  // Calculate total, grade and weighted contributions in real-time
+  const { totalScore, grade, breakdown } = previewCalculation(marksInput);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -273,9 +294,12 @@ export function MarksEntryExample({ studentId }: { studentId: string }) {
     }
   };
 
-  const handleInputChange = (field: keyof MarksInput, value: string) => {
+  const handleInputChange = (componentKey: string, value: string) => {
     const numValue = parseFloat(value) || 0;
-    setMarksInput({ ...marksInput, [field]: numValue });
+    setMarksInput({
+      ...marksInput,
+      scores: { ...marksInput.scores, [componentKey]: numValue },
+    });
     clearStatus(); // Clear status when user makes changes
   };
 
@@ -284,74 +308,29 @@ export function MarksEntryExample({ studentId }: { studentId: string }) {
       <h2>Enter Marks</h2>
       
       <form onSubmit={handleSubmit}>
-        <div>
-          <label>Assignment (Max: 10):</label>
-          <input
-            type="number"
-            min="0"
-            max="10"
-            step="0.01"
-            value={marksInput.assignment}
-            onChange={(e) => handleInputChange('assignment', e.target.value)}
-            required
-          />
-        </div>
-
-        <div>
-          <label>Quiz (Max: 15):</label>
-          <input
-            type="number"
-            min="0"
-            max="15"
-            step="0.01"
-            value={marksInput.quiz}
-            onChange={(e) => handleInputChange('quiz', e.target.value)}
-            required
-          />
-        </div>
-
-        <div>
-          <label>Project (Max: 25):</label>
-          <input
-            type="number"
-            min="0"
-            max="25"
-            step="0.01"
-            value={marksInput.project}
-            onChange={(e) => handleInputChange('project', e.target.value)}
-            required
-          />
-        </div>
-
-        <div>
-          <label>Midsem (Max: 20):</label>
-          <input
-            type="number"
-            min="0"
-            max="20"
-            step="0.01"
-            value={marksInput.midsem}
-            onChange={(e) => handleInputChange('midsem', e.target.value)}
-            required
-          />
-        </div>
-
-        <div>
-          <label>Final Exam (Max: 30):</label>
-          <input
-            type="number"
-            min="0"
-            max="30"
-            step="0.01"
-            value={marksInput.finalExam}
-            onChange={(e) => handleInputChange('finalExam', e.target.value)}
-            required
-          />
-        </div>
+        {components.map(component => (
+          <div key={component.key}>
+            <label>{component.label} (out of {component.maxMarks}, worth {component.weight}):</label>
+            <input
+              type="number"
+              min="0"
+              max={component.maxMarks}
+              step="0.01"
+              value={marksInput.scores[component.key] ?? 0}
+              onChange={(e) => handleInputChange(component.key, e.target.value)}
+              required
+            />
+          </div>
+        ))}
 
         {/* Real-time calculation preview */}
         <div style={{ background: '#f0f0f0', padding: '10px', margin: '10px 0' }}>
           <h3>Preview</h3>
+          {breakdown.map(entry => (
+            <p key={entry.key}>
+              {entry.label}: {entry.rawScore} / {entry.maxMarks} → {entry.weightedScore} / {entry.weight}
+            </p>
+          ))}
           <p><strong>Total Score:</strong> {totalScore} / 100</p>
           <p><strong>Grade:</strong> {grade}</p>
         </div>
@@ -367,6 +346,52 @@ export function MarksEntryExample({ studentId }: { studentId: string }) {
   );
 }
 
+/**
+ * Example: Marks Entry by Registration Number
+ * The lecturer types a registration number; it is auto-corrected to the
+ * institution's format ('sct211 0001 2021' -> 'SCT211-0001/2021'), rejected if
+ * malformed, and looked up among the course's students before marks are entered
+ */
+export function MarksEntryByRegistrationExample({ courseId }: { courseId: string }) {
+  const { findStudentByRegistrationNumber } = useStudents(courseId);
+  const [registrationNumber, setRegistrationNumber] = useState('');
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [student, setStudent] = useState<Student | null>(null);
+
+  const handleLookup = () => {
+    const validation = validateRegistrationNumber(registrationNumber);
+    if (!validation.isValid) {
+      setLookupError(validation.errors[0].message);
+      setStudent(null);
+      return;
+    }
+
+    setRegistrationNumber(normalizeRegistrationNumber(registrationNumber));
+    const found = findStudentByRegistrationNumber(registrationNumber);
+    setLookupError(found ? null : 'No student with this registration number in the course');
+    setStudent(found);
+  };
+
+  return (
+    <div>
+      <input
+        placeholder="Registration No. (e.g. SCT211-0001/2021)"
+        value={registrationNumber}
+        onChange={(e) => setRegistrationNumber(e.target.value)}
+        onBlur={handleLookup}
+      />
+      {lookupError && <div style={{ color: 'red' }}>{lookupError}</div>}
+
+      {student && (
+        <>
+          <p>{student.firstName} {student.lastName} ({student.registrationNumber})</p>
+          <MarksEntryExample studentId={student.id} courseId={courseId} />
+        </>
+      )}
+    </div>
+  );
+}
+
 // ============================================
 // EXAMPLE 5: VIEWING MARKS
 // ============================================
@@ -377,6 +402,7 @@ export function MarksEntryExample({ studentId }: { studentId: string }) {
  */
 export function ViewMarksExample({ courseId }: { courseId: string }) {
   const { studentsWithMarks, isLoading, fetchStudentsWithMarks } = useStudents();
+  const { components } = useAssessmentScheme(courseId);
 
   useEffect(() => {
     fetchStudentsWithMarks(courseId);
@@ -394,11 +420,9 @@ export function ViewMarksExample({ courseId }: { courseId: string }) {
         <thead>
           <tr>
             <th>Student</th>
-            <th>Assignment</th>
-            <th>Quiz</th>
-            <th>Project</th>
-            <th>Midsem</th>
-            <th>Final</th>
+            {components.map(component => (
+              <th key={component.key}>{component.label}</th>
+            ))}
             <th>Total</th>
             <th>Grade</th>
             <th>Status</th>
@@ -408,16 +432,14 @@ export function ViewMarksExample({ courseId }: { courseId: string }) {
           {studentsWithMarks.map(student => (
             <tr key={student.id}>
               <td>{student.firstName} {student.lastName}</td>
-              <td>{student.marks?.assignment ?? 'N/A'}</td>
-              <td>{student.marks?.quiz ?? 'N/A'}</td>
-              <td>{student.marks?.project ?? 'N/A'}</td>
-              <td>{student.marks?.midsem ?? 'N/A'}</td>
-              <td>{student.marks?.finalExam ?? 'N/A'}</td>
+              {components.map(component => (
+                <td key={component.key}>{student.marks?.scores[component.key] ?? 'N/A'}</td>
+              ))}
               <td><strong>{student.marks?.totalScore ?? 'N/A'}</strong></td>
               <td><strong>{student.marks?.grade ?? 'N/A'}</strong></td>
               <td>
                 {student.marks 
-                  ? (student.marks.grade !== 'F' ? '✓ Pass' : '✗ Fail')
+                  ? describePass(student.marks, '✓ Pass', '✗ Fail')
                   : 'No Marks'}
               </td>
             </tr>
@@ -493,7 +515,8 @@ export function ExportExample({ courseId, courseName, lecturerName }: {
   lecturerName: string;
 }) {
   const { studentsWithMarks, fetchStudentsWithMarks } = useStudents();
-  const { exportToCSV, printMarks, isExporting } = useReporting();
+  const { scheme } = useAssessmentScheme(courseId);
+  const { exportToCSV, printMarks, isExporting } = useReporting(scheme);
 
   useEffect(() => {
     fetchStudentsWithMarks(courseId);
@@ -560,6 +583,7 @@ export function LecturerDashboardExample() {
       <header>
         <h1>Welcome, {lecturer.firstName} {lecturer.lastName}</h1>
         <p>Course: {lecturer.courseName}</p>
+        <p>Phone: {formatPhoneNumber(lecturer.phone)}</p>
         <button onClick={logout}>Logout</button>
       </header>
 
@@ -597,7 +621,7 @@ export function LecturerDashboardExample() {
                     <td>{student.marks?.grade ?? 'N/A'}</td>
                     <td>
                       {student.marks
-                        ? (student.marks.grade !== 'F' ? 'Pass' : 'Fail')
+                        ? describePass(student.marks, 'Pass', 'Fail')
                         : 'No Marks'}
                     </td>
                   </tr>
@@ -0,0 +1,142 @@
+/**
+ * Lecturer Module - Assessment Scheme Hook
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * Custom React hook for loading a course's assessment scheme.
+ * The scheme drives marks entry, validation, calculation and exports.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AssessmentScheme, AssessmentComponent } from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME } from '../types';
+import { getAssessmentScheme } from '../services/api';
+import { validateAssessmentScheme } from '../utils/validation';
+import { getOrderedComponents } from '../utils/assessment';
+
+// ============================================
+// HOOK STATE INTERFACE
+// ============================================
+
+interface UseAssessmentSchemeState {
+  // Active scheme (falls back to DEFAULT_ASSESSMENT_SCHEME)
+  scheme: AssessmentScheme;
+
+  // Scheme components sorted by display order
+  components: AssessmentComponent[];
+
+  // Loading state
+  isLoading: boolean;
+
+  // Error handling
+  error: string | null;
+}
+
+interface UseAssessmentSchemeActions {
+  // Fetch the scheme configured for a course
+  fetchScheme: (courseId: string) => Promise<AssessmentScheme>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export interface UseAssessmentSchemeReturn extends UseAssessmentSchemeState, UseAssessmentSchemeActions {}
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+/**
+ * useAssessmentScheme Hook
+ *
+ * Loads the assessment scheme for a course.
+ * If the course has no scheme (or it is invalid), the default scheme is used.
+ *
+ * @param courseId - Optional course ID to auto-fetch on mount
+ * @returns Scheme state and actions
+ *
+ * @example
+ * ```tsx
+ * function MarksEntryPage({ courseId, studentId }) {
+ *   const { scheme, components, isLoading } = useAssessmentScheme(courseId);
+ *   const { previewCalculation } = useMarks(scheme);
+ *
+ *   if (isLoading) return <p>Loading scheme...</p>;
+ *
+ *   return (
+ *     <ul>
+ *       {components.map(c => (
+ *         <li key={c.key}>{c.label} (out of {c.maxMarks}, worth {c.weight})</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useAssessmentScheme(courseId?: string): UseAssessmentSchemeReturn {
+  const [scheme, setScheme] = useState<AssessmentScheme>(DEFAULT_ASSESSMENT_SCHEME);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch assessment scheme for a course
+   */
+  const fetchScheme = useCallback(async (courseId: string): Promise<AssessmentScheme> => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await getAssessmentScheme(courseId);
+
+      if (!response.success) {
+        setError(response.message);
+        setScheme(DEFAULT_ASSESSMENT_SCHEME);
+        return DEFAULT_ASSESSMENT_SCHEME;
+      }
+
+      const validation = validateAssessmentScheme(response.data);
+
+      if (!validation.isValid) {
+        setError(validation.errors[0].message);
+        setScheme(DEFAULT_ASSESSMENT_SCHEME);
+        return DEFAULT_ASSESSMENT_SCHEME;
+      }
+
+      setScheme(response.data);
+      return response.data;
+    } catch (err) {
+      setError('Failed to fetch assessment scheme');
+      setScheme(DEFAULT_ASSESSMENT_SCHEME);
+      return DEFAULT_ASSESSMENT_SCHEME;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Clear error message
+   */
+  const clearErrorMessage = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Auto-fetch scheme if courseId is provided
+   */
+  useEffect(() => {
+    if (courseId) {
+      fetchScheme(courseId);
+    }
+  }, [courseId, fetchScheme]);
+
+  return {
+    // State
+    scheme,
+    components: getOrderedComponents(scheme),
+    isLoading,
+    error,
+
+    // Actions
+    fetchScheme,
+    clearError: clearErrorMessage,
+  };
+}
@@ -6,13 +6,28 @@
  * Handles login, logout, registration, and session management.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Resolver } from 'react-hook-form';
 import type {
+  AsyncFieldSchema,
   Lecturer,
   LoginCredentials,
   LecturerRegistrationData,
   ApiResponse,
   LoginResponse,
+  Locale,
+  PasswordContext,
+  PasswordPolicy,
+  PasswordStrength,
+  PhoneCountryCode,
+  ValidationError,
+  ValidationResult,
+} from '../types';
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_NAME_LENGTH_LIMITS,
+  DEFAULT_PASSWORD_POLICY,
+  DEFAULT_PHONE_COUNTRY,
 } from '../types';
 import {
   loginLecturer,
@@ -21,11 +36,19 @@ import {
   getLecturerProfile,
   isAuthenticated,
   clearAuthData,
+  checkEmailAvailability,
+  checkCourseExists,
 } from '../services/api';
 import {
+  createLecturerRegistrationSchema,
+  LOGIN_SCHEMA,
+  normalizeName,
   validateLoginCredentials,
-  validateLecturerRegistration,
 } from '../utils/validation';
+import { createAsyncValidator, createSchemaResolver, validateSchemaAsync } from '../utils/schema';
+import { localizeValidationErrors, localizeValidationResult } from '../utils/messages';
+import { normalizePhoneNumber } from '../utils/phone';
+import { estimatePasswordStrength } from '../utils/passwords';
 
 
 interface UseAuthState {
@@ -42,6 +65,9 @@ interface UseAuthState {
   
   // Error handling
   error: string | null;
+
+  // Coded errors from the last failed validation (messages in the hook's locale)
+  validationErrors: ValidationError[];
 }
 
 interface UseAuthActions {
@@ -57,18 +83,57 @@ interface UseAuthActions {
   // Refresh lecturer profile
   refreshProfile: () => Promise<void>;
   
+  // react-hook-form resolvers for the login and registration forms (live per-field errors in the hook's locale)
+  loginResolver: Resolver<LoginCredentials>;
+  registrationResolver: Resolver<LecturerRegistrationData>;
+
+  // Password strength meter for the registration and change-password forms (feedback in the hook's locale)
+  getPasswordStrength: (password: string, context?: PasswordContext) => PasswordStrength;
+
+  // Debounced server-side check of the registration form (null when superseded by a newer call)
+  validateRegistrationAsync: (data: LecturerRegistrationData) => Promise<ValidationResult | null>;
+
   // Clear error
   clearError: () => void;
 }
 
 export interface UseAuthReturn extends UseAuthState, UseAuthActions {}
 
+/**
+ * Server-side registration checks: the email is not registered yet and the course exists
+ * Unanswered lookups pass; the backend checks again on register.
+ */
+const REGISTRATION_ASYNC_FIELDS: Record<string, AsyncFieldSchema<LecturerRegistrationData>> = {
+  email: {
+    check: async (email, _data, signal) => {
+      const response = await checkEmailAvailability(String(email), { signal });
+      return response.success && !response.data.available ? { code: 'EMAIL_ALREADY_REGISTERED' } : null;
+    },
+  },
+  courseId: {
+    check: async (courseId, _data, signal) => {
+      const response = await checkCourseExists(String(courseId), { signal });
+      return response.success && !response.data.exists
+        ? { code: 'COURSE_NOT_FOUND', params: { courseId: String(courseId) } }
+        : null;
+    },
+  },
+};
+
 
 /**
  * useAuth Hook
  * 
  * Manages lecturer authentication state and operations.
+ * Validation failures are exposed as coded errors (validationErrors) with
+ * messages rendered in the given locale. Phone numbers are validated against
+ * their country's numbering plan and sent to the backend in E.164 form.
+ * Passwords are checked against the given password policy. Before registering,
+ * the server confirms the email is free and the course exists.
  * 
+ * @param locale - Language of validation messages (default: DEFAULT_LOCALE)
+ * @param phoneCountry - Country of phone numbers entered without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @param passwordPolicy - Password policy for registration (default: DEFAULT_PASSWORD_POLICY)
  * @returns Authentication state and actions
  * 
  * @example
@@ -98,12 +163,53 @@ export interface UseAuthReturn extends UseAuthState, UseAuthActions {}
  * }
  * ```
  */
-export function useAuth(): UseAuthReturn {
+export function useAuth(
+  locale: Locale = DEFAULT_LOCALE,
+  phoneCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY,
+  passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): UseAuthReturn {
   const [lecturer, setLecturer] = useState<Lecturer | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [isRegistering, setIsRegistering] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+
+  // Form resolvers share the schemas used by login() and register()
+  const loginResolver = useMemo(() => createSchemaResolver(LOGIN_SCHEMA, locale), [locale]);
+  const registrationSchema = useMemo(
+    () => ({
+      ...createLecturerRegistrationSchema(DEFAULT_NAME_LENGTH_LIMITS, phoneCountry, passwordPolicy),
+      asyncFields: REGISTRATION_ASYNC_FIELDS,
+    }),
+    [phoneCountry, passwordPolicy]
+  );
+  const registrationResolver = useMemo(
+    () => createSchemaResolver(registrationSchema, locale),
+    [registrationSchema, locale]
+  );
+
+  // Live server-side checks; stale ones are dropped, and the pending one on unmount
+  const registrationValidator = useMemo(() => createAsyncValidator(registrationSchema), [registrationSchema]);
+  useEffect(() => () => registrationValidator.cancel(), [registrationValidator]);
+
+  /**
+   * Estimate password strength as the user types
+   */
+  const getPasswordStrength = useCallback(
+    (password: string, context: PasswordContext = {}): PasswordStrength =>
+      estimatePasswordStrength(password, context, passwordPolicy, locale),
+    [passwordPolicy, locale]
+  );
+
+  /**
+   * Record a failed validation: coded errors plus the first message as the error
+   */
+  const setValidationFailure = useCallback((errors: ValidationError[]) => {
+    const localized = localizeValidationErrors(errors, locale);
+    setValidationErrors(localized);
+    setError(localized[0].message);
+  }, [locale]);
 
   /**
    * Load lecturer profile on mount if authenticated
@@ -137,6 +243,7 @@ export function useAuth(): UseAuthReturn {
   const login = useCallback(async (credentials: LoginCredentials): Promise<boolean> => {
     // Clear previous errors
     setError(null);
+    setValidationErrors([]);
     setIsAuthenticating(true);
 
     try {
@@ -144,7 +251,7 @@ export function useAuth(): UseAuthReturn {
       const validation = validateLoginCredentials(credentials);
       
       if (!validation.isValid) {
-        setError(validation.errors[0].message);
+        setValidationFailure(validation.errors);
         setIsAuthenticating(false);
         return false;
       }
@@ -166,7 +273,7 @@ export function useAuth(): UseAuthReturn {
       setIsAuthenticating(false);
       return false;
     }
-  }, []);
+  }, [setValidationFailure]);
 
   /**
    * Logout lecturer
@@ -190,20 +297,26 @@ export function useAuth(): UseAuthReturn {
   const register = useCallback(async (data: LecturerRegistrationData): Promise<boolean> => {
     // Clear previous errors
     setError(null);
+    setValidationErrors([]);
     setIsRegistering(true);
 
     try {
-      // Validate registration data
-      const validation = validateLecturerRegistration(data);
+      // Validate registration data, then check email and course with the server
+      const validation = await validateSchemaAsync(registrationSchema, data);
       
       if (!validation.isValid) {
-        setError(validation.errors[0].message);
+        setValidationFailure(validation.errors);
         setIsRegistering(false);
         return false;
       }
 
-      // Attempt registration
-      const response = await registerLecturer(data);
+      // Attempt registration (names in the normalized form they were validated in, phone in E.164)
+      const response = await registerLecturer({
+        ...data,
+        firstName: normalizeName(data.firstName),
+        lastName: normalizeName(data.lastName),
+        phone: normalizePhoneNumber(data.phone, phoneCountry),
+      });
 
       if (response.success) {
         setIsRegistering(false);
@@ -218,7 +331,23 @@ export function useAuth(): UseAuthReturn {
       setIsRegistering(false);
       return false;
     }
-  }, []);
+  }, [registrationSchema, phoneCountry, setValidationFailure]);
+
+  /**
+   * Check registration data with the server as the user types
+   */
+  const validateRegistrationAsync = useCallback(
+    async (data: LecturerRegistrationData): Promise<ValidationResult | null> => {
+      try {
+        const result = await registrationValidator.validate(data);
+        return result && localizeValidationResult(result, locale);
+      } catch (err) {
+        setError('An unexpected error occurred while checking registration details');
+        return null;
+      }
+    },
+    [registrationValidator, locale]
+  );
 
   /**
    * Refresh lecturer profile
@@ -242,6 +371,7 @@ export function useAuth(): UseAuthReturn {
    */
   const clearErrorMessage = useCallback(() => {
     setError(null);
+    setValidationErrors([]);
   }, []);
 
   return {
@@ -252,12 +382,17 @@ export function useAuth(): UseAuthReturn {
     isRegistering,
     isAuthenticated: lecturer !== null,
     error,
+    validationErrors,
     
     // Actions
     login,
     logout,
     register,
     refreshProfile,
+    loginResolver,
+    registrationResolver,
+    getPasswordStrength,
+    validateRegistrationAsync,
     clearError: clearErrorMessage,
   };
 }
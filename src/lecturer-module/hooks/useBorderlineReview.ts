@@ -0,0 +1,198 @@
+/**
+ * Lecturer Module - Borderline Review Hook
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * Custom React hook for the borderline review queue.
+ * Students just below a grade boundary must be reviewed, adjusted or confirmed
+ * before the course's marks can be finalized.
+ */
+
+import { useState, useCallback } from 'react';
+import type {
+  AssessmentScheme,
+  BorderlineReviewItem,
+  BorderlineReviewStatus,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_BORDERLINE_MARGIN } from '../types';
+import { finalizeCourseMarks } from '../services/api';
+import {
+  canFinalizeReviews,
+  createReviewQueue,
+  findBorderlineCases,
+  getPendingReviews,
+  updateReviewItem,
+} from '../utils/borderline';
+
+// ============================================
+// HOOK STATE INTERFACE
+// ============================================
+
+interface UseBorderlineReviewState {
+  // Borderline students and their review decisions
+  queue: BorderlineReviewItem[];
+
+  // Number of cases still waiting for a decision
+  pendingCount: number;
+
+  // True when no case is pending
+  canFinalize: boolean;
+
+  // Loading state
+  isFinalizing: boolean;
+
+  // Set once the course has been finalized
+  isFinalized: boolean;
+
+  // Error handling
+  error: string | null;
+}
+
+interface UseBorderlineReviewActions {
+  // Detect borderline students and (re)build the queue
+  detectBorderline: (marksArray: StudentMarks[], margin?: number) => BorderlineReviewItem[];
+
+  // Record a decision for one student
+  setReviewStatus: (
+    studentId: string,
+    status: BorderlineReviewStatus,
+    reviewedBy: string,
+    note?: string
+  ) => void;
+
+  // Finalize the course (fails while cases are pending)
+  finalizeCourse: (courseId: string) => Promise<boolean>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export interface UseBorderlineReviewReturn extends UseBorderlineReviewState, UseBorderlineReviewActions {}
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+/**
+ * useBorderlineReview Hook
+ *
+ * Builds the borderline review queue for a course and blocks finalization
+ * until every case has been reviewed, adjusted or confirmed.
+ *
+ * @param scheme - Course assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Review queue state and actions
+ *
+ * @example
+ * ```tsx
+ * function BorderlinePanel({ courseId, marks, lecturerId }) {
+ *   const { queue, detectBorderline, setReviewStatus, canFinalize, finalizeCourse } = useBorderlineReview(scheme);
+ *
+ *   useEffect(() => { detectBorderline(marks); }, [marks]);
+ *
+ *   return (
+ *     <div>
+ *       {queue.map(item => (
+ *         <div key={item.studentId}>
+ *           {item.studentId}: {item.totalScore} ({item.currentGrade} → {item.nextGrade}, {item.gap} short)
+ *           <button onClick={() => setReviewStatus(item.studentId, 'confirmed', lecturerId)}>Confirm</button>
+ *         </div>
+ *       ))}
+ *       <button disabled={!canFinalize} onClick={() => finalizeCourse(courseId)}>Finalize</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useBorderlineReview(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): UseBorderlineReviewReturn {
+  const [queue, setQueue] = useState<BorderlineReviewItem[]>([]);
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const [isFinalized, setIsFinalized] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Detect borderline students
+   * Decisions already made are kept for students whose total has not changed.
+   */
+  const detectBorderline = useCallback(
+    (marksArray: StudentMarks[], margin: number = DEFAULT_BORDERLINE_MARGIN): BorderlineReviewItem[] => {
+      const built = createReviewQueue(findBorderlineCases(marksArray, margin, scheme), queue);
+
+      setQueue(built);
+      setIsFinalized(false);
+      setError(null);
+      return built;
+    },
+    [scheme, queue]
+  );
+
+  /**
+   * Record a review decision for one student
+   */
+  const setReviewStatus = useCallback(
+    (studentId: string, status: BorderlineReviewStatus, reviewedBy: string, note?: string): void => {
+      setQueue(current => updateReviewItem(current, studentId, status, reviewedBy, note));
+    },
+    []
+  );
+
+  /**
+   * Finalize the course once no case is pending
+   */
+  const finalizeCourse = useCallback(
+    async (courseId: string): Promise<boolean> => {
+      setError(null);
+
+      const pending = getPendingReviews(queue);
+
+      if (pending.length > 0) {
+        setError(`${pending.length} borderline case(s) must be reviewed before finalizing`);
+        return false;
+      }
+
+      setIsFinalizing(true);
+
+      try {
+        const response = await finalizeCourseMarks(courseId, queue);
+
+        if (!response.success) {
+          setError(response.message);
+          return false;
+        }
+
+        setIsFinalized(true);
+        return true;
+      } catch (err) {
+        setError('An unexpected error occurred while finalizing marks');
+        return false;
+      } finally {
+        setIsFinalizing(false);
+      }
+    },
+    [queue]
+  );
+
+  /**
+   * Clear error message
+   */
+  const clearErrorMessage = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    queue,
+    pendingCount: getPendingReviews(queue).length,
+    canFinalize: canFinalizeReviews(queue),
+    isFinalizing,
+    isFinalized,
+    error,
+
+    // Actions
+    detectBorderline,
+    setReviewStatus,
+    finalizeCourse,
+    clearError: clearErrorMessage,
+  };
+}
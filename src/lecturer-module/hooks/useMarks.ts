@@ -6,22 +6,44 @@
  * Handles creation, updating, validation, and calculation of marks.
  */
 
-import { useState, useCallback } from 'react';
-import type { MarksInput, StudentMarks, BulkMarksInput } from '../types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Resolver } from 'react-hook-form';
+import type {
+  AsyncFieldSchema,
+  MarksInput,
+  MarksRoster,
+  StudentMarks,
+  BulkMarksInput,
+  AssessmentScheme,
+  ComponentScore,
+  MarksResult,
+  IntegrityReport,
+  Locale,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_LOCALE } from '../types';
 import {
   createMarks,
   updateMarks,
   getMarksByStudent,
   bulkCreateMarks,
+  checkStudentEnrollment,
 } from '../services/api';
 import {
+  createMarksSchema,
+  resolveMarksStudents,
   validateMarks,
   validateBulkMarks,
 } from '../utils/validation';
+import { createAsyncValidator, createSchemaResolver, validateSchemaAsync } from '../utils/schema';
+import { localizeValidationErrors, localizeValidationResult } from '../utils/messages';
 import {
-  calculateTotalScore,
-  calculateGrade,
+  calculateResult,
+  calculateComponentBreakdown,
 } from '../utils/marks';
+import { scanMarksIntegrity } from '../utils/integrity';
 
 // ============================================
 // HOOK STATE INTERFACE
@@ -30,6 +52,9 @@ import {
 interface UseMarksState {
   // Currently selected marks
   currentMarks: StudentMarks | null;
+
+  // Result of the last integrity scan
+  integrityReport: IntegrityReport | null;
   
   // Loading states
   isSubmitting: boolean;
@@ -41,33 +66,81 @@ interface UseMarksState {
   
   // Error handling
   error: string | null;
+
+  // Coded errors from the last failed validation (messages in the hook's locale)
+  validationErrors: ValidationError[];
+
+  // Warnings awaiting confirmation before marks are sent (see SubmitMarksOptions)
+  warnings: ValidationWarning[];
 }
 
 interface UseMarksActions {
-  // Submit new marks
-  submitMarks: (marks: MarksInput) => Promise<boolean>;
+  // Submit new marks (resolves false without sending while an earlier submit is being sent)
+  submitMarks: (marks: MarksInput, options?: SubmitMarksOptions) => Promise<boolean>;
   
   // Update existing marks
-  updateStudentMarks: (marksId: string, marks: Partial<MarksInput>) => Promise<boolean>;
+  updateStudentMarks: (marksId: string, marks: Partial<MarksInput>, options?: SubmitMarksOptions) => Promise<boolean>;
   
   // Bulk submit marks
-  submitBulkMarks: (bulkMarks: BulkMarksInput) => Promise<boolean>;
+  submitBulkMarks: (bulkMarks: BulkMarksInput, options?: SubmitMarksOptions) => Promise<boolean>;
   
   // Fetch marks for a student
   fetchMarks: (studentId: string) => Promise<StudentMarks | null>;
   
   // Validate marks without submitting
   validateMarksInput: (marks: MarksInput) => boolean;
+
+  // Debounced check of the marks form, including the server-side enrollment check
+  // (null when superseded by a newer call)
+  validateMarksAsync: (marks: MarksInput) => Promise<ValidationResult | null>;
+  
+  // Calculate total, grade and per-component raw/weighted breakdown (client-side preview)
+  previewCalculation: (marks: MarksInput) => MarksPreview;
   
-  // Calculate total and grade (client-side preview)
-  previewCalculation: (marks: MarksInput) => { totalScore: number; grade: string };
+  // Scan a class's marks for integrity problems before submission
+  scanIntegrity: (marksArray: StudentMarks[]) => IntegrityReport;
   
+  // react-hook-form resolver with the same rules as validateMarksInput (live per-field errors in the hook's locale)
+  marksResolver: Resolver<MarksInput>;
+
   // Clear success/error state
   clearStatus: () => void;
 }
 
 export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
 
+/**
+ * Options for sending marks
+ */
+export interface SubmitMarksOptions {
+  // Send even if validation raised warnings (the lecturer has confirmed them)
+  confirmWarnings?: boolean;
+}
+
+/**
+ * Client-side preview of a marks entry
+ */
+export interface MarksPreview extends MarksResult {
+  breakdown: ComponentScore[];
+}
+
+/**
+ * Server-side marks check: the student is enrolled in the course
+ * Unanswered lookups pass; the backend checks again on save.
+ */
+function enrollmentAsyncFields(courseId: string): Record<string, AsyncFieldSchema<MarksInput>> {
+  return {
+    studentId: {
+      check: async (studentId, _data, signal) => {
+        const response = await checkStudentEnrollment(courseId, String(studentId), { signal });
+        return response.success && !response.data.enrolled
+          ? { code: 'STUDENT_NOT_ENROLLED', params: { studentId: String(studentId), courseId } }
+          : null;
+      },
+    },
+  };
+}
+
 // ============================================
 // CUSTOM HOOK
 // ============================================
@@ -78,18 +151,26 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  * Manages marks creation, updating, and validation.
  * Provides real-time calculation and validation feedback.
  * 
+ * Validation failures are exposed as coded errors (validationErrors) with
+ * messages rendered in the given locale. When the course is given, submitMarks
+ * also confirms with the server that the student is enrolled in it. With a
+ * roster, marks may be entered or imported by registration number instead of
+ * student ID: numbers are normalized and resolved to the student's ID before
+ * validation, and malformed or unknown numbers are rejected
+ * (REGISTRATION_NUMBER_INVALID).
+ * 
+ * @param scheme - Course assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param locale - Language of validation messages (default: DEFAULT_LOCALE)
+ * @param courseId - Lecturer's course, for the enrollment check (default: no check)
+ * @param roster - Class list for entry by registration number (e.g. { students } from useStudents)
  * @returns Marks state and actions
  * 
  * @example
  * ```tsx
- * function MarksEntryForm({ studentId }: { studentId: string }) {
+ * function MarksEntryForm({ studentId, scheme }: { studentId: string; scheme: AssessmentScheme }) {
  *   const [marksInput, setMarksInput] = useState<MarksInput>({
  *     studentId,
- *     assignment: 0,
- *     quiz: 0,
- *     project: 0,
- *     midsem: 0,
- *     finalExam: 0,
+ *     scores: createEmptyScores(scheme),
  *   });
  * 
  *   const { 
@@ -98,10 +179,10 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  *     error, 
  *     success,
  *     previewCalculation 
- *   } = useMarks();
+ *   } = useMarks(scheme);
  * 
  *   // Preview calculation
- *   const { totalScore, grade } = previewCalculation(marksInput);
+ *   const { totalScore, grade, breakdown } = previewCalculation(marksInput);
  * 
  *   const handleSubmit = async () => {
  *     const success = await submitMarks(marksInput);
@@ -112,17 +193,22 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  * 
  *   return (
  *     <div>
- *       <input 
- *         type="number" 
- *         value={marksInput.assignment}
- *         onChange={(e) => setMarksInput({
- *           ...marksInput,
- *           assignment: parseFloat(e.target.value)
- *         })}
- *         max={10}
- *       />
- *       {/* More inputs... *\/}
+ *       {getOrderedComponents(scheme).map(component => (
+ *         <input 
+ *           key={component.key}
+ *           type="number" 
+ *           value={marksInput.scores[component.key]}
+ *           onChange={(e) => setMarksInput({
+ *             ...marksInput,
+ *             scores: { ...marksInput.scores, [component.key]: parseFloat(e.target.value) }
+ *           })}
+ *           max={component.maxMarks}
+ *         />
+ *       ))}
  *       
+ *       {breakdown.map(entry => (
+ *         <p key={entry.key}>{entry.label}: {entry.rawScore}/{entry.maxMarks} = {entry.weightedScore}/{entry.weight}</p>
+ *       ))}
  *       <p>Total: {totalScore} | Grade: {grade}</p>
  *       
  *       <button onClick={handleSubmit} disabled={isSubmitting}>
@@ -138,6 +224,49 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  * 
  * @example
  * ```tsx
+ * // Confirm warnings (e.g. a 0 final exam after strong coursework) before sending
+ * function SubmitWithConfirmation({ marksInput }: { marksInput: MarksInput }) {
+ *   const { submitMarks, warnings } = useMarks();
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => submitMarks(marksInput)}>Submit</button>
+ *       {warnings.length > 0 && (
+ *         <div>
+ *           {warnings.map(w => <p key={`${w.field}-${w.code}`}>{w.message}</p>)}
+ *           <button onClick={() => submitMarks(marksInput, { confirmWarnings: true })}>Submit anyway</button>
+ *         </div>
+ *       )}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Live per-field errors with react-hook-form
+ * function MarksForm({ scheme }: { scheme: AssessmentScheme }) {
+ *   const { marksResolver, submitMarks } = useMarks(scheme);
+ *   const { register, handleSubmit, formState: { errors } } = useForm<MarksInput>({
+ *     resolver: marksResolver,
+ *     mode: 'onChange',
+ *   });
+ *
+ *   return (
+ *     <form onSubmit={handleSubmit(submitMarks)}>
+ *       {getOrderedComponents(scheme).map(component => (
+ *         <div key={component.key}>
+ *           <input type="number" {...register(`scores.${component.key}`, { valueAsNumber: true })} />
+ *           {errors.scores?.[component.key] && <p>{errors.scores[component.key].message}</p>}
+ *         </div>
+ *       ))}
+ *     </form>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Bulk marks entry
  * function BulkMarksEntry({ students }: { students: Student[] }) {
  *   const { submitBulkMarks, isSubmitting } = useMarks();
@@ -145,11 +274,7 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  *   const [bulkData, setBulkData] = useState<MarksInput[]>(
  *     students.map(s => ({
  *       studentId: s.id,
- *       assignment: 0,
- *       quiz: 0,
- *       project: 0,
- *       midsem: 0,
- *       finalExam: 0,
+ *       scores: createEmptyScores(),
  *     }))
  *   );
  * 
@@ -171,35 +296,121 @@ export interface UseMarksReturn extends UseMarksState, UseMarksActions {}
  * }
  * ```
  */
-export function useMarks(): UseMarksReturn {
+export function useMarks(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  locale: Locale = DEFAULT_LOCALE,
+  courseId?: string,
+  roster?: MarksRoster
+): UseMarksReturn {
   const [currentMarks, setCurrentMarks] = useState<StudentMarks | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([]);
+
+  // Rebuilt only when the class list or format changes, not on every render
+  const rosterStudents = roster?.students;
+  const rosterFormat = roster?.format;
+  const marksRoster = useMemo<MarksRoster | undefined>(
+    () => (rosterStudents ? { students: rosterStudents, format: rosterFormat } : undefined),
+    [rosterStudents, rosterFormat]
+  );
+
+  // Marks rules plus the server-side enrollment check (when the course is known)
+  const marksSchema = useMemo(
+    () => ({
+      ...createMarksSchema(scheme, undefined, undefined, marksRoster),
+      asyncFields: courseId ? enrollmentAsyncFields(courseId) : {},
+    }),
+    [scheme, courseId, marksRoster]
+  );
+
+  // Debounced check while the lecturer types; cancelled on unmount
+  const marksValidator = useMemo(() => createAsyncValidator(marksSchema), [marksSchema]);
+  useEffect(() => () => marksValidator.cancel(), [marksValidator]);
+
+  // Latest submit, held until it settles. A newer submit aborts it while it is
+  // still being checked; once it is being sent, newer submits are ignored.
+  const submitCheckRef = useRef<AbortController | null>(null);
+  const submitSendingRef = useRef(false);
+  useEffect(() => () => submitCheckRef.current?.abort(), []);
+
+  /**
+   * Record a failed validation: coded errors plus the first message as the error
+   */
+  const setValidationFailure = useCallback((errors: ValidationError[]) => {
+    const localized = localizeValidationErrors(errors, locale);
+    setValidationErrors(localized);
+    setError(localized[0].message);
+  }, [locale]);
+
+  /**
+   * Hold back a send whose warnings the lecturer has not confirmed yet
+   * Returns true when the caller must stop and show the warnings.
+   */
+  const holdForConfirmation = useCallback(
+    (found: ValidationWarning[], options: SubmitMarksOptions): boolean => {
+      if (found.length === 0 || options.confirmWarnings) {
+        setWarnings([]);
+        return false;
+      }
+
+      setWarnings(localizeValidationErrors(found, locale));
+      return true;
+    },
+    [locale]
+  );
 
   /**
    * Submit new marks for a student
    */
-  const submitMarks = useCallback(async (marks: MarksInput): Promise<boolean> => {
+  const submitMarks = useCallback(async (
+    marks: MarksInput,
+    options: SubmitMarksOptions = {}
+  ): Promise<boolean> => {
+    // An earlier submit is already being sent and owns the status
+    if (submitSendingRef.current) return false;
+
+    // Drop the pending typing check and the check of an earlier submit
+    marksValidator.cancel();
+    submitCheckRef.current?.abort();
+    const check = new AbortController();
+    submitCheckRef.current = check;
+
     // Clear previous status
     setError(null);
+    setValidationErrors([]);
+    setWarnings([]);
     setSuccess(false);
     setIsSubmitting(true);
 
     try {
-      // Validate marks
-      const validation = validateMarks(marks);
+      // Resolve a registration number, validate, then check enrollment with the server
+      const [input] = resolveMarksStudents([marks], marksRoster);
+      const validation = await validateSchemaAsync(marksSchema, input, check.signal);
+
+      // Superseded by a newer submit, which now owns the status
+      if (check.signal.aborted) return false;
       
       if (!validation.isValid) {
-        setError(validation.errors[0].message);
+        setValidationFailure(validation.errors);
+        setIsSubmitting(false);
+        return false;
+      }
+
+      // Wait for the lecturer to confirm any warnings
+      if (holdForConfirmation(validation.warnings, options)) {
         setIsSubmitting(false);
         return false;
       }
 
       // Submit to backend
-      const response = await createMarks(marks);
+      submitSendingRef.current = true;
+      const response = await createMarks(input);
 
       if (response.success) {
         setCurrentMarks(response.data);
@@ -212,35 +423,49 @@ export function useMarks(): UseMarksReturn {
         return false;
       }
     } catch (err) {
+      if (check.signal.aborted) return false;
       setError('An unexpected error occurred while submitting marks');
       setIsSubmitting(false);
       return false;
+    } finally {
+      if (submitCheckRef.current === check) {
+        submitCheckRef.current = null;
+        submitSendingRef.current = false;
+      }
     }
-  }, []);
+  }, [marksSchema, marksValidator, marksRoster, setValidationFailure, holdForConfirmation]);
 
   /**
    * Update existing marks
    */
   const updateStudentMarks = useCallback(
-    async (marksId: string, marks: Partial<MarksInput>): Promise<boolean> => {
+    async (marksId: string, marks: Partial<MarksInput>, options: SubmitMarksOptions = {}): Promise<boolean> => {
       // Clear previous status
       setError(null);
+      setValidationErrors([]);
+      setWarnings([]);
       setSuccess(false);
       setIsUpdating(true);
 
       try {
         // If we have a complete marks object, validate it
         if (marks.studentId && 
-            marks.assignment !== undefined &&
-            marks.quiz !== undefined &&
-            marks.project !== undefined &&
-            marks.midsem !== undefined &&
-            marks.finalExam !== undefined) {
+            marks.scores &&
+            scheme.components.every(component =>
+              marks.scores![component.key] !== undefined || marks.statuses?.[component.key] !== undefined
+            )) {
           
-          const validation = validateMarks(marks as MarksInput);
+          // Compare with the loaded record to flag large corrections
+          const previous = currentMarks?.id === marksId ? currentMarks : undefined;
+          const validation = validateMarks(marks as MarksInput, scheme, previous);
           
           if (!validation.isValid) {
-            setError(validation.errors[0].message);
+            setValidationFailure(validation.errors);
+            setIsUpdating(false);
+            return false;
+          }
+
+          if (holdForConfirmation(validation.warnings, options)) {
             setIsUpdating(false);
             return false;
           }
@@ -265,30 +490,42 @@ export function useMarks(): UseMarksReturn {
         return false;
       }
     },
-    []
+    [scheme, currentMarks, setValidationFailure, holdForConfirmation]
   );
 
   /**
    * Submit marks for multiple students at once
    */
-  const submitBulkMarks = useCallback(async (bulkMarks: BulkMarksInput): Promise<boolean> => {
+  const submitBulkMarks = useCallback(async (
+    bulkMarks: BulkMarksInput,
+    options: SubmitMarksOptions = {}
+  ): Promise<boolean> => {
     // Clear previous status
     setError(null);
+    setValidationErrors([]);
+    setWarnings([]);
     setSuccess(false);
     setIsSubmitting(true);
 
     try {
-      // Validate all marks
-      const validation = validateBulkMarks(bulkMarks.marks);
+      // Resolve registration numbers and validate all marks
+      const marks = resolveMarksStudents(bulkMarks.marks, marksRoster);
+      const validation = validateBulkMarks(marks, scheme, marksRoster);
       
       if (!validation.isValid) {
-        setError(validation.errors[0].message);
+        setValidationFailure(validation.errors);
+        setIsSubmitting(false);
+        return false;
+      }
+
+      // Wait for the lecturer to confirm any warnings (fields are marks[i].<key>)
+      if (holdForConfirmation(validation.warnings, options)) {
         setIsSubmitting(false);
         return false;
       }
 
       // Submit to backend
-      const response = await bulkCreateMarks(bulkMarks);
+      const response = await bulkCreateMarks({ ...bulkMarks, marks });
 
       if (response.success) {
         setSuccess(true);
@@ -304,7 +541,7 @@ export function useMarks(): UseMarksReturn {
       setIsSubmitting(false);
       return false;
     }
-  }, []);
+  }, [scheme, marksRoster, setValidationFailure, holdForConfirmation]);
 
   /**
    * Fetch marks for a student
@@ -335,53 +572,92 @@ export function useMarks(): UseMarksReturn {
   /**
    * Validate marks input without submitting
    * Returns true if valid, false if invalid (sets error)
+   * Warnings are set for display but do not make the input invalid.
    */
   const validateMarksInput = useCallback((marks: MarksInput): boolean => {
-    const validation = validateMarks(marks);
+    const [input] = resolveMarksStudents([marks], marksRoster);
+    const validation = validateMarks(input, scheme, undefined, undefined, marksRoster);
     
     if (!validation.isValid) {
-      setError(validation.errors[0].message);
+      setValidationFailure(validation.errors);
       return false;
     }
     
     setError(null);
+    setValidationErrors([]);
+    setWarnings(localizeValidationErrors(validation.warnings, locale));
     return true;
-  }, []);
+  }, [scheme, locale, marksRoster, setValidationFailure]);
+
+  /**
+   * Check marks (rules and enrollment) as the lecturer types
+   * Only the last call within the debounce window reaches the server.
+   */
+  const validateMarksAsync = useCallback(
+    async (marks: MarksInput): Promise<ValidationResult | null> => {
+      try {
+        const [input] = resolveMarksStudents([marks], marksRoster);
+        const result = await marksValidator.validate(input);
+        return result && localizeValidationResult(result, locale);
+      } catch (err) {
+        setError('An unexpected error occurred while checking marks');
+        return null;
+      }
+    },
+    [marksValidator, marksRoster, locale]
+  );
 
   /**
-   * Calculate total score and grade (client-side preview)
+   * Calculate total score, grade and component breakdown (client-side preview)
    * Does NOT submit to backend
    */
-  const previewCalculation = useCallback((marks: MarksInput): { totalScore: number; grade: string } => {
-    const totalScore = calculateTotalScore({
-      assignment: marks.assignment,
-      quiz: marks.quiz,
-      project: marks.project,
-      midsem: marks.midsem,
-      finalExam: marks.finalExam,
-    });
-
-    const grade = calculateGrade(totalScore);
-
-    return { totalScore, grade };
-  }, []);
+  const previewCalculation = useCallback((marks: MarksInput): MarksPreview => {
+    const result = calculateResult(marks, scheme);
+    const breakdown = calculateComponentBreakdown(marks.scores, scheme, marks.statuses);
+
+    return { ...result, breakdown };
+  }, [scheme]);
+
+  /**
+   * Scan a class's marks for integrity problems
+   * Errors (stored total/grade disagreeing with the calculation) should be fixed
+   * before the class is submitted; warnings and info are for review.
+   */
+  const scanIntegrity = useCallback((marksArray: StudentMarks[]): IntegrityReport => {
+    const report = scanMarksIntegrity(marksArray, scheme);
+    setIntegrityReport(report);
+    return report;
+  }, [scheme]);
+
+  /**
+   * Form resolver built from the marks schema of the current scheme
+   */
+  const marksResolver = useMemo(
+    () => createSchemaResolver(marksSchema, locale),
+    [marksSchema, locale]
+  );
 
   /**
    * Clear success and error status
    */
   const clearStatus = useCallback(() => {
     setError(null);
+    setValidationErrors([]);
+    setWarnings([]);
     setSuccess(false);
   }, []);
 
   return {
     // State
     currentMarks,
+    integrityReport,
     isSubmitting,
     isUpdating,
     isFetching,
     success,
     error,
+    validationErrors,
+    warnings,
     
     // Actions
     submitMarks,
@@ -389,7 +665,10 @@ export function useMarks(): UseMarksReturn {
     submitBulkMarks,
     fetchMarks,
     validateMarksInput,
+    validateMarksAsync,
     previewCalculation,
+    scanIntegrity,
+    marksResolver,
     clearStatus,
   };
 }
@@ -0,0 +1,318 @@
+/**
+ * Lecturer Module - Moderation Hook
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * Custom React hook for moderating a class's marks.
+ * Handles previewing a moderation rule, applying it through bulk marks
+ * submission, and recording the audit trail.
+ */
+
+import { useState, useCallback } from 'react';
+import type {
+  AssessmentScheme,
+  ModerationPreview,
+  ModerationRecord,
+  ModerationRule,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME } from '../types';
+import {
+  bulkCreateMarks,
+  recordModeration,
+  getModerationHistory,
+} from '../services/api';
+import { validateBulkMarks, validateModeration } from '../utils/validation';
+import {
+  previewModeration,
+  createModeratedBulkInput,
+  createModerationRecord,
+} from '../utils/moderation';
+
+// ============================================
+// HOOK STATE INTERFACE
+// ============================================
+
+interface UseModerationState {
+  // Current before/after preview (not yet applied)
+  preview: ModerationPreview | null;
+
+  // Audit history for the course
+  history: ModerationRecord[];
+
+  // Audit record of a moderation whose marks were saved but whose record was not (see retryAudit)
+  pendingAudit: ModerationRecord | null;
+
+  // Loading states
+  isApplying: boolean;
+  isLoadingHistory: boolean;
+
+  // Success flag
+  success: boolean;
+
+  // Error handling
+  error: string | null;
+}
+
+interface UseModerationActions {
+  // Preview a rule against the class's marks
+  previewRule: (
+    marksArray: StudentMarks[],
+    rule: ModerationRule,
+    course: { courseId: string; courseName: string; totalStudents: number }
+  ) => ModerationPreview;
+
+  // Apply the current preview and record who applied it and why
+  // (false if the marks or the audit record could not be saved)
+  applyModeration: (reason: string, appliedBy: string) => Promise<boolean>;
+
+  // Re-send the pending audit record
+  retryAudit: () => Promise<boolean>;
+
+  // Fetch moderation audit history for a course
+  fetchHistory: (courseId: string) => Promise<void>;
+
+  // Discard the current preview
+  clearPreview: () => void;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export interface UseModerationReturn extends UseModerationState, UseModerationActions {}
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+/**
+ * useModeration Hook
+ *
+ * Previews and applies grade moderation for a course.
+ * Applied moderations are saved through the bulk marks endpoint and
+ * recorded in the moderation audit log. If the marks are saved but the audit
+ * record is not, the record is kept in pendingAudit until retryAudit succeeds;
+ * no other moderation can be applied in the meantime.
+ *
+ * @param scheme - Course assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Moderation state and actions
+ *
+ * @example
+ * ```tsx
+ * function ModerationPanel({ marks, lecturer }) {
+ *   const { preview, previewRule, applyModeration, isApplying, error } = useModeration(scheme);
+ *
+ *   const handlePreview = () => previewRule(marks, { type: 'linear-shift', amount: 3 }, {
+ *     courseId: lecturer.courseId,
+ *     courseName: lecturer.courseName,
+ *     totalStudents: marks.length,
+ *   });
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={handlePreview}>Preview +3</button>
+ *       {preview && (
+ *         <>
+ *           <p>Mean: {preview.statisticsBefore.averageScore} → {preview.statisticsAfter.averageScore}</p>
+ *           <p>Grade changes: {preview.gradeChangeCount}</p>
+ *           <button
+ *             onClick={() => applyModeration('Paper was harder than intended', lecturer.id)}
+ *             disabled={isApplying}
+ *           >
+ *             Apply
+ *           </button>
+ *         </>
+ *       )}
+ *       {error && <p style={{ color: 'red' }}>{error}</p>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useModeration(scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME): UseModerationReturn {
+  const [preview, setPreview] = useState<ModerationPreview | null>(null);
+  const [history, setHistory] = useState<ModerationRecord[]>([]);
+  const [pendingAudit, setPendingAudit] = useState<ModerationRecord | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Preview a moderation rule (nothing is saved)
+   */
+  const previewRule = useCallback(
+    (
+      marksArray: StudentMarks[],
+      rule: ModerationRule,
+      course: { courseId: string; courseName: string; totalStudents: number }
+    ): ModerationPreview => {
+      const result = previewModeration(marksArray, rule, course, scheme);
+
+      setPreview(result);
+      setSuccess(false);
+      setError(null);
+      return result;
+    },
+    [scheme]
+  );
+
+  /**
+   * Record an applied moderation in the audit log
+   * On failure the record is kept as pendingAudit so it can be re-sent.
+   */
+  const sendAuditRecord = useCallback(async (record: ModerationRecord): Promise<boolean> => {
+    try {
+      const response = await recordModeration(record);
+
+      if (!response.success) {
+        setPendingAudit(record);
+        setError(`Marks were moderated but the audit record failed: ${response.message}`);
+        return false;
+      }
+
+      setHistory(current => [response.data, ...current]);
+      setPendingAudit(null);
+      setSuccess(true);
+      return true;
+    } catch (err) {
+      setPendingAudit(record);
+      setError('Marks were moderated but the audit record could not be sent');
+      return false;
+    }
+  }, []);
+
+  /**
+   * Apply the current preview through bulk marks submission
+   */
+  const applyModeration = useCallback(
+    async (reason: string, appliedBy: string): Promise<boolean> => {
+      setError(null);
+      setSuccess(false);
+
+      if (pendingAudit) {
+        setError('Record the previous moderation in the audit log before applying another');
+        return false;
+      }
+
+      if (!preview) {
+        setError('Preview a moderation rule before applying it');
+        return false;
+      }
+
+      const ruleValidation = validateModeration(preview.rule, reason, scheme);
+
+      if (!ruleValidation.isValid) {
+        setError(ruleValidation.errors[0].message);
+        return false;
+      }
+
+      const bulkInput = createModeratedBulkInput(preview);
+
+      if (bulkInput.marks.length === 0) {
+        setError('This moderation does not change any marks');
+        return false;
+      }
+
+      const marksValidation = validateBulkMarks(bulkInput.marks, scheme);
+
+      if (!marksValidation.isValid) {
+        setError(marksValidation.errors[0].message);
+        return false;
+      }
+
+      setIsApplying(true);
+
+      try {
+        const response = await bulkCreateMarks(bulkInput);
+
+        if (!response.success) {
+          setError(response.message);
+          setIsApplying(false);
+          return false;
+        }
+      } catch (err) {
+        setError('An unexpected error occurred while applying moderation');
+        setIsApplying(false);
+        return false;
+      }
+
+      // The marks are saved: the preview must not be applied a second time
+      setPreview(null);
+
+      // Record the audit entry once the marks are saved
+      const recorded = await sendAuditRecord(createModerationRecord(preview, reason, appliedBy));
+      setIsApplying(false);
+      return recorded;
+    },
+    [preview, pendingAudit, scheme, sendAuditRecord]
+  );
+
+  /**
+   * Re-send the audit record of a moderation whose marks are already saved
+   */
+  const retryAudit = useCallback(async (): Promise<boolean> => {
+    if (!pendingAudit) return false;
+
+    setError(null);
+    setIsApplying(true);
+
+    const recorded = await sendAuditRecord(pendingAudit);
+    setIsApplying(false);
+    return recorded;
+  }, [pendingAudit, sendAuditRecord]);
+
+  /**
+   * Fetch moderation audit history for a course
+   */
+  const fetchHistory = useCallback(async (courseId: string): Promise<void> => {
+    setError(null);
+    setIsLoadingHistory(true);
+
+    try {
+      const response = await getModerationHistory(courseId);
+
+      if (response.success) {
+        setHistory(response.data);
+      } else {
+        setError(response.message);
+      }
+    } catch (err) {
+      setError('Failed to fetch moderation history');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, []);
+
+  /**
+   * Discard the current preview
+   */
+  const clearPreview = useCallback(() => {
+    setPreview(null);
+  }, []);
+
+  /**
+   * Clear error message
+   */
+  const clearErrorMessage = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    preview,
+    history,
+    pendingAudit,
+    isApplying,
+    isLoadingHistory,
+    success,
+    error,
+
+    // Actions
+    previewRule,
+    applyModeration,
+    retryAudit,
+    fetchHistory,
+    clearPreview,
+    clearError: clearErrorMessage,
+  };
+}
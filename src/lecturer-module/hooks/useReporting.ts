@@ -7,23 +7,38 @@
  */
 
 import { useState, useCallback } from 'react';
-import type { StudentWithMarks, ClassStatistics } from '../types';
+import type {
+  StudentWithMarks,
+  ClassStatistics,
+  AssessmentScheme,
+  AtRiskStudent,
+  AtRiskThresholds,
+  Cohort,
+  CohortComparison,
+  Student,
+} from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_AT_RISK_THRESHOLDS,
+  DEFAULT_HISTOGRAM_BIN_WIDTH,
+  DEFAULT_SIGNIFICANCE_LEVEL,
+} from '../types';
 import { getCourseStatistics } from '../services/api';
 import {
   exportMarksToCSV,
   exportStatisticsToCSV,
   exportMarksToPrintableHTML,
+  exportAtRiskToCSV,
+  exportAtRiskToHTML,
+  exportComparisonToHTML,
   downloadCSV,
   downloadHTML,
   printHTML,
 } from '../utils/export';
-import {
-  calculateAverageScore,
-  findHighestScore,
-  findLowestScore,
-  calculatePassRate,
-  calculateGradeDistribution,
-} from '../utils/marks';
+import { calculateClassStatistics } from '../utils/marks';
+import { getSchemeGradingScale } from '../utils/grading';
+import { findAtRiskStudents } from '../utils/atRisk';
+import { compareCohorts as buildCohortComparison } from '../utils/comparison';
 
 // ============================================
 // HOOK STATE INTERFACE
@@ -32,6 +47,12 @@ import {
 interface UseReportingState {
   // Current statistics
   statistics: ClassStatistics | null;
+
+  // Students flagged by the last early-warning check (ranked)
+  atRiskStudents: AtRiskStudent[];
+
+  // Last cohort comparison
+  comparison: CohortComparison | null;
   
   // Loading states
   isLoadingStatistics: boolean;
@@ -46,19 +67,43 @@ interface UseReportingActions {
   fetchStatistics: (courseId: string) => Promise<ClassStatistics | null>;
   
   // Calculate statistics client-side (from students array)
-  calculateStatistics: (students: StudentWithMarks[], courseName: string, courseId: string) => ClassStatistics;
+  calculateStatistics: (
+    students: StudentWithMarks[],
+    courseName: string,
+    courseId: string,
+    binWidth?: number
+  ) => ClassStatistics;
   
+  // Flag students at risk of failing from their continuous assessment
+  findAtRisk: (students: StudentWithMarks[], thresholds?: AtRiskThresholds) => AtRiskStudent[];
+
+  // Export an at-risk list as an intervention report
+  exportAtRiskCSV: (atRisk: AtRiskStudent[], students: Student[], courseName: string) => void;
+  exportAtRiskHTML: (
+    atRisk: AtRiskStudent[],
+    students: Student[],
+    courseName: string,
+    lecturerName: string
+  ) => void;
+
+  // Compare sections or intakes side by side
+  compareCohorts: (cohorts: Cohort[], significanceLevel?: number) => CohortComparison;
+
+  // Export a cohort comparison to printable HTML / print it directly
+  exportComparisonHTML: (comparison: CohortComparison, title: string, lecturerName: string) => void;
+  printComparison: (comparison: CohortComparison, title: string, lecturerName: string) => void;
+
   // Export marks to CSV
   exportToCSV: (students: StudentWithMarks[], courseName: string) => void;
   
   // Export statistics to CSV
   exportStatisticsCSV: (statistics: ClassStatistics) => void;
   
-  // Export marks to printable HTML
-  exportToPrintableHTML: (students: StudentWithMarks[], courseName: string, lecturerName: string) => void;
+  // Export marks to printable HTML (lecturerPhone is shown as the formatted contact number)
+  exportToPrintableHTML: (students: StudentWithMarks[], courseName: string, lecturerName: string, lecturerPhone?: string) => void;
   
   // Print marks directly (opens print dialog)
-  printMarks: (students: StudentWithMarks[], courseName: string, lecturerName: string) => void;
+  printMarks: (students: StudentWithMarks[], courseName: string, lecturerName: string, lecturerPhone?: string) => void;
   
   // Clear error
   clearError: () => void;
@@ -76,6 +121,7 @@ export interface UseReportingReturn extends UseReportingState, UseReportingActio
  * Manages course statistics and data export functionality.
  * Provides methods for generating reports in various formats.
  * 
+ * @param scheme - Course assessment scheme used for export columns and grading scale (default: DEFAULT_ASSESSMENT_SCHEME)
  * @returns Reporting state and actions
  * 
  * @example
@@ -149,14 +195,37 @@ export interface UseReportingReturn extends UseReportingState, UseReportingActio
  *       <h3>Class Overview</h3>
  *       <p>Students: {stats.totalStudents}</p>
  *       <p>Average: {stats.averageScore}</p>
+ *       <p>Median: {stats.summary.median} (IQR {stats.summary.iqr})</p>
+ *       <p>Std. Deviation: {stats.summary.standardDeviation}</p>
  *       <p>Pass Rate: {stats.passRate}%</p>
  *     </div>
  *   );
  * }
  * ```
+ * 
+ * @example
+ * ```tsx
+ * // Early warning after the midsem
+ * function AtRiskPanel({ students, courseName, lecturerName }) {
+ *   const { atRiskStudents, findAtRisk, exportAtRiskHTML } = useReporting(scheme);
+ * 
+ *   useEffect(() => { findAtRisk(students); }, [students]);
+ * 
+ *   return (
+ *     <div>
+ *       {atRiskStudents.map(s => <p key={s.studentId}>{s.studentId}: {s.reasons[0].message}</p>)}
+ *       <button onClick={() => exportAtRiskHTML(atRiskStudents, students, courseName, lecturerName)}>
+ *         Intervention Report
+ *       </button>
+ *     </div>
+ *   );
+ * }
+ * ```
  */
-export function useReporting(): UseReportingReturn {
+export function useReporting(scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME): UseReportingReturn {
   const [statistics, setStatistics] = useState<ClassStatistics | null>(null);
+  const [atRiskStudents, setAtRiskStudents] = useState<AtRiskStudent[]>([]);
+  const [comparison, setComparison] = useState<CohortComparison | null>(null);
   const [isLoadingStatistics, setIsLoadingStatistics] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -190,29 +259,147 @@ export function useReporting(): UseReportingReturn {
   /**
    * Calculate statistics client-side
    * Useful when you already have the data and don't need to fetch from backend
+   * Includes median, spread, quartiles, skewness and a histogram (binWidth marks
+   * per bin) for the total and for every component.
    */
   const calculateStatistics = useCallback(
-    (students: StudentWithMarks[], courseName: string, courseId: string): ClassStatistics => {
+    (
+      students: StudentWithMarks[],
+      courseName: string,
+      courseId: string,
+      binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH
+    ): ClassStatistics => {
       // Filter students who have marks
       const studentsWithMarks = students.filter(s => s.marks !== undefined);
       const marksArray = studentsWithMarks.map(s => s.marks!);
 
       // Calculate statistics
-      const stats: ClassStatistics = {
-        courseId,
-        courseName,
-        totalStudents: students.length,
-        studentsWithMarks: studentsWithMarks.length,
-        averageScore: calculateAverageScore(marksArray),
-        highestScore: findHighestScore(marksArray),
-        lowestScore: findLowestScore(marksArray),
-        passRate: calculatePassRate(marksArray),
-        gradeDistribution: calculateGradeDistribution(marksArray),
-      };
+      const stats = calculateClassStatistics(
+        marksArray,
+        { courseId, courseName, totalStudents: students.length },
+        getSchemeGradingScale(scheme),
+        scheme,
+        binWidth
+      );
 
       setStatistics(stats);
       return stats;
     },
+    [scheme]
+  );
+
+  /**
+   * Flag students at risk of failing
+   * Students without a marks record are checked too (every component is missing).
+   */
+  const findAtRisk = useCallback(
+    (
+      students: StudentWithMarks[],
+      thresholds: AtRiskThresholds = DEFAULT_AT_RISK_THRESHOLDS
+    ): AtRiskStudent[] => {
+      const marksArray = students.map(student => ({
+        studentId: student.id,
+        scores: student.marks?.scores ?? {},
+        statuses: student.marks?.statuses,
+      }));
+
+      const atRisk = findAtRiskStudents(marksArray, scheme, thresholds);
+      setAtRiskStudents(atRisk);
+      return atRisk;
+    },
+    [scheme]
+  );
+
+  /**
+   * Export an at-risk list to CSV and trigger download
+   */
+  const exportAtRiskCSV = useCallback(
+    (atRisk: AtRiskStudent[], students: Student[], courseName: string): void => {
+      setIsExporting(true);
+      setError(null);
+
+      try {
+        downloadCSV(exportAtRiskToCSV(atRisk, students, courseName));
+      } catch (err) {
+        setError('Failed to export at-risk CSV');
+        console.error('At-risk CSV export error:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  /**
+   * Export an at-risk list to a printable intervention report and download file
+   */
+  const exportAtRiskHTML = useCallback(
+    (atRisk: AtRiskStudent[], students: Student[], courseName: string, lecturerName: string): void => {
+      setIsExporting(true);
+      setError(null);
+
+      try {
+        downloadHTML(exportAtRiskToHTML(atRisk, students, courseName, lecturerName));
+      } catch (err) {
+        setError('Failed to export intervention report');
+        console.error('Intervention report export error:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  /**
+   * Compare cohorts side by side
+   * Cohorts without their own scheme are summarised under the hook's scheme.
+   */
+  const compareCohorts = useCallback(
+    (cohorts: Cohort[], significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL): CohortComparison => {
+      const result = buildCohortComparison(cohorts, scheme, significanceLevel);
+      setComparison(result);
+      return result;
+    },
+    [scheme]
+  );
+
+  /**
+   * Export a cohort comparison to printable HTML and download file
+   */
+  const exportComparisonHTML = useCallback(
+    (comparison: CohortComparison, title: string, lecturerName: string): void => {
+      setIsExporting(true);
+      setError(null);
+
+      try {
+        downloadHTML(exportComparisonToHTML(comparison, title, lecturerName));
+      } catch (err) {
+        setError('Failed to export comparison report');
+        console.error('Comparison export error:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  /**
+   * Print a cohort comparison directly (opens print dialog)
+   */
+  const printComparison = useCallback(
+    (comparison: CohortComparison, title: string, lecturerName: string): void => {
+      setIsExporting(true);
+      setError(null);
+
+      try {
+        printHTML(exportComparisonToHTML(comparison, title, lecturerName));
+      } catch (err) {
+        setError('Failed to print comparison report');
+        console.error('Comparison print error:', err);
+      } finally {
+        setIsExporting(false);
+      }
+    },
     []
   );
 
@@ -224,7 +411,7 @@ export function useReporting(): UseReportingReturn {
     setError(null);
 
     try {
-      const csvData = exportMarksToCSV(students, courseName);
+      const csvData = exportMarksToCSV(students, courseName, scheme);
       downloadCSV(csvData);
     } catch (err) {
       setError('Failed to export CSV');
@@ -232,7 +419,7 @@ export function useReporting(): UseReportingReturn {
     } finally {
       setIsExporting(false);
     }
-  }, []);
+  }, [scheme]);
 
   /**
    * Export statistics to CSV and trigger download
@@ -256,12 +443,12 @@ export function useReporting(): UseReportingReturn {
    * Export marks to printable HTML and download file
    */
   const exportToPrintableHTML = useCallback(
-    (students: StudentWithMarks[], courseName: string, lecturerName: string): void => {
+    (students: StudentWithMarks[], courseName: string, lecturerName: string, lecturerPhone?: string): void => {
       setIsExporting(true);
       setError(null);
 
       try {
-        const htmlData = exportMarksToPrintableHTML(students, courseName, lecturerName);
+        const htmlData = exportMarksToPrintableHTML(students, courseName, lecturerName, scheme, lecturerPhone);
         downloadHTML(htmlData);
       } catch (err) {
         setError('Failed to export HTML');
@@ -270,19 +457,19 @@ export function useReporting(): UseReportingReturn {
         setIsExporting(false);
       }
     },
-    []
+    [scheme]
   );
 
   /**
    * Print marks directly (opens print dialog)
    */
   const printMarks = useCallback(
-    (students: StudentWithMarks[], courseName: string, lecturerName: string): void => {
+    (students: StudentWithMarks[], courseName: string, lecturerName: string, lecturerPhone?: string): void => {
       setIsExporting(true);
       setError(null);
 
       try {
-        const htmlData = exportMarksToPrintableHTML(students, courseName, lecturerName);
+        const htmlData = exportMarksToPrintableHTML(students, courseName, lecturerName, scheme, lecturerPhone);
         printHTML(htmlData);
       } catch (err) {
         setError('Failed to print');
@@ -291,7 +478,7 @@ export function useReporting(): UseReportingReturn {
         setIsExporting(false);
       }
     },
-    []
+    [scheme]
   );
 
   /**
@@ -304,6 +491,8 @@ export function useReporting(): UseReportingReturn {
   return {
     // State
     statistics,
+    atRiskStudents,
+    comparison,
     isLoadingStatistics,
     isExporting,
     error,
@@ -311,6 +500,12 @@ export function useReporting(): UseReportingReturn {
     // Actions
     fetchStatistics,
     calculateStatistics,
+    findAtRisk,
+    exportAtRiskCSV,
+    exportAtRiskHTML,
+    compareCohorts,
+    exportComparisonHTML,
+    printComparison,
     exportToCSV,
     exportStatisticsCSV,
     exportToPrintableHTML,
@@ -4,15 +4,18 @@
  * 
  * Custom React hook for fetching and managing student data.
  * Provides access to students registered under a lecturer's course.
+ * Fetching another course cancels the previous fetch, so a slow reply for the
+ * old course never overwrites the new one.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Student, StudentWithMarks } from '../types';
 import {
   getStudentsByCourse,
   getStudentById,
   getMarksByCourse,
 } from '../services/api';
+import { findStudentByRegistrationNumber as findByRegistrationNumber } from '../utils/registration';
 
 // ============================================
 // HOOK STATE INTERFACE
@@ -43,6 +46,9 @@ interface UseStudentsActions {
   // Fetch single student
   fetchStudent: (studentId: string) => Promise<Student | null>;
   
+  // Find a loaded student by registration number (any case, spacing or separators)
+  findStudentByRegistrationNumber: (registrationNumber: string) => Student | null;
+  
   // Refresh student list
   refresh: () => Promise<void>;
   
@@ -121,15 +127,40 @@ export function useStudents(courseId?: string): UseStudentsReturn {
   const [error, setError] = useState<string | null>(null);
   const [lastFetchedCourseId, setLastFetchedCourseId] = useState<string | undefined>();
 
+  // In-flight student list fetch; replaced (and aborted) by the next one
+  const listRequestRef = useRef<AbortController | null>(null);
+
+  /**
+   * Abort the previous student list fetch and start tracking a new one
+   */
+  const startListRequest = useCallback((): AbortController => {
+    listRequestRef.current?.abort();
+    const controller = new AbortController();
+    listRequestRef.current = controller;
+    return controller;
+  }, []);
+
+  /**
+   * Whether a fetch is still the latest one (older fetches must not touch state)
+   */
+  const isLatestListRequest = useCallback(
+    (controller: AbortController): boolean => listRequestRef.current === controller,
+    []
+  );
+
   /**
    * Fetch students for a course
    */
   const fetchStudents = useCallback(async (courseId: string): Promise<void> => {
+    const request = startListRequest();
     setError(null);
     setIsLoading(true);
 
     try {
-      const response = await getStudentsByCourse(courseId);
+      const response = await getStudentsByCourse(courseId, { signal: request.signal });
+
+      // Superseded by a fetch for another course
+      if (!isLatestListRequest(request)) return;
 
       if (response.success) {
         setStudents(response.data);
@@ -139,31 +170,38 @@ export function useStudents(courseId?: string): UseStudentsReturn {
         setStudents([]);
       }
     } catch (err) {
+      if (!isLatestListRequest(request)) return;
       setError('Failed to fetch students');
       setStudents([]);
     } finally {
-      setIsLoading(false);
+      if (isLatestListRequest(request)) {
+        listRequestRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [startListRequest, isLatestListRequest]);
 
   /**
    * Fetch students with their marks
    */
   const fetchStudentsWithMarks = useCallback(async (courseId: string): Promise<void> => {
+    const request = startListRequest();
     setError(null);
     setIsLoading(true);
 
     try {
       // Fetch both students and marks in parallel
       const [studentsResponse, marksResponse] = await Promise.all([
-        getStudentsByCourse(courseId),
-        getMarksByCourse(courseId),
+        getStudentsByCourse(courseId, { signal: request.signal }),
+        getMarksByCourse(courseId, { signal: request.signal }),
       ]);
 
+      // Superseded by a fetch for another course
+      if (!isLatestListRequest(request)) return;
+
       if (!studentsResponse.success) {
         setError(studentsResponse.message);
         setStudentsWithMarks([]);
-        setIsLoading(false);
         return;
       }
 
@@ -183,12 +221,16 @@ export function useStudents(courseId?: string): UseStudentsReturn {
       setStudents(studentsData);
       setLastFetchedCourseId(courseId);
     } catch (err) {
+      if (!isLatestListRequest(request)) return;
       setError('Failed to fetch students with marks');
       setStudentsWithMarks([]);
     } finally {
-      setIsLoading(false);
+      if (isLatestListRequest(request)) {
+        listRequestRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [startListRequest, isLatestListRequest]);
 
   /**
    * Fetch single student by ID
@@ -209,6 +251,15 @@ export function useStudents(courseId?: string): UseStudentsReturn {
     }
   }, []);
 
+  /**
+   * Find a loaded student by registration number
+   * 'sct211 0001 2021' finds the student registered as 'SCT211-0001/2021'.
+   */
+  const findStudentByRegistrationNumber = useCallback(
+    (registrationNumber: string): Student | null => findByRegistrationNumber(students, registrationNumber) ?? null,
+    [students]
+  );
+
   /**
    * Refresh current student list
    */
@@ -243,6 +294,11 @@ export function useStudents(courseId?: string): UseStudentsReturn {
     }
   }, [courseId, fetchStudents]);
 
+  /**
+   * Cancel any pending fetch on unmount
+   */
+  useEffect(() => () => listRequestRef.current?.abort(), []);
+
   return {
     // State
     students,
@@ -255,6 +311,7 @@ export function useStudents(courseId?: string): UseStudentsReturn {
     fetchStudents,
     fetchStudentsWithMarks,
     fetchStudent,
+    findStudentByRegistrationNumber,
     refresh,
     clearError: clearErrorMessage,
   };
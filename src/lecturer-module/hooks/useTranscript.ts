@@ -0,0 +1,191 @@
+/**
+ * Lecturer Module - Transcript Hook
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * Custom React hook for academic advisors.
+ * Computes semester and cumulative GPA, credits earned and academic standing
+ * from a student's results across courses, and prints the unofficial transcript.
+ */
+
+import { useState, useCallback } from 'react';
+import type {
+  AcademicStandingThresholds,
+  CourseResult,
+  Student,
+  Transcript,
+} from '../types';
+import { DEFAULT_ACADEMIC_STANDING_THRESHOLDS } from '../types';
+import { getStudentResults } from '../services/api';
+import { calculateTranscript } from '../utils/transcript';
+import { downloadHTML, exportTranscriptToHTML, printHTML } from '../utils/export';
+
+// ============================================
+// HOOK STATE INTERFACE
+// ============================================
+
+interface UseTranscriptState {
+  // Current transcript
+  transcript: Transcript | null;
+
+  // Loading states
+  isLoading: boolean;
+  isExporting: boolean;
+
+  // Error handling
+  error: string | null;
+}
+
+interface UseTranscriptActions {
+  // Fetch a student's results from the backend and build the transcript
+  fetchTranscript: (studentId: string) => Promise<Transcript | null>;
+
+  // Build a transcript from results already loaded
+  buildTranscript: (studentId: string, results: CourseResult[]) => Transcript;
+
+  // Download the unofficial transcript as HTML
+  exportTranscriptHTML: (transcript: Transcript, student: Student) => void;
+
+  // Print the unofficial transcript (opens print dialog)
+  printTranscript: (transcript: Transcript, student: Student) => void;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export interface UseTranscriptReturn extends UseTranscriptState, UseTranscriptActions {}
+
+// ============================================
+// CUSTOM HOOK
+// ============================================
+
+/**
+ * useTranscript Hook
+ *
+ * Builds a student's transcript across courses and exports it through the
+ * same HTML/print pipeline as the marks report.
+ *
+ * @param thresholds - Academic standing thresholds (default: DEFAULT_ACADEMIC_STANDING_THRESHOLDS)
+ * @returns Transcript state and actions
+ *
+ * @example
+ * ```tsx
+ * function AdvisorView({ student }) {
+ *   const { transcript, fetchTranscript, printTranscript, isLoading } = useTranscript();
+ *
+ *   useEffect(() => { fetchTranscript(student.id); }, [student.id]);
+ *
+ *   if (isLoading || !transcript) return <p>Loading transcript...</p>;
+ *
+ *   return (
+ *     <div>
+ *       <p>CGPA: {transcript.cumulativeGpa} ({transcript.standing})</p>
+ *       <p>Credits earned: {transcript.creditsEarned}</p>
+ *       <button onClick={() => printTranscript(transcript, student)}>Print Transcript</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useTranscript(
+  thresholds: AcademicStandingThresholds = DEFAULT_ACADEMIC_STANDING_THRESHOLDS
+): UseTranscriptReturn {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Build a transcript from results already loaded
+   */
+  const buildTranscript = useCallback(
+    (studentId: string, results: CourseResult[]): Transcript => {
+      const built = calculateTranscript(studentId, results, thresholds);
+      setTranscript(built);
+      return built;
+    },
+    [thresholds]
+  );
+
+  /**
+   * Fetch a student's results and build the transcript
+   */
+  const fetchTranscript = useCallback(
+    async (studentId: string): Promise<Transcript | null> => {
+      setError(null);
+      setIsLoading(true);
+
+      try {
+        const response = await getStudentResults(studentId);
+
+        if (!response.success) {
+          setError(response.message);
+          return null;
+        }
+
+        return buildTranscript(studentId, response.data);
+      } catch (err) {
+        setError('Failed to fetch student results');
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [buildTranscript]
+  );
+
+  /**
+   * Download the unofficial transcript as HTML
+   */
+  const exportTranscriptHTML = useCallback((transcript: Transcript, student: Student): void => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      downloadHTML(exportTranscriptToHTML(transcript, student));
+    } catch (err) {
+      setError('Failed to export transcript');
+      console.error('Transcript export error:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  /**
+   * Print the unofficial transcript
+   */
+  const printTranscript = useCallback((transcript: Transcript, student: Student): void => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      printHTML(exportTranscriptToHTML(transcript, student));
+    } catch (err) {
+      setError('Failed to print transcript');
+      console.error('Transcript print error:', err);
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  /**
+   * Clear error message
+   */
+  const clearErrorMessage = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    // State
+    transcript,
+    isLoading,
+    isExporting,
+    error,
+
+    // Actions
+    fetchTranscript,
+    buildTranscript,
+    exportTranscriptHTML,
+    printTranscript,
+    clearError: clearErrorMessage,
+  };
+}
@@ -5,6 +5,10 @@
  * This file handles all HTTP requests to the backend API.
  * Backend team (Group 5) will provide actual endpoint URLs.
  * 
+ * Requests go through an ApiClient (createApiClient) with its own base URL,
+ * endpoints, token storage, transport and interceptors. The exported functions
+ * below use the default client, configured from VITE_API_BASE_URL.
+ * 
  * PLACEHOLDER URLs are used - update these when backend is ready!
  */
 
@@ -19,7 +23,22 @@ import type {
   MarksInput,
   BulkMarksInput,
   ClassStatistics,
+  AssessmentScheme,
+  ModerationRecord,
+  BorderlineReviewItem,
+  CourseResult,
+  ApiClientConfig,
+  ApiEndpoints,
+  ApiErrorResponse,
+  ApiRequest,
+  ApiRequestOptions,
+  ApiTransport,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryPolicy,
+  TokenProvider,
 } from '../types';
+import { DEFAULT_API_TIMEOUT_MS, DEFAULT_RETRY_POLICY } from '../types';
 
 // ============================================
 // API CONFIGURATION
@@ -32,12 +51,14 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000
 
 /**
  * API endpoints - UPDATE these paths according to backend routes
+ * Clients can override single routes with ApiClientConfig.endpoints.
  */
-const ENDPOINTS = {
+export const DEFAULT_ENDPOINTS: Readonly<ApiEndpoints> = {
   // Authentication
   login: '/auth/login',
   register: '/auth/register',
   logout: '/auth/logout',
+  checkEmailAvailability: (email: string) => `/auth/email-availability?email=${encodeURIComponent(email)}`,
   
   // Lecturer
   getLecturerProfile: '/lecturer/profile',
@@ -45,6 +66,14 @@ const ENDPOINTS = {
   // Students
   getStudentsByCourse: (courseId: string) => `/courses/${courseId}/students`,
   getStudentById: (studentId: string) => `/students/${studentId}`,
+  getStudentResults: (studentId: string) => `/students/${studentId}/results`,
+  
+  // Courses
+  checkCourseExists: (courseId: string) => `/courses/${courseId}/exists`,
+  checkStudentEnrollment: (courseId: string, studentId: string) =>
+    `/courses/${courseId}/students/${studentId}/enrollment`,
+  getAssessmentScheme: (courseId: string) => `/courses/${courseId}/assessment-scheme`,
+  finalizeCourseMarks: (courseId: string) => `/courses/${courseId}/finalize`,
   
   // Marks
   createMarks: '/marks',
@@ -55,7 +84,11 @@ const ENDPOINTS = {
   
   // Statistics
   getCourseStatistics: (courseId: string) => `/statistics/course/${courseId}`,
-} as const;
+  
+  // Moderation
+  recordModeration: '/moderation',
+  getModerationHistory: (courseId: string) => `/moderation/course/${courseId}`,
+};
 
 /**
  * Storage key for authentication token
@@ -63,88 +96,584 @@ const ENDPOINTS = {
 export const AUTH_TOKEN_KEY = 'lecturer_auth_token';
 
 // ============================================
-// API UTILITIES
+// TOKEN PROVIDERS
 // ============================================
 
 /**
- * Get authentication token from localStorage
+ * Keep the authentication token in localStorage (default)
+ * 
+ * @param key - Storage key (default: AUTH_TOKEN_KEY); use one key per client
+ *              when staging and production clients run side by side
  */
-function getAuthToken(): string | null {
-  return localStorage.getItem(AUTH_TOKEN_KEY);
+export function createLocalStorageTokenProvider(key: string = AUTH_TOKEN_KEY): TokenProvider {
+  return {
+    getToken: () => localStorage.getItem(key),
+    setToken: (token: string) => localStorage.setItem(key, token),
+    removeToken: () => localStorage.removeItem(key),
+  };
 }
 
 /**
- * Set authentication token in localStorage
+ * Keep the authentication token in memory (tests, server-side rendering)
+ * 
+ * @param initialToken - Token to start with (default: none)
  */
-export function setAuthToken(token: string): void {
-  localStorage.setItem(AUTH_TOKEN_KEY, token);
+export function createMemoryTokenProvider(initialToken: string | null = null): TokenProvider {
+  let token = initialToken;
+
+  return {
+    getToken: () => token,
+    setToken: (value: string) => {
+      token = value;
+    },
+    removeToken: () => {
+      token = null;
+    },
+  };
 }
 
+// ============================================
+// API CLIENT
+// ============================================
+
 /**
- * Remove authentication token from localStorage
+ * API client bound to one backend (see createApiClient)
+ * Each API call mirrors the exported function of the same name; the trailing
+ * options carry an AbortSignal and per-call timeout and retry settings.
  */
-export function removeAuthToken(): void {
-  localStorage.removeItem(AUTH_TOKEN_KEY);
+export interface ApiClient {
+  baseUrl: string;
+  endpoints: Readonly<ApiEndpoints>;
+  tokenProvider: TokenProvider;
+  timeoutMs: number;
+  retryPolicy: Readonly<RetryPolicy>;
+
+  // Send a request to an endpoint path; never throws
+  request: <T>(endpoint: string, init?: RequestInit, options?: ApiRequestOptions) => Promise<ApiResponse<T>>;
+  // Add an interceptor after the configured ones; returns a function that removes it
+  addRequestInterceptor: (interceptor: RequestInterceptor) => () => void;
+  addResponseInterceptor: (interceptor: ResponseInterceptor) => () => void;
+
+  // Authentication
+  loginLecturer: (credentials: LoginCredentials, options?: ApiRequestOptions) => Promise<ApiResponse<LoginResponse>>;
+  registerLecturer: (data: LecturerRegistrationData, options?: ApiRequestOptions) => Promise<ApiResponse<Lecturer>>;
+  logoutLecturer: (options?: ApiRequestOptions) => Promise<ApiResponse<void>>;
+  getLecturerProfile: (options?: ApiRequestOptions) => Promise<ApiResponse<Lecturer>>;
+  isAuthenticated: () => boolean;
+  setAuthToken: (token: string) => void;
+  removeAuthToken: () => void;
+
+  // Students
+  getStudentsByCourse: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<Student[]>>;
+  getStudentById: (studentId: string, options?: ApiRequestOptions) => Promise<ApiResponse<Student>>;
+  getStudentResults: (studentId: string, options?: ApiRequestOptions) => Promise<ApiResponse<CourseResult[]>>;
+
+  // Courses
+  getAssessmentScheme: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<AssessmentScheme>>;
+  finalizeCourseMarks: (
+    courseId: string,
+    reviews: BorderlineReviewItem[],
+    options?: ApiRequestOptions
+  ) => Promise<ApiResponse<void>>;
+
+  // Marks
+  createMarks: (marks: MarksInput, options?: ApiRequestOptions) => Promise<ApiResponse<StudentMarks>>;
+  updateMarks: (
+    marksId: string,
+    marks: Partial<MarksInput>,
+    options?: ApiRequestOptions
+  ) => Promise<ApiResponse<StudentMarks>>;
+  getMarksByStudent: (studentId: string, options?: ApiRequestOptions) => Promise<ApiResponse<StudentMarks>>;
+  getMarksByCourse: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<StudentMarks[]>>;
+  bulkCreateMarks: (bulkMarks: BulkMarksInput, options?: ApiRequestOptions) => Promise<ApiResponse<StudentMarks[]>>;
+
+  // Statistics & moderation
+  getCourseStatistics: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<ClassStatistics>>;
+  recordModeration: (record: ModerationRecord, options?: ApiRequestOptions) => Promise<ApiResponse<ModerationRecord>>;
+  getModerationHistory: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<ModerationRecord[]>>;
+
+  // Validation lookups
+  checkEmailAvailability: (
+    email: string,
+    options?: ApiRequestOptions
+  ) => Promise<ApiResponse<{ available: boolean }>>;
+  checkCourseExists: (courseId: string, options?: ApiRequestOptions) => Promise<ApiResponse<{ exists: boolean }>>;
+  checkStudentEnrollment: (
+    courseId: string,
+    studentId: string,
+    options?: ApiRequestOptions
+  ) => Promise<ApiResponse<{ enrolled: boolean }>>;
 }
 
 /**
- * Build headers for API requests
- * Includes authentication token if available
+ * Copy request headers into a plain object
  */
-function buildHeaders(): HeadersInit {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
+function toHeaderRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (headers) {
+    new Headers(headers).forEach((value, key) => {
+      record[key] = value;
+    });
+  }
+  return record;
+}
 
-  const token = getAuthToken();
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
+/**
+ * Merge per-call retry settings over a base policy (false = single attempt)
+ */
+function resolveRetryPolicy(base: Readonly<RetryPolicy>, retry: Partial<RetryPolicy> | false | undefined): RetryPolicy {
+  if (retry === false) {
+    return { ...base, retries: 0 };
   }
+  return { ...base, ...retry };
+}
 
-  return headers;
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half is random
+ */
+function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Whether a failed attempt is worth repeating
+ */
+function isRetryableResponse(response: ApiResponse<unknown>, policy: RetryPolicy): boolean {
+  if (response.success) return false;
+
+  const { error, statusCode } = response as ApiErrorResponse;
+  if (error === 'NETWORK_ERROR' || error === 'TIMEOUT') return true;
+  return statusCode !== undefined && policy.statusCodes.includes(statusCode);
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the promise never settles
+ * (transports that ignore the signal, stalled response bodies)
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('The operation was aborted', 'AbortError'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait before a retry
+ * 
+ * @returns false if the signal aborted the wait
+ */
+function waitForRetry(ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+  return new Promise<boolean>(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
- * Generic fetch wrapper with error handling
+ * Response for a request cancelled by the caller
  */
-async function fetchAPI<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> {
-  try {
-    const url = `${API_BASE_URL}${endpoint}`;
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...buildHeaders(),
-        ...options.headers,
-      },
+function abortedResponse(): ApiErrorResponse {
+  return {
+    success: false,
+    error: 'ABORTED',
+    message: 'Request was cancelled',
+  };
+}
+
+/**
+ * Create an API client
+ * Clients are independent: each has its own base URL, endpoints, token storage,
+ * transport and interceptors, so staging and production can be used side by side.
+ * 
+ * Every attempt is limited to timeoutMs (TIMEOUT). GET and HEAD requests that fail
+ * with a network error, a timeout or a temporary server error (502, 503, ...) are
+ * retried with exponential backoff; other methods are sent once, since the server
+ * may already have saved them. Aborting the caller's signal ends the request and
+ * any pending retry with ABORTED.
+ * 
+ * @param config - Client configuration; only baseUrl is required
+ * @returns API client
+ * 
+ * @example
+ * const staging = createApiClient({
+ *   baseUrl: 'https://staging.example.ac.ke/api',
+ *   tokenProvider: createLocalStorageTokenProvider('lecturer_auth_token_staging'),
+ *   requestInterceptors: [
+ *     request => ({ ...request, headers: { ...request.headers, 'X-Tenant-ID': 'uni-b' } }),
+ *   ],
+ *   timeoutMs: 10000,
+ * });
+ * await staging.getStudentsByCourse('COURSE_001', { signal: controller.signal });
+ * 
+ * // Tests: fake transport, token in memory, no retries
+ * const client = createApiClient({
+ *   baseUrl: 'http://test',
+ *   tokenProvider: createMemoryTokenProvider(),
+ *   transport: async () => new Response(JSON.stringify([]), { status: 200 }),
+ *   retry: false,
+ * });
+ */
+export function createApiClient(config: ApiClientConfig): ApiClient {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const endpoints: Readonly<ApiEndpoints> = { ...DEFAULT_ENDPOINTS, ...config.endpoints };
+  const tokenProvider = config.tokenProvider ?? createLocalStorageTokenProvider();
+  // Looked up per call so a fetch polyfilled after the client is created is still used
+  const transport: ApiTransport = config.transport ?? ((url, init) => fetch(url, init));
+  const requestInterceptors: RequestInterceptor[] = [...(config.requestInterceptors ?? [])];
+  const responseInterceptors: ResponseInterceptor[] = [...(config.responseInterceptors ?? [])];
+  const timeoutMs = config.timeoutMs ?? DEFAULT_API_TIMEOUT_MS;
+  const retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, config.retry);
+
+  /**
+   * Build headers for API requests
+   * Includes authentication token if available
+   */
+  function buildHeaders(headers: HeadersInit | undefined): Record<string, string> {
+    const result: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    const token = tokenProvider.getToken();
+    if (token) {
+      result['Authorization'] = `Bearer ${token}`;
+    }
+
+    // Caller headers win; names are case-insensitive ('content-type' replaces 'Content-Type')
+    Object.entries(toHeaderRecord(headers)).forEach(([name, value]) => {
+      Object.keys(result)
+        .filter(existing => existing.toLowerCase() === name)
+        .forEach(existing => delete result[existing]);
+      result[name] = value;
     });
 
-    const data = await response.json();
+    return result;
+  }
+
+  /**
+   * Send one attempt and turn the reply into an ApiResponse
+   */
+  async function sendOnce<T>(request: ApiRequest, attemptTimeoutMs: number): Promise<ApiResponse<T>> {
+    if (request.signal?.aborted) {
+      return abortedResponse();
+    }
+
+    // Aborted by the caller's signal or by the timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timer = attemptTimeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, attemptTimeoutMs)
+      : undefined;
+
+    try {
+      const response = await abortable(
+        transport(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          signal: controller.signal,
+        }),
+        controller.signal
+      );
+
+      const data = await abortable(response.json(), controller.signal).catch(error => {
+        // Error pages from proxies (502, 504) are often not JSON
+        if (response.ok || controller.signal.aborted) throw error;
+        return {};
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || 'Request failed',
+          message: data.message || `HTTP ${response.status}`,
+          statusCode: response.status,
+        };
+      }
+
+      return {
+        success: true,
+        data,
+        message: data.message,
+      };
+    } catch (error) {
+      if (timedOut) {
+        return {
+          success: false,
+          error: 'TIMEOUT',
+          message: `Request timed out after ${attemptTimeoutMs / 1000} s`,
+        };
+      }
+
+      if (request.signal?.aborted) {
+        return abortedResponse();
+      }
 
-    if (!response.ok) {
       return {
         success: false,
-        error: data.error || 'Request failed',
-        message: data.message || `HTTP ${response.status}`,
-        statusCode: response.status,
+        error: 'NETWORK_ERROR',
+        message: error instanceof Error ? error.message : 'Network request failed',
       };
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Send a request, retrying idempotent requests that failed temporarily
+   */
+  async function send<T>(request: ApiRequest, options: ApiRequestOptions): Promise<ApiResponse<T>> {
+    const policy = resolveRetryPolicy(retryPolicy, options.retry);
+    const attemptTimeoutMs = options.timeoutMs ?? timeoutMs;
+    const canRetry = policy.methods.includes(request.method.toUpperCase());
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await sendOnce<T>(request, attemptTimeoutMs);
+
+      if (!canRetry || attempt >= policy.retries || !isRetryableResponse(response, policy)) {
+        return response;
+      }
+
+      if (!(await waitForRetry(getRetryDelay(attempt, policy), request.signal))) {
+        return abortedResponse();
+      }
     }
+  }
 
-    return {
-      success: true,
-      data,
-      message: data.message,
+  /**
+   * Generic fetch wrapper with error handling, interceptors, timeouts and retries
+   */
+  async function fetchAPI<T>(
+    endpoint: string,
+    init: RequestInit = {},
+    options: ApiRequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    let request: ApiRequest = {
+      endpoint,
+      url: `${baseUrl}${endpoint}`,
+      method: init.method ?? 'GET',
+      headers: buildHeaders(init.headers),
+      body: init.body,
+      signal: options.signal ?? init.signal ?? undefined,
     };
-  } catch (error) {
-    return {
-      success: false,
-      error: 'NETWORK_ERROR',
-      message: error instanceof Error ? error.message : 'Network request failed',
+
+    let response: ApiResponse<unknown>;
+    try {
+      for (const interceptor of requestInterceptors) {
+        request = await interceptor(request);
+      }
+      response = await send<T>(request, options);
+    } catch (error) {
+      // A request interceptor failed; nothing was sent
+      response = {
+        success: false,
+        error: 'REQUEST_INTERCEPTOR_ERROR',
+        message: error instanceof Error ? error.message : 'Request could not be prepared',
+      };
+    }
+
+    try {
+      for (const interceptor of responseInterceptors) {
+        response = await interceptor(response, request);
+      }
+    } catch (error) {
+      // A response interceptor failed; the remaining ones are skipped
+      return {
+        success: false,
+        error: 'RESPONSE_INTERCEPTOR_ERROR',
+        message: error instanceof Error ? error.message : 'Response could not be processed',
+      };
+    }
+
+    return response as ApiResponse<T>;
+  }
+
+  /**
+   * Register an interceptor; the returned function removes it again
+   */
+  function addInterceptor<TInterceptor>(list: TInterceptor[], interceptor: TInterceptor): () => void {
+    list.push(interceptor);
+    return () => {
+      const index = list.indexOf(interceptor);
+      if (index !== -1) list.splice(index, 1);
     };
   }
+
+  return {
+    baseUrl,
+    endpoints,
+    tokenProvider,
+    timeoutMs,
+    retryPolicy,
+
+    request: fetchAPI,
+    addRequestInterceptor: interceptor => addInterceptor(requestInterceptors, interceptor),
+    addResponseInterceptor: interceptor => addInterceptor(responseInterceptors, interceptor),
+
+    // Authentication
+    loginLecturer: async (credentials, options) => {
+      const response = await fetchAPI<LoginResponse>(endpoints.login, {
+        method: 'POST',
+        body: JSON.stringify(credentials),
+      }, options);
+
+      // Store token if login successful
+      if (response.success) {
+        tokenProvider.setToken(response.data.token);
+      }
+
+      return response;
+    },
+    registerLecturer: (data, options) =>
+      fetchAPI<Lecturer>(endpoints.register, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }, options),
+    logoutLecturer: async options => {
+      const response = await fetchAPI<void>(endpoints.logout, {
+        method: 'POST',
+      }, options);
+
+      // Clear token regardless of response
+      tokenProvider.removeToken();
+
+      return response;
+    },
+    getLecturerProfile: options => fetchAPI<Lecturer>(endpoints.getLecturerProfile, { method: 'GET' }, options),
+    isAuthenticated: () => tokenProvider.getToken() !== null,
+    setAuthToken: token => tokenProvider.setToken(token),
+    removeAuthToken: () => tokenProvider.removeToken(),
+
+    // Students
+    getStudentsByCourse: (courseId, options) =>
+      fetchAPI<Student[]>(endpoints.getStudentsByCourse(courseId), { method: 'GET' }, options),
+    getStudentById: (studentId, options) =>
+      fetchAPI<Student>(endpoints.getStudentById(studentId), { method: 'GET' }, options),
+    getStudentResults: (studentId, options) =>
+      fetchAPI<CourseResult[]>(endpoints.getStudentResults(studentId), { method: 'GET' }, options),
+
+    // Courses
+    getAssessmentScheme: (courseId, options) =>
+      fetchAPI<AssessmentScheme>(endpoints.getAssessmentScheme(courseId), { method: 'GET' }, options),
+    finalizeCourseMarks: (courseId, reviews, options) =>
+      fetchAPI<void>(endpoints.finalizeCourseMarks(courseId), {
+        method: 'POST',
+        body: JSON.stringify({ reviews }),
+      }, options),
+
+    // Marks
+    createMarks: (marks, options) =>
+      fetchAPI<StudentMarks>(endpoints.createMarks, {
+        method: 'POST',
+        body: JSON.stringify(marks),
+      }, options),
+    updateMarks: (marksId, marks, options) =>
+      fetchAPI<StudentMarks>(endpoints.updateMarks(marksId), {
+        method: 'PUT',
+        body: JSON.stringify(marks),
+      }, options),
+    getMarksByStudent: (studentId, options) =>
+      fetchAPI<StudentMarks>(endpoints.getMarksByStudent(studentId), { method: 'GET' }, options),
+    getMarksByCourse: (courseId, options) =>
+      fetchAPI<StudentMarks[]>(endpoints.getMarksByCourse(courseId), { method: 'GET' }, options),
+    bulkCreateMarks: (bulkMarks, options) =>
+      fetchAPI<StudentMarks[]>(endpoints.bulkCreateMarks, {
+        method: 'POST',
+        body: JSON.stringify(bulkMarks),
+      }, options),
+
+    // Statistics & moderation
+    getCourseStatistics: (courseId, options) =>
+      fetchAPI<ClassStatistics>(endpoints.getCourseStatistics(courseId), { method: 'GET' }, options),
+    recordModeration: (record, options) =>
+      fetchAPI<ModerationRecord>(endpoints.recordModeration, {
+        method: 'POST',
+        body: JSON.stringify(record),
+      }, options),
+    getModerationHistory: (courseId, options) =>
+      fetchAPI<ModerationRecord[]>(endpoints.getModerationHistory(courseId), { method: 'GET' }, options),
+
+    // Validation lookups
+    checkEmailAvailability: (email, options) =>
+      fetchAPI<{ available: boolean }>(endpoints.checkEmailAvailability(email), { method: 'GET' }, options),
+    checkCourseExists: (courseId, options) =>
+      fetchAPI<{ exists: boolean }>(endpoints.checkCourseExists(courseId), { method: 'GET' }, options),
+    checkStudentEnrollment: (courseId, studentId, options) =>
+      fetchAPI<{ enrolled: boolean }>(endpoints.checkStudentEnrollment(courseId, studentId), {
+        method: 'GET',
+      }, options),
+  };
+}
+
+// ============================================
+// DEFAULT CLIENT
+// ============================================
+
+/**
+ * Client used by the exported API functions (and so by the hooks)
+ */
+let defaultClient: ApiClient = createApiClient({ baseUrl: API_BASE_URL });
+
+/**
+ * Get the client used by the exported API functions
+ */
+export function getDefaultApiClient(): ApiClient {
+  return defaultClient;
+}
+
+/**
+ * Replace the client used by the exported API functions
+ * Lets the hooks run against another backend or a fake transport in tests.
+ * 
+ * @param client - New default client
+ * @returns The previous default client (to restore it afterwards)
+ * 
+ * @example
+ * const previous = setDefaultApiClient(createApiClient({ baseUrl: 'http://test', transport: fakeTransport }));
+ * // ... render hooks ...
+ * setDefaultApiClient(previous);
+ */
+export function setDefaultApiClient(client: ApiClient): ApiClient {
+  const previous = defaultClient;
+  defaultClient = client;
+  return previous;
+}
+
+/**
+ * Set authentication token on the default client
+ */
+export function setAuthToken(token: string): void {
+  defaultClient.setAuthToken(token);
+}
+
+/**
+ * Remove authentication token from the default client
+ */
+export function removeAuthToken(): void {
+  defaultClient.removeAuthToken();
 }
 
 // ============================================
@@ -155,61 +684,51 @@ async function fetchAPI<T>(
  * Login lecturer
  * 
  * @param credentials - Email and password
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Login response with token and lecturer data
  */
 export async function loginLecturer(
-  credentials: LoginCredentials
+  credentials: LoginCredentials,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<LoginResponse>> {
-  const response = await fetchAPI<LoginResponse>(ENDPOINTS.login, {
-    method: 'POST',
-    body: JSON.stringify(credentials),
-  });
-
-  // Store token if login successful
-  if (response.success) {
-    setAuthToken(response.data.token);
-  }
-
-  return response;
+  return defaultClient.loginLecturer(credentials, options);
 }
 
 /**
  * Register new lecturer
  * 
  * @param data - Lecturer registration data
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Registered lecturer data
  */
 export async function registerLecturer(
-  data: LecturerRegistrationData
+  data: LecturerRegistrationData,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<Lecturer>> {
-  return fetchAPI<Lecturer>(ENDPOINTS.register, {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+  return defaultClient.registerLecturer(data, options);
 }
 
 /**
  * Logout lecturer
  * Clears authentication token
+ * 
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  */
-export async function logoutLecturer(): Promise<ApiResponse<void>> {
-  const response = await fetchAPI<void>(ENDPOINTS.logout, {
-    method: 'POST',
-  });
-
-  // Clear token regardless of response
-  removeAuthToken();
-
-  return response;
+export async function logoutLecturer(
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<void>> {
+  return defaultClient.logoutLecturer(options);
 }
 
 /**
  * Get current lecturer profile
+ * 
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  */
-export async function getLecturerProfile(): Promise<ApiResponse<Lecturer>> {
-  return fetchAPI<Lecturer>(ENDPOINTS.getLecturerProfile, {
-    method: 'GET',
-  });
+export async function getLecturerProfile(
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<Lecturer>> {
+  return defaultClient.getLecturerProfile(options);
 }
 
 // ============================================
@@ -220,28 +739,60 @@ export async function getLecturerProfile(): Promise<ApiResponse<Lecturer>> {
  * Fetch all students registered for a course
  * 
  * @param courseId - ID of the course
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Array of students
  */
 export async function getStudentsByCourse(
-  courseId: string
+  courseId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<Student[]>> {
-  return fetchAPI<Student[]>(ENDPOINTS.getStudentsByCourse(courseId), {
-    method: 'GET',
-  });
+  return defaultClient.getStudentsByCourse(courseId, options);
 }
 
 /**
  * Fetch single student details
  * 
  * @param studentId - ID of the student
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Student data
  */
 export async function getStudentById(
-  studentId: string
+  studentId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<Student>> {
-  return fetchAPI<Student>(ENDPOINTS.getStudentById(studentId), {
-    method: 'GET',
-  });
+  return defaultClient.getStudentById(studentId, options);
+}
+
+/**
+ * Fetch a student's final results across all their courses
+ * 
+ * @param studentId - ID of the student
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
+ * @returns Course results (with credit units and semester), oldest semester first
+ */
+export async function getStudentResults(
+  studentId: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<CourseResult[]>> {
+  return defaultClient.getStudentResults(studentId, options);
+}
+
+// ============================================
+// COURSE API
+// ============================================
+
+/**
+ * Fetch the assessment scheme configured for a course
+ * 
+ * @param courseId - ID of the course
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
+ * @returns Assessment scheme (components, maxima, ordering)
+ */
+export async function getAssessmentScheme(
+  courseId: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<AssessmentScheme>> {
+  return defaultClient.getAssessmentScheme(courseId, options);
 }
 
 // ============================================
@@ -252,15 +803,14 @@ export async function getStudentById(
  * Create marks for a student
  * 
  * @param marks - Marks data
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Created marks record
  */
 export async function createMarks(
-  marks: MarksInput
+  marks: MarksInput,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<StudentMarks>> {
-  return fetchAPI<StudentMarks>(ENDPOINTS.createMarks, {
-    method: 'POST',
-    body: JSON.stringify(marks),
-  });
+  return defaultClient.createMarks(marks, options);
 }
 
 /**
@@ -268,59 +818,57 @@ export async function createMarks(
  * 
  * @param marksId - ID of the marks record
  * @param marks - Updated marks data
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Updated marks record
  */
 export async function updateMarks(
   marksId: string,
-  marks: Partial<MarksInput>
+  marks: Partial<MarksInput>,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<StudentMarks>> {
-  return fetchAPI<StudentMarks>(ENDPOINTS.updateMarks(marksId), {
-    method: 'PUT',
-    body: JSON.stringify(marks),
-  });
+  return defaultClient.updateMarks(marksId, marks, options);
 }
 
 /**
  * Get marks for a specific student
  * 
  * @param studentId - ID of the student
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Marks record
  */
 export async function getMarksByStudent(
-  studentId: string
+  studentId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<StudentMarks>> {
-  return fetchAPI<StudentMarks>(ENDPOINTS.getMarksByStudent(studentId), {
-    method: 'GET',
-  });
+  return defaultClient.getMarksByStudent(studentId, options);
 }
 
 /**
  * Get all marks for a course
  * 
  * @param courseId - ID of the course
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Array of marks records
  */
 export async function getMarksByCourse(
-  courseId: string
+  courseId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<StudentMarks[]>> {
-  return fetchAPI<StudentMarks[]>(ENDPOINTS.getMarksByCourse(courseId), {
-    method: 'GET',
-  });
+  return defaultClient.getMarksByCourse(courseId, options);
 }
 
 /**
  * Bulk create marks for multiple students
  * 
  * @param bulkMarks - Array of marks for multiple students
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Array of created marks records
  */
 export async function bulkCreateMarks(
-  bulkMarks: BulkMarksInput
+  bulkMarks: BulkMarksInput,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<StudentMarks[]>> {
-  return fetchAPI<StudentMarks[]>(ENDPOINTS.bulkCreateMarks, {
-    method: 'POST',
-    body: JSON.stringify(bulkMarks),
-  });
+  return defaultClient.bulkCreateMarks(bulkMarks, options);
 }
 
 // ============================================
@@ -331,14 +879,115 @@ export async function bulkCreateMarks(
  * Get course statistics
  * 
  * @param courseId - ID of the course
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
  * @returns Class statistics
  */
 export async function getCourseStatistics(
-  courseId: string
+  courseId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ApiResponse<ClassStatistics>> {
-  return fetchAPI<ClassStatistics>(ENDPOINTS.getCourseStatistics(courseId), {
-    method: 'GET',
-  });
+  return defaultClient.getCourseStatistics(courseId, options);
+}
+
+// ============================================
+// MODERATION API
+// ============================================
+
+/**
+ * Record an applied moderation in the audit log
+ * 
+ * @param record - Moderation audit record
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
+ * @returns Saved audit record
+ */
+export async function recordModeration(
+  record: ModerationRecord,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<ModerationRecord>> {
+  return defaultClient.recordModeration(record, options);
+}
+
+/**
+ * Get moderation audit history for a course
+ * 
+ * @param courseId - ID of the course
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
+ * @returns Moderation records (most recent first)
+ */
+export async function getModerationHistory(
+  courseId: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<ModerationRecord[]>> {
+  return defaultClient.getModerationHistory(courseId, options);
+}
+
+// ============================================
+// FINALIZATION API
+// ============================================
+
+/**
+ * Finalize a course's marks
+ * The completed borderline review queue is sent along for the audit trail.
+ * 
+ * @param courseId - ID of the course
+ * @param reviews - Borderline review decisions (none may be pending)
+ * @param options - Signal, timeout and retry settings (see ApiRequestOptions)
+ * @returns Empty response on success
+ */
+export async function finalizeCourseMarks(
+  courseId: string,
+  reviews: BorderlineReviewItem[],
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<void>> {
+  return defaultClient.finalizeCourseMarks(courseId, reviews, options);
+}
+
+// ============================================
+// VALIDATION LOOKUPS
+// ============================================
+
+/**
+ * Check whether an email can still be used to register
+ * 
+ * @param email - Email address
+ * @param options - Signal (aborts the request when the check goes stale), timeout and retry
+ * @returns Whether no account uses the email yet
+ */
+export async function checkEmailAvailability(
+  email: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<{ available: boolean }>> {
+  return defaultClient.checkEmailAvailability(email, options);
+}
+
+/**
+ * Check whether a course exists
+ * 
+ * @param courseId - ID of the course
+ * @param options - Signal (aborts the request when the check goes stale), timeout and retry
+ * @returns Whether the course exists
+ */
+export async function checkCourseExists(
+  courseId: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<{ exists: boolean }>> {
+  return defaultClient.checkCourseExists(courseId, options);
+}
+
+/**
+ * Check whether a student is enrolled in a course
+ * 
+ * @param courseId - ID of the course
+ * @param studentId - ID of the student
+ * @param options - Signal (aborts the request when the check goes stale), timeout and retry
+ * @returns Whether the student is enrolled
+ */
+export async function checkStudentEnrollment(
+  courseId: string,
+  studentId: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiResponse<{ enrolled: boolean }>> {
+  return defaultClient.checkStudentEnrollment(courseId, studentId, options);
 }
 
 // ============================================
@@ -349,7 +998,7 @@ export async function getCourseStatistics(
  * Check if user is authenticated
  */
 export function isAuthenticated(): boolean {
-  return getAuthToken() !== null;
+  return defaultClient.isAuthenticated();
 }
 
 /**
@@ -80,20 +80,150 @@ export interface StudentWithMarks extends Student {
   marks?: StudentMarks;
 }
 
+/**
+ * Part of a registration number (e.g. 'SCT', '211', '0001', '2021')
+ */
+export interface RegistrationNumberSegment {
+  type: 'letters' | 'digits' | 'alphanumeric';
+  length: number;
+  separator?: string;   // Written after the segment in the canonical form (default: none)
+}
+
+/**
+ * Check digit scheme; the check digit is the last character of the number
+ * - luhn: mod 10 (Luhn) over the preceding digits
+ * - mod11: weights 2, 3, 4, ... from the right; a remainder giving 10 is never issued
+ */
+export type CheckDigitAlgorithm = 'luhn' | 'mod11';
+
+/**
+ * Institution's registration number format
+ * Numbers are compared without case, whitespace or separators, so
+ * 'sct 211 0001 2021' normalizes to 'SCT211-0001/2021'.
+ */
+export interface RegistrationNumberFormat {
+  id: string;
+  name: string;
+  example: string;                    // Shown in error messages
+  segments: RegistrationNumberSegment[];
+  checkDigit?: CheckDigitAlgorithm;   // No check digit when omitted
+}
+
 // ============================================
 // MARKS TYPES
 // ============================================
 
 /**
- * Individual assessment components
- * Each field represents the actual score achieved
+ * A single assessment component within a course's scheme
+ * (e.g. an assignment, a lab, a CAT or the final exam)
+ */
+export interface AssessmentComponent {
+  key: string;       // Stable identifier used in marks records (e.g. 'cat1')
+  label: string;     // Display name (e.g. 'CAT 1')
+  maxMarks: number;  // Raw maximum the component is marked out of (e.g. 40)
+  weight: number;    // Contribution toward MAX_TOTAL_MARKS (e.g. 15)
+  order: number;     // Display/export position (ascending)
+}
+
+/**
+ * Course-level assessment scheme
+ * Defines which components are assessed, their raw maxima and weights,
+ * and which grading scale the course is graded under.
+ * Component weights must add up to MAX_TOTAL_MARKS.
+ */
+export interface AssessmentScheme {
+  id: string;
+  name: string;
+  components: AssessmentComponent[];
+  gradingScale?: GradingScaleRef;  // DEFAULT_GRADING_SCALE when omitted
+  rounding?: RoundingPolicy;       // DEFAULT_ROUNDING_POLICY when omitted
+  statusRules?: Partial<Record<MarkStatus, MarkStatusRule>>;  // Overrides MARK_STATUS_RULES
+  resit?: ResitPolicy;             // DEFAULT_RESIT_POLICY when omitted
+}
+
+/**
+ * Individual assessment component scores
+ * Keyed by AssessmentComponent.key, each value is the raw score achieved
+ */
+export type AssessmentMarks = Record<string, number>;
+
+/**
+ * Non-numeric status of a component mark
+ * - 'ABS':     absent
+ * - 'EXM':     exempt
+ * - 'INC':     incomplete
+ * - 'DEF':     deferred
+ * - 'PENDING': not yet marked
+ */
+export type MarkStatus = 'ABS' | 'EXM' | 'INC' | 'DEF' | 'PENDING';
+
+/**
+ * How a component with a status is treated when totalling
+ * - 'zero':     counts as a score of 0
+ * - 'reweight': component is dropped and the other weights are scaled up to MAX_TOTAL_MARKS
+ * - 'withhold': no grade is awarded; the result is reported as resultCode instead
+ */
+export type MarkStatusTreatment = 'zero' | 'reweight' | 'withhold';
+
+/**
+ * Rule for a mark status
+ */
+export interface MarkStatusRule {
+  label: string;
+  treatment: MarkStatusTreatment;
+  resultCode?: string;  // Result shown instead of a grade ('withhold' only, e.g. 'I')
+}
+
+/**
+ * Statuses of individual components, keyed by AssessmentComponent.key
+ * A component with a status has no numeric score.
+ */
+export type ComponentStatuses = Record<string, MarkStatus>;
+
+/**
+ * Which sitting of the resit component a result is based on
+ */
+export type ExamAttempt = 'original' | 'resit';
+
+/**
+ * Supplementary (resit) sitting of the resit component
+ * The original score stays in StudentMarks.scores.
+ */
+export interface ResitAttempt {
+  score: number;     // Raw score (out of the resit component's maxMarks)
+  satOn?: string;    // Date of the supplementary exam
+}
+
+/**
+ * Ceiling on the result of a resit
+ * - 'grade':     result cannot exceed the given grade (total capped at its minimum score)
+ * - 'pass-mark': result cannot exceed the scale's pass mark
+ * - 'none':      resit results are not capped
+ */
+export type ResitCap =
+  | { type: 'grade'; grade: Grade }
+  | { type: 'pass-mark' }
+  | { type: 'none' };
+
+/**
+ * Course policy for supplementary exams
  */
-export interface AssessmentMarks {
-  assignment: number;  // Max: 10
-  quiz: number;        // Max: 15
-  project: number;     // Max: 25
-  midsem: number;      // Max: 20
-  finalExam: number;   // Max: 30
+export interface ResitPolicy {
+  component: string;  // Component the resit replaces (e.g. 'finalExam')
+  cap: ResitCap;
+}
+
+/**
+ * Raw score and weighted contribution for a single component
+ */
+export interface ComponentScore {
+  key: string;
+  label: string;
+  rawScore: number;       // Score as entered (out of maxMarks)
+  maxMarks: number;
+  weight: number;         // Effective weight (after re-weighting exempt components)
+  weightedScore: number;  // Contribution toward the total (out of weight)
+  status?: MarkStatus;    // Set when the component has a non-numeric status
 }
 
 /**
@@ -104,63 +234,64 @@ export interface StudentMarks {
   studentId: string;
   courseId: string;
   lecturerId: string;
-  assignment: number;
-  quiz: number;
-  project: number;
-  midsem: number;
-  finalExam: number;
-  totalScore: number;  // Auto-calculated (sum of all components)
-  grade: Grade;        // Auto-calculated based on total score
+  schemeId: string;    // Assessment scheme the scores were entered against
+  scores: AssessmentMarks;  // Raw scores
+  statuses?: ComponentStatuses;  // Components with a non-numeric status
+  totalScore: number;  // Auto-calculated (sum of weighted contributions; provisional if withheld)
+  grade: Grade;        // Auto-calculated based on total score, or the withheld result code
+  resultStatus?: MarkStatus;     // Set when the result is withheld (e.g. 'INC' -> grade 'I')
+  resit?: ResitAttempt;          // Supplementary sitting, if any
+  attemptUsed?: ExamAttempt;     // Sitting the total and grade are based on
+  uncappedScore?: number;        // Resit total before the cap was applied
+  uncappedGrade?: Grade;         // Grade the uncapped resit total would have earned
+  gradingScaleId?: string;       // Scale the grade was calculated under
+  gradingScaleVersion?: number;
   submittedAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * Calculated part of a marks record (total, grade and how they were reached)
+ */
+export type MarksResult = Pick<
+  StudentMarks,
+  'totalScore' | 'grade' | 'resultStatus' | 'attemptUsed' | 'uncappedScore' | 'uncappedGrade'
+>;
+
 /**
  * Data required to create or update marks
+ * Marks may be entered or imported by registration number instead of student ID;
+ * the number is resolved to studentId against a MarksRoster before sending.
  */
 export interface MarksInput {
   studentId: string;
-  assignment: number;
-  quiz: number;
-  project: number;
-  midsem: number;
-  finalExam: number;
+  registrationNumber?: string;   // Any case/spacing/separators; must belong to a student on the roster
+  scores: AssessmentMarks;
+  statuses?: ComponentStatuses;
+  resit?: ResitAttempt;
 }
 
 /**
- * Bulk marks entry (multiple students at once)
+ * Class list that registration numbers in marks entry are resolved against
  */
-export interface BulkMarksInput {
-  marks: MarksInput[];
+export interface MarksRoster {
+  students: Pick<Student, 'id' | 'registrationNumber'>[];
+  format?: RegistrationNumberFormat;   // default: DEFAULT_REGISTRATION_NUMBER_FORMAT
 }
 
 /**
- * Maximum marks for each assessment component
+ * Bulk marks entry (multiple students at once)
  */
-export interface AssessmentMaxMarks {
-  assignment: 10;
-  quiz: 15;
-  project: 25;
-  midsem: 20;
-  finalExam: 30;
+export interface BulkMarksInput {
+  marks: MarksInput[];
 }
 
 /**
- * Grade scale definition
+ * Grade label
+ * The set of valid grades depends on the grading scale in use
+ * (e.g. 'A-' on the default scale, 'E' on the Kenyan scale, 'Pass' on pass/fail).
  */
-export type Grade = 
-  | 'A'   // 90-100
-  | 'A-'  // 87-89
-  | 'B+'  // 84-86
-  | 'B'   // 80-83
-  | 'B-'  // 77-79
-  | 'C+'  // 74-76
-  | 'C'   // 70-73
-  | 'C-'  // 67-69
-  | 'D+'  // 64-66
-  | 'D'   // 62-63
-  | 'D-'  // 60-61
-  | 'F';  // 0-59
+export type Grade = string;
 
 /**
  * Grade boundary definition
@@ -169,6 +300,48 @@ export interface GradeBoundary {
   grade: Grade;
   minScore: number;
   maxScore: number;
+  gradePoints: number;  // Points used for GPA calculation
+}
+
+/**
+ * Grading scale definition
+ * A scale is identified by id + version; a new version is published whenever
+ * boundaries change so results keep the scale they were graded under.
+ */
+export interface GradingScale {
+  id: string;
+  version: number;
+  name: string;
+  boundaries: GradeBoundary[];  // Sorted from highest to lowest
+  passMark: number;             // Minimum passing total score
+  includeInGpa: boolean;        // False for scales such as pass/fail
+}
+
+/**
+ * How fractional totals are rounded
+ * - 'half-up':    0.5 rounds up (89.5 -> 90)
+ * - 'half-even':  0.5 rounds to the nearest even number (banker's rounding)
+ * - 'truncate':   fractions are dropped (89.9 -> 89)
+ * - 'borderline': fractions are dropped, except scores within
+ *                 borderlineThreshold marks below a grade boundary are raised to it
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'truncate' | 'borderline';
+
+/**
+ * Rounding policy applied to totals and to the score used for grading
+ */
+export interface RoundingPolicy {
+  mode: RoundingMode;
+  decimals: number;              // Decimal places kept on stored/exported totals
+  borderlineThreshold?: number;  // 'borderline' mode only (e.g. 0.5)
+}
+
+/**
+ * Reference to a specific version of a grading scale
+ */
+export interface GradingScaleRef {
+  id: string;
+  version?: number;  // Latest registered version when omitted
 }
 
 // ============================================
@@ -186,26 +359,101 @@ export interface ClassStatistics {
   averageScore: number;
   highestScore: number;
   lowestScore: number;
-  passRate: number; // Percentage of students with grade >= D-
+  passRate: number; // Percentage of students with a passing grade on their scale
   gradeDistribution: GradeDistribution;
+  withheldResults: number; // Records with no grade yet (e.g. incomplete, deferred)
+  resitResults: number;    // Records graded on a supplementary exam
+  summary: DescriptiveStatistics;              // Full summary of total scores
+  componentStatistics: ComponentStatistics[];  // Full summary per component
+}
+
+/**
+ * One bin of a score histogram
+ * Bins cover [min, max); the last bin also includes its max.
+ */
+export interface HistogramBin {
+  min: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Descriptive statistics for a set of scores
+ * Standard deviation and skewness are sample estimates; quartiles are
+ * linearly interpolated.
+ */
+export interface DescriptiveStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  mode: number[];             // Most frequent value(s); empty if no value repeats
+  standardDeviation: number;
+  min: number;
+  max: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  skewness: number;           // 0 = symmetric, > 0 = long tail of high scores
+  histogram: HistogramBin[];
+}
+
+/**
+ * Descriptive statistics for one assessment component
+ * Values are percentages of the component's maxMarks, so components marked out
+ * of different maxima can be compared and share histogram bins.
+ */
+export interface ComponentStatistics extends DescriptiveStatistics {
+  key: string;
+  label: string;
+  maxMarks: number;
 }
 
 /**
  * Distribution of grades in a class
+ * Keyed by grade label, in the order of the grading scale's boundaries
  */
-export interface GradeDistribution {
-  'A': number;
-  'A-': number;
-  'B+': number;
-  'B': number;
-  'B-': number;
-  'C+': number;
-  'C': number;
-  'C-': number;
-  'D+': number;
-  'D': number;
-  'D-': number;
-  'F': number;
+export type GradeDistribution = Record<Grade, number>;
+
+/**
+ * Whether a grade can still be reached in the remaining component
+ * - 'guaranteed':  reached even with a score of 0
+ * - 'achievable':  reached with a score between 0 and the component maximum
+ * - 'unreachable': not reached even with full marks
+ */
+export type RequiredScoreStatus = 'guaranteed' | 'achievable' | 'unreachable';
+
+/**
+ * Minimum score needed in the remaining component for one grade
+ */
+export interface RequiredScore {
+  grade: Grade;
+  requiredRaw: number | null;       // Minimum raw score (out of maxMarks); null if unreachable
+  requiredWeighted: number | null;  // Its contribution toward the total
+  status: RequiredScoreStatus;
+}
+
+/**
+ * What a student needs in the remaining component (e.g. finalExam) for every grade
+ */
+export interface RequiredScoreReport {
+  studentId?: string;
+  componentKey: string;
+  maxMarks: number;            // Raw maximum of the remaining component
+  currentTotal: number;        // Total from the other components
+  maxPossibleTotal: number;    // Total with full marks in the remaining component
+  requirements: RequiredScore[];  // One per grade, highest first
+}
+
+/**
+ * Class-wide outlook on passing before the remaining component is sat
+ */
+export interface ClassPassOutlook {
+  componentKey: string;
+  totalStudents: number;
+  alreadyPassed: number;   // Pass is guaranteed
+  canStillPass: number;    // Pass is achievable
+  cannotPass: number;      // Pass is unreachable
+  reports: RequiredScoreReport[];
 }
 
 /**
@@ -231,24 +479,762 @@ export interface HTMLExportData {
   mimeType: 'text/html';
 }
 
+// ============================================
+// COHORT COMPARISON TYPES
+// ============================================
+
+/**
+ * Significance test used to compare two mark sets
+ * - 'welch-t':        Welch's t-test (difference in means, unequal variances)
+ * - 'mann-whitney-u': Mann-Whitney U test (difference in distributions, no normality assumption)
+ */
+export type SignificanceTestName = 'welch-t' | 'mann-whitney-u';
+
+/**
+ * Result of a two-sided significance test
+ */
+export interface SignificanceTest {
+  test: SignificanceTestName;
+  statistic: number;          // t (Welch) or U (Mann-Whitney)
+  degreesOfFreedom?: number;  // Welch only
+  zScore?: number;            // Mann-Whitney only (normal approximation)
+  pValue: number;
+  significant: boolean;       // pValue below the significance level
+}
+
+/**
+ * A mark set to compare: a section of a unit or an intake in a semester
+ */
+export interface Cohort {
+  id: string;
+  label: string;                // e.g. 'Section A' or 'Jan 2025 intake'
+  marks: StudentMarks[];
+  totalStudents?: number;       // Enrolled students (default: number of marks records)
+  scheme?: AssessmentScheme;    // Scheme the cohort was assessed under
+}
+
+/**
+ * Statistics of one cohort in a comparison
+ */
+export interface CohortSummary {
+  id: string;
+  label: string;
+  statistics: ClassStatistics;
+}
+
+/**
+ * Average percentage of one component in each cohort
+ */
+export interface ComponentComparison {
+  key: string;
+  label: string;
+  means: Record<string, number | null>;  // Keyed by cohort ID; null if the cohort has no such component
+}
+
+/**
+ * Comparison of two cohorts' total scores
+ */
+export interface CohortPairComparison {
+  cohortA: string;
+  cohortB: string;
+  meanDifference: number;       // Mean of A minus mean of B
+  passRateDifference: number;   // Percentage points, A minus B
+  welch: SignificanceTest | null;        // Null when either cohort has too few graded results
+  mannWhitney: SignificanceTest | null;
+}
+
+/**
+ * Side-by-side comparison of two or more cohorts
+ */
+export interface CohortComparison {
+  cohorts: CohortSummary[];
+  components: ComponentComparison[];
+  pairs: CohortPairComparison[];  // Every pair, in cohort order
+  significanceLevel: number;
+}
+
+// ============================================
+// ITEM ANALYSIS TYPES
+// ============================================
+
+/**
+ * Why a component looks miscalibrated
+ * - 'low-variance':    almost every student got the same percentage
+ * - 'ceiling-effect':  most students scored the component maximum
+ * - 'floor-effect':    most students scored 0
+ * - 'low-correlation': the component barely agrees with the rest of the assessment
+ */
+export type ComponentFlag = 'low-variance' | 'ceiling-effect' | 'floor-effect' | 'low-correlation';
+
+/**
+ * Thresholds used to flag components in an item analysis
+ */
+export interface ItemAnalysisThresholds {
+  minStandardDeviation: number;  // Percentage points of the component maximum
+  maxShareAtCeiling: number;     // Share of students (0-1) at maxMarks
+  maxShareAtFloor: number;       // Share of students (0-1) at 0
+  minItemTotalCorrelation: number;
+}
+
+/**
+ * Pearson correlation between two components
+ */
+export interface ComponentCorrelation {
+  componentA: string;
+  componentB: string;
+  correlation: number | null;  // null when either component has no spread
+}
+
+/**
+ * Item analysis of a single component
+ */
+export interface ComponentAnalysis {
+  key: string;
+  label: string;
+  meanPercentage: number;
+  standardDeviation: number;           // Percentage points
+  shareAtCeiling: number;              // Share of students (0-1) at maxMarks
+  shareAtFloor: number;                // Share of students (0-1) at 0
+  itemTotalCorrelation: number | null; // Correlation with the total of the other components
+  alphaIfDeleted: number | null;       // Cronbach's alpha without this component
+  flags: ComponentFlag[];
+}
+
+/**
+ * Item analysis of a course's assessment set
+ */
+export interface ItemAnalysis {
+  studentsAnalysed: number;            // Graded students with a score in every component
+  cronbachAlpha: number | null;        // null with fewer than 2 components or students
+  correlations: ComponentCorrelation[];  // Every pair of components
+  components: ComponentAnalysis[];
+}
+
+// ============================================
+// INTEGRITY CHECK TYPES
+// ============================================
+
+/**
+ * Kind of problem found by the integrity scan
+ * - 'total-mismatch':   stored totalScore differs from the recalculated total
+ * - 'grade-mismatch':   stored grade differs from the recalculated grade
+ * - 'duplicate-scores': identical component scores across many students
+ * - 'score-spike':      very high final exam after a low midsem
+ * - 'all-zero':         every component scored 0
+ * - 'near-boundary':    total within rounding distance of a grade boundary
+ * - 'unknown-grading-scale': record was graded under a scale that is not registered
+ */
+export type IntegrityFindingCode =
+  | 'total-mismatch'
+  | 'grade-mismatch'
+  | 'unknown-grading-scale'
+  | 'duplicate-scores'
+  | 'score-spike'
+  | 'all-zero'
+  | 'near-boundary';
+
+/**
+ * How serious a finding is
+ * - 'error':   the record is wrong and must be fixed before submission
+ * - 'warning': suspicious, should be checked
+ * - 'info':    worth knowing (e.g. rounding decides the grade)
+ */
+export type IntegritySeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One problem found by the integrity scan
+ */
+export interface IntegrityFinding {
+  code: IntegrityFindingCode;
+  severity: IntegritySeverity;
+  studentIds: string[];          // Students involved (several for duplicates)
+  marksIds: string[];
+  message: string;
+  expected?: string | number;    // Mismatches only: recalculated value
+  actual?: string | number;      // Mismatches only: stored value
+}
+
+/**
+ * Thresholds used by the integrity scan
+ */
+export interface IntegrityThresholds {
+  minDuplicateGroup: number;          // Students sharing identical scores before it is flagged
+  spikeMidsemBelowPercentage: number; // Midsem percentage counted as low
+  spikeFinalAbovePercentage: number;  // Final exam percentage counted as suspiciously high after a low midsem
+  boundaryDistance: number;           // Marks from a grade boundary counted as "within rounding distance"
+  midsemComponent: string;
+  finalComponent: string;
+}
+
+/**
+ * Result of an integrity scan over a class
+ */
+export interface IntegrityReport {
+  checkedRecords: number;
+  findings: IntegrityFinding[];            // Errors first, then warnings, then info
+  counts: Record<IntegritySeverity, number>;
+  canSubmit: boolean;                      // True when there are no errors
+}
+
+// ============================================
+// BORDERLINE REVIEW TYPES
+// ============================================
+
+/**
+ * Review decision for a borderline student
+ * - 'pending':   not looked at yet (blocks finalization)
+ * - 'reviewed':  script re-checked, nothing to change
+ * - 'adjusted':  marks were changed after re-marking
+ * - 'confirmed': result confirmed as it stands (e.g. by the moderator)
+ */
+export type BorderlineReviewStatus = 'pending' | 'reviewed' | 'adjusted' | 'confirmed';
+
+/**
+ * Student whose total sits just below the next grade boundary
+ */
+export interface BorderlineCase {
+  studentId: string;
+  marksId: string;
+  totalScore: number;
+  currentGrade: Grade;
+  nextGrade: Grade;
+  nextGradeMinScore: number;
+  gap: number;                        // Marks needed to reach nextGrade
+  belowPassMark: boolean;             // Next grade is the first passing grade (e.g. 58-59)
+  suggestedComponent: string | null;  // Component most likely to be re-marked
+}
+
+/**
+ * Borderline case in the review queue
+ */
+export interface BorderlineReviewItem extends BorderlineCase {
+  status: BorderlineReviewStatus;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+// ============================================
+// AT-RISK TYPES
+// ============================================
+
+/**
+ * Why a student was flagged as at risk
+ * - 'cannot-pass':        full marks in the remaining components still fall short of the pass mark
+ * - 'projected-fail':     the expected total is below the pass mark
+ * - 'low-midsem':         midsem score below the threshold percentage
+ * - 'missing-components': continuous assessment components have no score yet
+ * - 'large-drop':         midsem percentage far below the assignment percentage
+ */
+export type AtRiskReasonCode =
+  | 'cannot-pass'
+  | 'projected-fail'
+  | 'low-midsem'
+  | 'missing-components'
+  | 'large-drop';
+
+/**
+ * Reason a student was flagged, with a message for student advisors
+ */
+export interface AtRiskReason {
+  code: AtRiskReasonCode;
+  message: string;
+}
+
+/**
+ * How urgently a student needs an intervention
+ * - 'high':   cannot pass any more
+ * - 'medium': projected to fail
+ * - 'low':    warning signs only
+ */
+export type AtRiskLevel = 'high' | 'medium' | 'low';
+
+/**
+ * Range of final totals a student can still end up with
+ */
+export interface ProjectedTotal {
+  min: number;       // Remaining components scored 0
+  expected: number;  // Remaining components scored at the student's average so far
+  max: number;       // Remaining components scored full marks
+}
+
+/**
+ * Thresholds and components used by the early-warning check
+ */
+export interface AtRiskThresholds {
+  lowMidsemPercentage: number;        // Midsem percentage below which a student is flagged
+  largeDropPercentagePoints: number;  // Assignment-to-midsem drop (percentage points) that is flagged
+  midsemComponent: string;
+  assignmentComponent: string;
+  finalComponent: string;             // Component still to be sat
+}
+
+/**
+ * Student flagged by the early-warning check
+ */
+export interface AtRiskStudent {
+  studentId: string;
+  level: AtRiskLevel;
+  currentTotal: number;           // Total so far (remaining components count as 0)
+  projected: ProjectedTotal;
+  passMark: number;
+  remainingComponents: string[];  // Components without a score yet (including the final)
+  reasons: AtRiskReason[];        // Most serious first
+}
+
+// ============================================
+// TRANSCRIPT & GPA TYPES
+// ============================================
+
+/**
+ * A student's final result in one course
+ */
+export interface CourseResult {
+  courseId: string;
+  courseCode: string;
+  courseName: string;
+  semester: string;              // e.g. '2025/26 Semester 1'
+  creditUnits: number;
+  grade: Grade;
+  totalScore?: number;
+  gradingScaleId?: string;       // Scale the result was graded under (default: DEFAULT_GRADING_SCALE)
+  gradingScaleVersion?: number;
+  resultStatus?: MarkStatus;     // Withheld results earn no credits and carry no grade points
+}
+
+/**
+ * Academic standing after a semester
+ * - 'good-standing':   cumulative GPA at or above the probation threshold
+ * - 'probation':       cumulative GPA below the probation threshold
+ * - 'discontinuation': cumulative GPA below the discontinuation threshold, or
+ *                      probation for too many consecutive semesters
+ */
+export type AcademicStanding = 'good-standing' | 'probation' | 'discontinuation';
+
+/**
+ * Thresholds used to decide academic standing
+ */
+export interface AcademicStandingThresholds {
+  probationGpa: number;             // Cumulative GPA below this puts a student on probation
+  discontinuationGpa: number;       // Cumulative GPA below this discontinues a student
+  maxConsecutiveProbations: number; // Probation semesters in a row allowed before discontinuation
+}
+
+/**
+ * GPA summary of one semester
+ */
+export interface SemesterSummary {
+  semester: string;
+  results: CourseResult[];
+  creditsAttempted: number;          // Credits counted in the GPA
+  creditsEarned: number;             // Credits of passed courses
+  qualityPoints: number;             // Sum of grade points x credit units
+  gpa: number | null;                // Null when no course counts toward the GPA
+  cumulativeCreditsEarned: number;
+  cumulativeGpa: number | null;
+  standing: AcademicStanding;
+}
+
+/**
+ * Unofficial transcript of a student across courses
+ */
+export interface Transcript {
+  studentId: string;
+  semesters: SemesterSummary[];  // In the order the semesters were given
+  creditsAttempted: number;
+  creditsEarned: number;
+  cumulativeGpa: number | null;
+  standing: AcademicStanding;
+  unknownScaleCourseIds: string[];  // Graded under a scale that is not registered; left out of GPA and credits
+}
+
+// ============================================
+// MODERATION TYPES
+// ============================================
+
+/**
+ * Moderation rule applied to a class
+ * - 'linear-shift':    add (or subtract) a fixed number of marks to every total
+ * - 'scale-to-mean':   scale totals so the class mean becomes targetMean
+ * - 'cap':             cap totals at maxScore
+ * - 'component-bonus': add raw marks to a single component
+ */
+export type ModerationRule =
+  | { type: 'linear-shift'; amount: number }
+  | { type: 'scale-to-mean'; targetMean: number }
+  | { type: 'cap'; maxScore: number }
+  | { type: 'component-bonus'; componentKey: string; amount: number };
+
+/**
+ * Before/after comparison for a single student
+ */
+export interface ModerationChange {
+  studentId: string;
+  before: StudentMarks;
+  after: StudentMarks;
+  scoreChange: number;   // after.totalScore - before.totalScore
+  gradeChanged: boolean;
+}
+
+/**
+ * Result of previewing a moderation rule (nothing is saved)
+ */
+export interface ModerationPreview {
+  rule: ModerationRule;
+  changes: ModerationChange[];
+  statisticsBefore: ClassStatistics;
+  statisticsAfter: ClassStatistics;
+  gradeChangeCount: number;
+}
+
+/**
+ * Moderation form values: the rule and the reason for applying it
+ */
+export interface ModerationFormData {
+  rule: ModerationRule;
+  reason: string;
+}
+
+/**
+ * Audit record of an applied moderation
+ */
+export interface ModerationRecord {
+  id?: string;
+  courseId: string;
+  rule: ModerationRule;
+  reason: string;
+  appliedBy: string;        // Lecturer ID
+  appliedAt: string;        // ISO timestamp
+  studentsAffected: number;
+  averageBefore: number;
+  averageAfter: number;
+}
+
+// ============================================
+// PHONE NUMBER TYPES
+// ============================================
+
+/**
+ * ISO 3166-1 alpha-2 code of a country with a bundled numbering plan
+ */
+export type PhoneCountryCode = 'KE' | 'UG' | 'TZ' | 'RW' | 'BI' | 'ET' | 'ZA' | 'GH' | 'NG' | 'GB' | 'FR' | 'US';
+
+/**
+ * Numbering rules for one country (bundled offline; see PHONE_NUMBERING_PLANS)
+ */
+export interface PhoneNumberingPlan {
+  country: PhoneCountryCode;
+  callingCode: string;          // Without '+' (e.g. '254')
+  trunkPrefix: string;          // Dialled before national numbers at home (e.g. '0'), '' if none
+  nationalNumberLength: number; // Digits after the calling code / trunk prefix
+  pattern: RegExp;              // Valid national numbers (mobile and geographic ranges)
+  groups: number[];             // Digit grouping for display (e.g. [3, 3, 3] -> '712 345 678')
+}
+
+/**
+ * Phone number parsed against a numbering plan
+ */
+export interface ParsedPhoneNumber {
+  country: PhoneCountryCode;
+  callingCode: string;
+  nationalNumber: string;       // Digits only, without trunk prefix
+  e164: string;                 // '+' + calling code + national number (e.g. '+254712345678')
+}
+
+/**
+ * Display format of a phone number
+ * - E164: +254712345678 (storage and API)
+ * - INTERNATIONAL: +254 712 345 678
+ * - NATIONAL: 0712 345 678
+ */
+export type PhoneNumberFormat = 'E164' | 'INTERNATIONAL' | 'NATIONAL';
+
+// ============================================
+// PASSWORD TYPES
+// ============================================
+
+/**
+ * Password rules set by IT policy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;         // Any character that is not a letter or digit
+  rejectCommon: boolean;          // Reject passwords on the bundled common/breached list
+  rejectPersonalInfo: boolean;    // Reject passwords containing the user's name or email
+}
+
+/**
+ * Personal details a password must not contain
+ */
+export interface PasswordContext {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+/**
+ * Password strength band
+ */
+export type PasswordStrengthLevel = 'very-weak' | 'weak' | 'fair' | 'strong' | 'very-strong';
+
+/**
+ * Estimated password strength, for a meter shown while the user types
+ */
+export interface PasswordStrength {
+  score: number;                  // 0 (very weak) to 4 (very strong)
+  level: PasswordStrengthLevel;
+  meetsPolicy: boolean;
+  feedback: ValidationWarning[];  // Policy failures first, then suggestions
+}
+
 // ============================================
 // VALIDATION TYPES
 // ============================================
 
 /**
  * Validation result
+ * Errors block the submission; warnings are legal but unusual inputs the
+ * lecturer should confirm (only reported when there are no errors).
  */
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
+  warnings: ValidationWarning[];
 }
 
+/**
+ * Stable code of a validation error
+ * Codes never change once published; the UI keys translations and styling on them.
+ */
+export type ValidationErrorCode =
+  // Authentication and registration
+  | 'EMAIL_REQUIRED'
+  | 'EMAIL_INVALID'
+  | 'EMAIL_TOO_LONG'
+  | 'EMAIL_ALREADY_REGISTERED'
+  | 'PHONE_REQUIRED'
+  | 'PHONE_TOO_SHORT'
+  | 'PHONE_TOO_LONG'
+  | 'PHONE_INVALID'
+  | 'PHONE_INVALID_CHARACTERS'
+  | 'PHONE_UNKNOWN_COUNTRY_CODE'
+  | 'PASSWORD_REQUIRED'
+  | 'PASSWORD_TOO_SHORT'
+  | 'PASSWORD_MISSING_UPPERCASE'
+  | 'PASSWORD_MISSING_LOWERCASE'
+  | 'PASSWORD_MISSING_NUMBER'
+  | 'PASSWORD_MISSING_SYMBOL'
+  | 'PASSWORD_TOO_COMMON'
+  | 'PASSWORD_CONTAINS_PERSONAL_INFO'
+  | 'NAME_REQUIRED'
+  | 'NAME_TOO_SHORT'
+  | 'NAME_TOO_LONG'
+  | 'NAME_INVALID_CHARACTERS'
+  | 'NAME_INVISIBLE_CHARACTERS'
+  | 'NAME_MISSING_LETTERS'
+  | 'NAME_MIXED_SCRIPTS'
+  | 'COURSE_ID_REQUIRED'
+  | 'COURSE_NOT_FOUND'
+  // Marks entry
+  | 'STUDENT_ID_REQUIRED'
+  | 'STUDENT_NOT_ENROLLED'
+  | 'MARK_NOT_A_NUMBER'
+  | 'MARK_NEGATIVE'
+  | 'MARK_OUT_OF_RANGE'
+  | 'MARK_TOO_MANY_DECIMALS'
+  | 'STATUS_INVALID'
+  | 'COMPONENT_UNKNOWN'
+  | 'ALL_COMPONENTS_EXEMPT'
+  | 'TOTAL_OUT_OF_RANGE'
+  | 'RESIT_NOT_ALLOWED'
+  | 'MARKS_REQUIRED'
+  | 'DUPLICATE_STUDENT_IDS'
+  // Student imports
+  | 'STUDENTS_REQUIRED'
+  | 'REGISTRATION_NUMBER_REQUIRED'
+  | 'REGISTRATION_NUMBER_INVALID'
+  | 'REGISTRATION_NUMBER_CHECK_DIGIT'
+  | 'DUPLICATE_REGISTRATION_NUMBERS'
+  // Assessment schemes
+  | 'SCHEME_ID_REQUIRED'
+  | 'SCHEME_COMPONENTS_REQUIRED'
+  | 'COMPONENT_KEY_REQUIRED'
+  | 'COMPONENT_KEY_DUPLICATE'
+  | 'COMPONENT_LABEL_REQUIRED'
+  | 'COMPONENT_MAX_INVALID'
+  | 'COMPONENT_WEIGHT_INVALID'
+  | 'SCHEME_WEIGHTS_TOTAL'
+  | 'ROUNDING_DECIMALS_INVALID'
+  | 'ROUNDING_THRESHOLD_INVALID'
+  | 'RESIT_COMPONENT_UNKNOWN'
+  | 'RESIT_CAP_INVALID'
+  | 'STATUS_RULE_INVALID'
+  // Grading scales
+  | 'SCALE_ID_REQUIRED'
+  | 'SCALE_VERSION_INVALID'
+  | 'SCALE_VERSION_EXISTS'
+  | 'GRADING_SCALE_NOT_FOUND'
+  | 'SCALE_BOUNDARIES_REQUIRED'
+  | 'GRADE_REQUIRED'
+  | 'GRADE_DUPLICATE'
+  | 'BOUNDARY_NOT_WHOLE'
+  | 'BOUNDARY_MIN_EXCEEDS_MAX'
+  | 'BOUNDARIES_UNSORTED'
+  | 'BOUNDARY_GAP'
+  | 'BOUNDARY_OVERLAP'
+  | 'BOUNDARY_TOP_INVALID'
+  | 'BOUNDARY_BOTTOM_INVALID'
+  | 'PASS_MARK_INVALID'
+  // Moderation
+  | 'REASON_REQUIRED'
+  | 'SHIFT_AMOUNT_INVALID'
+  | 'BONUS_AMOUNT_INVALID'
+  | 'TARGET_MEAN_OUT_OF_RANGE'
+  | 'CAP_OUT_OF_RANGE'
+  | 'MODERATION_RULE_UNKNOWN'
+  // Warnings (non-blocking)
+  | 'FINAL_EXAM_ZERO'
+  | 'PERFECT_SCORE'
+  | 'LARGE_MARK_CHANGE'
+  // Password strength suggestions (non-blocking)
+  | 'PASSWORD_SUGGEST_LONGER'
+  | 'PASSWORD_SUGGEST_MIX'
+  | 'PASSWORD_SUGGEST_NO_REPEATS'
+  | 'PASSWORD_SUGGEST_NO_SEQUENCES';
+
+/**
+ * Values filled into an error message (e.g. { field: 'quiz', max: 15 })
+ */
+export type ValidationErrorParams = Record<string, string | number>;
+
 /**
  * Individual validation error
  */
 export interface ValidationError {
   field: string;
-  message: string;
+  code: ValidationErrorCode;
+  params?: ValidationErrorParams;
+  message: string;              // Rendered in DEFAULT_LOCALE (see localizeValidationErrors for others)
+}
+
+/**
+ * Non-blocking validation warning (same shape as an error)
+ */
+export type ValidationWarning = ValidationError;
+
+/**
+ * Length limits for person names, in characters (Unicode code points after NFC)
+ */
+export interface NameLengthLimits {
+  minLength: number;
+  maxLength: number;
+}
+
+/**
+ * Student row from a class list import
+ */
+export type StudentImportRow = Pick<Student, 'firstName' | 'lastName' | 'email' | 'registrationNumber'>;
+
+/**
+ * Thresholds for marks entry warnings
+ */
+export interface MarksWarningThresholds {
+  finalComponent: string;       // Component whose 0 is questioned (default: 'finalExam')
+  highOtherPercentage: number;  // Average % on the other components that makes a 0 final suspicious
+  maxScoreChange: number;       // Raw points a component may change by on update without a warning
+}
+
+/**
+ * Failure reported by a validation rule; the engine adds the field and message
+ */
+export interface ValidationIssue {
+  code: ValidationErrorCode;
+  params?: ValidationErrorParams;
+}
+
+/**
+ * Language of rendered validation messages
+ */
+export type Locale = 'en' | 'sw' | 'fr';
+
+/**
+ * Message templates by error code; {name} is replaced by params.name
+ */
+export type MessageCatalog = Record<ValidationErrorCode, string>;
+
+/**
+ * One declarative validation rule
+ * Returns the failure, or null when the value passes.
+ */
+export interface ValidationRule<TData = unknown> {
+  name: string;                 // Rule name (e.g. 'required', 'max')
+  validate: (value: unknown, data: TData) => ValidationIssue | null;
+  stopOnError?: boolean;        // Skip the field's remaining rules when this one fails
+}
+
+/**
+ * Rules for one field of a validation schema
+ */
+export interface FieldSchema<TData = unknown> {
+  rules: ValidationRule<TData>[];
+  errorField?: string;                // Field reported in ValidationError (default: the schema path)
+  when?: (data: TData) => boolean;    // Only validate the field when this returns true
+  normalize?: (value: unknown) => unknown;  // Applied to the value before the rules run (e.g. NFC)
+}
+
+/**
+ * Object-level rule that checks several fields together
+ * Receives the errors found so far (e.g. to skip a total check while scores are invalid).
+ */
+export type SchemaRefinement<TData = unknown> = (
+  data: TData,
+  errors: ValidationError[]
+) => ValidationError[];
+
+/**
+ * Server-side check of one field (e.g. email not yet registered)
+ * Resolves to the failure, or null when the value passes or the server gave no
+ * answer (the backend checks again on save). The signal is aborted when the
+ * check goes stale.
+ */
+export type AsyncValidationCheck<TData = unknown> = (
+  value: unknown,
+  data: TData,
+  signal: AbortSignal
+) => Promise<ValidationIssue | null>;
+
+/**
+ * Server-side check for one field of a validation schema
+ */
+export interface AsyncFieldSchema<TData = unknown> {
+  check: AsyncValidationCheck<TData>;
+  errorField?: string;                // Field reported in ValidationError (default: the schema path)
+  when?: (data: TData) => boolean;    // Only check the field when this returns true
+}
+
+/**
+ * Declarative validation schema
+ * Fields are keyed by their dot path in the data (e.g. 'scores.quiz'), which is
+ * also the field name used by react-hook-form.
+ */
+export interface ValidationSchema<TData = unknown> {
+  fields: Record<string, FieldSchema<TData>>;
+  refinements?: SchemaRefinement<TData>[];  // Run after the field rules, in order
+  warnings?: SchemaRefinement<TData>[];     // Non-blocking checks, run only when there are no errors
+  asyncFields?: Record<string, AsyncFieldSchema<TData>>;  // Run by validateSchemaAsync for fields without errors
+}
+
+/**
+ * Debounced server-side validation (see createAsyncValidator)
+ */
+export interface AsyncValidator<TData = unknown> {
+  // Resolves with the full result, or null when a newer call or cancel() made it stale
+  validate: (data: TData) => Promise<ValidationResult | null>;
+  // Drop the pending check and abort its requests
+  cancel: () => void;
 }
 
 // ============================================
@@ -264,12 +1250,27 @@ export interface ApiSuccessResponse<T> {
   message?: string;
 }
 
+/**
+ * Errors raised by the API client itself, without a reply from the backend
+ * - NETWORK_ERROR: the request could not be sent or the reply could not be read
+ * - TIMEOUT: no complete reply within the request's timeout
+ * - ABORTED: the caller's AbortSignal cancelled the request
+ * - REQUEST_INTERCEPTOR_ERROR: a request interceptor threw; nothing was sent
+ * - RESPONSE_INTERCEPTOR_ERROR: a response interceptor threw; the request may have been sent
+ */
+export type ApiClientErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'REQUEST_INTERCEPTOR_ERROR'
+  | 'RESPONSE_INTERCEPTOR_ERROR';
+
 /**
  * Standard API error response
  */
 export interface ApiErrorResponse {
   success: false;
-  error: string;
+  error: ApiClientErrorCode | string;  // Backend error code, or ApiClientErrorCode when no reply was used
   message: string;
   statusCode?: number;
 }
@@ -279,45 +1280,435 @@ export interface ApiErrorResponse {
  */
 export type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+// ============================================
+// API CLIENT TYPES
+// ============================================
+
+/**
+ * Backend routes used by the API client (see DEFAULT_ENDPOINTS in services/api.ts)
+ * Paths are relative to the client's base URL.
+ */
+export interface ApiEndpoints {
+  // Authentication
+  login: string;
+  register: string;
+  logout: string;
+  checkEmailAvailability: (email: string) => string;
+
+  // Lecturer
+  getLecturerProfile: string;
+
+  // Students
+  getStudentsByCourse: (courseId: string) => string;
+  getStudentById: (studentId: string) => string;
+  getStudentResults: (studentId: string) => string;
+
+  // Courses
+  checkCourseExists: (courseId: string) => string;
+  checkStudentEnrollment: (courseId: string, studentId: string) => string;
+  getAssessmentScheme: (courseId: string) => string;
+  finalizeCourseMarks: (courseId: string) => string;
+
+  // Marks
+  createMarks: string;
+  updateMarks: (marksId: string) => string;
+  getMarksByStudent: (studentId: string) => string;
+  getMarksByCourse: (courseId: string) => string;
+  bulkCreateMarks: string;
+
+  // Statistics
+  getCourseStatistics: (courseId: string) => string;
+
+  // Moderation
+  recordModeration: string;
+  getModerationHistory: (courseId: string) => string;
+}
+
+/**
+ * Where the API client keeps the lecturer's authentication token
+ */
+export interface TokenProvider {
+  getToken: () => string | null;
+  setToken: (token: string) => void;
+  removeToken: () => void;
+}
+
+/**
+ * Outgoing request, as seen by request interceptors
+ */
+export interface ApiRequest {
+  endpoint: string;                 // Path passed to the client (e.g. '/marks')
+  url: string;                      // Base URL + endpoint
+  method: string;
+  headers: Record<string, string>;  // Includes Content-Type and Authorization
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs before a request is sent; returns the request to send (e.g. with extra headers)
+ */
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+
+/**
+ * Runs on every result, including network errors; returns the result to hand back
+ */
+export type ResponseInterceptor = (
+  response: ApiResponse<unknown>,
+  request: ApiRequest
+) => ApiResponse<unknown> | Promise<ApiResponse<unknown>>;
+
+/**
+ * When and how often failed requests are sent again
+ * Waits baseDelayMs before the first retry and doubles it each time (up to maxDelayMs, with jitter).
+ */
+export interface RetryPolicy {
+  retries: number;          // Attempts after the first one (0 = never retry)
+  baseDelayMs: number;
+  maxDelayMs: number;
+  methods: string[];        // Only requests that are safe to repeat (default: GET, HEAD)
+  statusCodes: number[];    // Replies worth retrying; network errors and timeouts always are
+}
+
+/**
+ * Per-call options accepted by every API function
+ */
+export interface ApiRequestOptions {
+  signal?: AbortSignal;                 // Cancels the request (and pending retries) with ABORTED
+  timeoutMs?: number;                   // Per attempt; 0 = no timeout (default: client's timeoutMs)
+  retry?: Partial<RetryPolicy> | false; // Merged over the client's policy; false = single attempt
+}
+
+/**
+ * Sends a request; `fetch` by default, a fake in tests
+ */
+export type ApiTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * API client configuration (see createApiClient)
+ */
+export interface ApiClientConfig {
+  baseUrl: string;
+  endpoints?: Partial<ApiEndpoints>;          // Overrides merged over DEFAULT_ENDPOINTS
+  tokenProvider?: TokenProvider;              // Default: localStorage under AUTH_TOKEN_KEY
+  transport?: ApiTransport;                   // Default: fetch
+  requestInterceptors?: RequestInterceptor[]; // Run in order
+  responseInterceptors?: ResponseInterceptor[]; // Run in order
+  timeoutMs?: number;                         // Default: DEFAULT_API_TIMEOUT_MS
+  retry?: Partial<RetryPolicy> | false;       // Merged over DEFAULT_RETRY_POLICY; false = never retry
+}
+
 // ============================================
 // CONSTANTS
 // ============================================
 
 /**
- * Maximum marks for each assessment component
+ * Default assessment scheme
+ * Used for courses that do not define their own scheme
  */
-export const MAX_MARKS: Readonly<AssessmentMaxMarks> = {
-  assignment: 10,
-  quiz: 15,
-  project: 25,
-  midsem: 20,
-  finalExam: 30,
-} as const;
+export const DEFAULT_ASSESSMENT_SCHEME: Readonly<AssessmentScheme> = {
+  id: 'default',
+  name: 'Standard Assessment',
+  components: [
+    { key: 'assignment', label: 'Assignment', maxMarks: 10, weight: 10, order: 1 },
+    { key: 'quiz',       label: 'Quiz',       maxMarks: 15, weight: 15, order: 2 },
+    { key: 'project',    label: 'Project',    maxMarks: 25, weight: 25, order: 3 },
+    { key: 'midsem',     label: 'Midsem',     maxMarks: 20, weight: 20, order: 4 },
+    { key: 'finalExam',  label: 'Final Exam', maxMarks: 30, weight: 30, order: 5 },
+  ],
+};
 
 /**
- * Total maximum marks (sum of all components)
+ * Total maximum marks (sum of all component weights)
  */
 export const MAX_TOTAL_MARKS = 100;
 
+/**
+ * Default rules for non-numeric mark statuses
+ * Courses can override individual rules via AssessmentScheme.statusRules.
+ */
+export const MARK_STATUS_RULES: Readonly<Record<MarkStatus, MarkStatusRule>> = {
+  ABS:     { label: 'Absent',     treatment: 'withhold', resultCode: 'ABS' },
+  EXM:     { label: 'Exempt',     treatment: 'reweight' },
+  INC:     { label: 'Incomplete', treatment: 'withhold', resultCode: 'I' },
+  DEF:     { label: 'Deferred',   treatment: 'withhold', resultCode: 'DEF' },
+  PENDING: { label: 'Pending',    treatment: 'withhold', resultCode: 'PENDING' },
+};
+
+/**
+ * Order in which statuses decide a withheld result
+ * (an incomplete component outranks a deferred one, and so on)
+ */
+export const MARK_STATUS_PRIORITY: readonly MarkStatus[] = ['INC', 'DEF', 'ABS', 'PENDING', 'EXM'];
+
+/**
+ * Default supplementary exam policy
+ * The resit replaces the final exam and the result is capped at the pass mark.
+ */
+export const DEFAULT_RESIT_POLICY: Readonly<ResitPolicy> = {
+  component: 'finalExam',
+  cap: { type: 'pass-mark' },
+};
+
+/**
+ * Default histogram bin width (in marks out of MAX_TOTAL_MARKS)
+ */
+export const DEFAULT_HISTOGRAM_BIN_WIDTH = 10;
+
+/**
+ * Default significance level for cohort comparisons
+ */
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Default thresholds for flagging components in an item analysis
+ */
+export const DEFAULT_ITEM_ANALYSIS_THRESHOLDS: Readonly<ItemAnalysisThresholds> = {
+  minStandardDeviation: 5,
+  maxShareAtCeiling: 0.5,
+  maxShareAtFloor: 0.5,
+  minItemTotalCorrelation: 0.2,
+};
+
+/**
+ * Default integrity scan thresholds
+ */
+export const DEFAULT_INTEGRITY_THRESHOLDS: Readonly<IntegrityThresholds> = {
+  minDuplicateGroup: 3,
+  spikeMidsemBelowPercentage: 40,
+  spikeFinalAbovePercentage: 90,
+  boundaryDistance: 0.5,
+  midsemComponent: 'midsem',
+  finalComponent: 'finalExam',
+};
+
+/**
+ * Default borderline margin (marks below a grade boundary that trigger a review)
+ */
+export const DEFAULT_BORDERLINE_MARGIN = 2;
+
+/**
+ * Default early-warning thresholds
+ */
+export const DEFAULT_AT_RISK_THRESHOLDS: Readonly<AtRiskThresholds> = {
+  lowMidsemPercentage: 50,
+  largeDropPercentagePoints: 20,
+  midsemComponent: 'midsem',
+  assignmentComponent: 'assignment',
+  finalComponent: 'finalExam',
+};
+
+/**
+ * Default academic standing thresholds (4.0 scale)
+ */
+export const DEFAULT_ACADEMIC_STANDING_THRESHOLDS: Readonly<AcademicStandingThresholds> = {
+  probationGpa: 2.0,
+  discontinuationGpa: 1.0,
+  maxConsecutiveProbations: 2,
+};
+
+/**
+ * Default length limits for person names
+ */
+export const DEFAULT_NAME_LENGTH_LIMITS: Readonly<NameLengthLimits> = {
+  minLength: 2,
+  maxLength: 50,
+};
+
+/**
+ * Bundled phone numbering plans (simplified to number length and leading digits)
+ * National significant numbers only; trunk prefixes are stripped before matching.
+ */
+export const PHONE_NUMBERING_PLANS: Readonly<Record<PhoneCountryCode, PhoneNumberingPlan>> = {
+  KE: { country: 'KE', callingCode: '254', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[1-7]\d{8}$/,      groups: [3, 3, 3] },
+  UG: { country: 'UG', callingCode: '256', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[2-47]\d{8}$/,     groups: [3, 6] },
+  TZ: { country: 'TZ', callingCode: '255', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[2-7]\d{8}$/,      groups: [3, 3, 3] },
+  RW: { country: 'RW', callingCode: '250', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[27]\d{8}$/,       groups: [3, 3, 3] },
+  BI: { country: 'BI', callingCode: '257', trunkPrefix: '',  nationalNumberLength: 8, pattern: /^[267]\d{7}$/,      groups: [2, 2, 2, 2] },
+  ET: { country: 'ET', callingCode: '251', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[1-79]\d{8}$/,     groups: [2, 3, 4] },
+  ZA: { country: 'ZA', callingCode: '27',  trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[1-8]\d{8}$/,      groups: [2, 3, 4] },
+  GH: { country: 'GH', callingCode: '233', trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[235]\d{8}$/,      groups: [2, 3, 4] },
+  NG: { country: 'NG', callingCode: '234', trunkPrefix: '0', nationalNumberLength: 10, pattern: /^[789][01]\d{8}$/, groups: [3, 3, 4] },
+  GB: { country: 'GB', callingCode: '44',  trunkPrefix: '0', nationalNumberLength: 10, pattern: /^[1-37]\d{9}$/,    groups: [4, 6] },
+  FR: { country: 'FR', callingCode: '33',  trunkPrefix: '0', nationalNumberLength: 9, pattern: /^[1-9]\d{8}$/,      groups: [1, 2, 2, 2, 2] },
+  US: { country: 'US', callingCode: '1',   trunkPrefix: '',  nationalNumberLength: 10, pattern: /^[2-9]\d{2}[2-9]\d{6}$/, groups: [3, 3, 4] },
+};
+
+/**
+ * Country assumed for phone numbers entered without a '+' calling code
+ */
+export const DEFAULT_PHONE_COUNTRY: PhoneCountryCode = 'KE';
+
+/**
+ * Default registration number format (e.g. SCT211-0001/2021:
+ * school, programme, serial number, year of admission)
+ */
+export const DEFAULT_REGISTRATION_NUMBER_FORMAT: Readonly<RegistrationNumberFormat> = {
+  id: 'school-programme-serial-year',
+  name: 'School/programme/serial/year',
+  example: 'SCT211-0001/2021',
+  segments: [
+    { type: 'letters', length: 3 },
+    { type: 'digits', length: 3, separator: '-' },
+    { type: 'digits', length: 4, separator: '/' },
+    { type: 'digits', length: 4 },
+  ],
+};
+
+/**
+ * Default password policy
+ */
+export const DEFAULT_PASSWORD_POLICY: Readonly<PasswordPolicy> = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  rejectCommon: true,
+  rejectPersonalInfo: true,
+};
+
+/**
+ * Default marks entry warning thresholds
+ */
+export const DEFAULT_MARKS_WARNING_THRESHOLDS: Readonly<MarksWarningThresholds> = {
+  finalComponent: 'finalExam',
+  highOtherPercentage: 70,
+  maxScoreChange: 10,
+};
+
+/**
+ * Wait after the last change before running server-side checks (ms)
+ */
+export const DEFAULT_ASYNC_VALIDATION_DEBOUNCE_MS = 400;
+
+/**
+ * Time allowed for each API request attempt before it fails with TIMEOUT (ms)
+ */
+export const DEFAULT_API_TIMEOUT_MS = 20000;
+
+/**
+ * Default retry policy: idempotent reads only, on network errors, timeouts and
+ * temporary server errors
+ */
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  methods: ['GET', 'HEAD'],
+  statusCodes: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Languages validation messages can be rendered in
+ */
+export const SUPPORTED_LOCALES: readonly Locale[] = ['en', 'sw', 'fr'];
+
+/**
+ * Language of ValidationError.message
+ */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Default rounding policy
+ * Totals keep 2 decimal places; grading rounds half up to a whole score
+ */
+export const DEFAULT_ROUNDING_POLICY: Readonly<RoundingPolicy> = {
+  mode: 'half-up',
+  decimals: 2,
+};
+
 /**
  * Minimum passing score (D- grade = 60)
  */
 export const MIN_PASSING_SCORE = 60;
 
 /**
- * Grade boundaries (sorted from highest to lowest)
+ * Grade boundaries of the default scale (sorted from highest to lowest)
  */
 export const GRADE_BOUNDARIES: readonly GradeBoundary[] = [
-  { grade: 'A',   minScore: 90, maxScore: 100 },
-  { grade: 'A-',  minScore: 87, maxScore: 89 },
-  { grade: 'B+',  minScore: 84, maxScore: 86 },
-  { grade: 'B',   minScore: 80, maxScore: 83 },
-  { grade: 'B-',  minScore: 77, maxScore: 79 },
-  { grade: 'C+',  minScore: 74, maxScore: 76 },
-  { grade: 'C',   minScore: 70, maxScore: 73 },
-  { grade: 'C-',  minScore: 67, maxScore: 69 },
-  { grade: 'D+',  minScore: 64, maxScore: 66 },
-  { grade: 'D',   minScore: 62, maxScore: 63 },
-  { grade: 'D-',  minScore: 60, maxScore: 61 },
-  { grade: 'F',   minScore: 0,  maxScore: 59 },
-] as const;
+  { grade: 'A',   minScore: 90, maxScore: 100, gradePoints: 4.0 },
+  { grade: 'A-',  minScore: 87, maxScore: 89,  gradePoints: 3.7 },
+  { grade: 'B+',  minScore: 84, maxScore: 86,  gradePoints: 3.3 },
+  { grade: 'B',   minScore: 80, maxScore: 83,  gradePoints: 3.0 },
+  { grade: 'B-',  minScore: 77, maxScore: 79,  gradePoints: 2.7 },
+  { grade: 'C+',  minScore: 74, maxScore: 76,  gradePoints: 2.3 },
+  { grade: 'C',   minScore: 70, maxScore: 73,  gradePoints: 2.0 },
+  { grade: 'C-',  minScore: 67, maxScore: 69,  gradePoints: 1.7 },
+  { grade: 'D+',  minScore: 64, maxScore: 66,  gradePoints: 1.3 },
+  { grade: 'D',   minScore: 62, maxScore: 63,  gradePoints: 1.0 },
+  { grade: 'D-',  minScore: 60, maxScore: 61,  gradePoints: 0.7 },
+  { grade: 'F',   minScore: 0,  maxScore: 59,  gradePoints: 0.0 },
+];
+
+/**
+ * Default grading scale (A–F with plus/minus, 4.0 grade points)
+ */
+export const DEFAULT_GRADING_SCALE: Readonly<GradingScale> = {
+  id: 'plus-minus',
+  version: 1,
+  name: 'A–F with plus/minus',
+  boundaries: [...GRADE_BOUNDARIES],
+  passMark: MIN_PASSING_SCORE,
+  includeInGpa: true,
+};
+
+/**
+ * Kenyan A–E grading scale
+ */
+export const KENYAN_GRADING_SCALE: Readonly<GradingScale> = {
+  id: 'kenyan-a-e',
+  version: 1,
+  name: 'Kenyan A–E',
+  boundaries: [
+    { grade: 'A', minScore: 70, maxScore: 100, gradePoints: 4.0 },
+    { grade: 'B', minScore: 60, maxScore: 69,  gradePoints: 3.0 },
+    { grade: 'C', minScore: 50, maxScore: 59,  gradePoints: 2.0 },
+    { grade: 'D', minScore: 40, maxScore: 49,  gradePoints: 1.0 },
+    { grade: 'E', minScore: 0,  maxScore: 39,  gradePoints: 0.0 },
+  ],
+  passMark: 40,
+  includeInGpa: true,
+};
+
+/**
+ * Pass/fail scale (e.g. project units)
+ */
+export const PASS_FAIL_GRADING_SCALE: Readonly<GradingScale> = {
+  id: 'pass-fail',
+  version: 1,
+  name: 'Pass/Fail',
+  boundaries: [
+    { grade: 'Pass', minScore: 50, maxScore: 100, gradePoints: 0 },
+    { grade: 'Fail', minScore: 0,  maxScore: 49,  gradePoints: 0 },
+  ],
+  passMark: 50,
+  includeInGpa: false,
+};
+
+/**
+ * Distinction/merit/pass scale
+ */
+export const DISTINCTION_MERIT_GRADING_SCALE: Readonly<GradingScale> = {
+  id: 'distinction-merit-pass',
+  version: 1,
+  name: 'Distinction/Merit/Pass',
+  boundaries: [
+    { grade: 'Distinction', minScore: 70, maxScore: 100, gradePoints: 0 },
+    { grade: 'Merit',       minScore: 60, maxScore: 69,  gradePoints: 0 },
+    { grade: 'Pass',        minScore: 50, maxScore: 59,  gradePoints: 0 },
+    { grade: 'Fail',        minScore: 0,  maxScore: 49,  gradePoints: 0 },
+  ],
+  passMark: 50,
+  includeInGpa: false,
+};
+
+/**
+ * Grading scales available out of the box
+ */
+export const BUILT_IN_GRADING_SCALES: readonly GradingScale[] = [
+  DEFAULT_GRADING_SCALE,
+  KENYAN_GRADING_SCALE,
+  PASS_FAIL_GRADING_SCALE,
+  DISTINCTION_MERIT_GRADING_SCALE,
+];
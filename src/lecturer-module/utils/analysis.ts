@@ -0,0 +1,213 @@
+/**
+ * Lecturer Module - Item Analysis Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file checks whether a course's assessment components behave well together:
+ * pairwise correlations (does the midsem predict the final exam?), each
+ * component's correlation with the rest of the assessment, Cronbach's alpha for
+ * the whole set, and flags for components that look miscalibrated.
+ */
+
+import type {
+  AssessmentComponent,
+  AssessmentScheme,
+  ComponentAnalysis,
+  ComponentCorrelation,
+  ComponentFlag,
+  ItemAnalysis,
+  ItemAnalysisThresholds,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_ITEM_ANALYSIS_THRESHOLDS } from '../types';
+import { getOrderedComponents } from './assessment';
+import { calculateWeightedScore } from './marks';
+import { roundValue } from './rounding';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Sample variance (n - 1 denominator)
+ */
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1);
+}
+
+/**
+ * Cronbach's alpha for a set of items (one array of scores per item)
+ */
+function cronbachAlpha(items: number[][]): number | null {
+  const k = items.length;
+  const n = items[0]?.length ?? 0;
+  if (k < 2 || n < 2) return null;
+
+  const totals = items[0].map((_, student) => items.reduce((sum, item) => sum + item[student], 0));
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return null;
+
+  const itemVariance = items.reduce((sum, item) => sum + variance(item), 0);
+
+  return roundValue((k / (k - 1)) * (1 - itemVariance / totalVariance), 'half-up', 3);
+}
+
+// ============================================
+// CORRELATION
+// ============================================
+
+/**
+ * Calculate the Pearson correlation between two sets of scores
+ *
+ * @param xs - First set of scores
+ * @param ys - Second set of scores (same students, same order)
+ * @returns Correlation between -1 and 1 (3 decimal places), or null if either
+ *          set has no spread or there are fewer than 2 pairs
+ *
+ * @example
+ * calculateCorrelation([10, 12, 18], [20, 25, 28]) // Returns 0.911
+ */
+export function calculateCorrelation(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let sumSquaresX = 0;
+  let sumSquaresY = 0;
+
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    sumSquaresX += Math.pow(xs[i] - meanX, 2);
+    sumSquaresY += Math.pow(ys[i] - meanY, 2);
+  }
+
+  if (sumSquaresX === 0 || sumSquaresY === 0) return null;
+
+  return roundValue(covariance / Math.sqrt(sumSquaresX * sumSquaresY), 'half-up', 3);
+}
+
+// ============================================
+// ITEM ANALYSIS
+// ============================================
+
+/**
+ * Flag a component that looks miscalibrated
+ */
+function flagComponent(
+  analysis: Omit<ComponentAnalysis, 'flags'>,
+  thresholds: ItemAnalysisThresholds
+): ComponentFlag[] {
+  const flags: ComponentFlag[] = [];
+
+  if (analysis.standardDeviation < thresholds.minStandardDeviation) {
+    flags.push('low-variance');
+  }
+
+  if (analysis.shareAtCeiling > thresholds.maxShareAtCeiling) {
+    flags.push('ceiling-effect');
+  }
+
+  if (analysis.shareAtFloor > thresholds.maxShareAtFloor) {
+    flags.push('floor-effect');
+  }
+
+  if (analysis.itemTotalCorrelation !== null &&
+      analysis.itemTotalCorrelation < thresholds.minItemTotalCorrelation) {
+    flags.push('low-correlation');
+  }
+
+  return flags;
+}
+
+/**
+ * Run an item analysis over a course's marks
+ * Only graded students with a numeric score in every component are analysed
+ * (withheld results, resits and components with a status are left out), so
+ * every statistic is based on the same students.
+ *
+ * Components are compared on their weighted contributions, which add up to the
+ * total. Each component's item-total correlation is taken against the total of
+ * the *other* components, so a component does not correlate with itself.
+ *
+ * @param marksArray - Marks for the course
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param thresholds - Flagging thresholds (default: DEFAULT_ITEM_ANALYSIS_THRESHOLDS)
+ * @returns Correlations, Cronbach's alpha and per-component analysis
+ *
+ * @example
+ * const analysis = calculateItemAnalysis(courseMarks, scheme);
+ * const midsemVsFinal = analysis.correlations.find(
+ *   c => c.componentA === 'midsem' && c.componentB === 'finalExam'
+ * );
+ * console.log(analysis.cronbachAlpha, midsemVsFinal?.correlation);
+ * analysis.components.filter(c => c.flags.length > 0); // Components to review
+ */
+export function calculateItemAnalysis(
+  marksArray: StudentMarks[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  thresholds: ItemAnalysisThresholds = DEFAULT_ITEM_ANALYSIS_THRESHOLDS
+): ItemAnalysis {
+  const components = getOrderedComponents(scheme);
+
+  const complete = marksArray.filter(marks =>
+    !marks.resultStatus &&
+    marks.attemptUsed !== 'resit' &&
+    components.every(component =>
+      !marks.statuses?.[component.key] && typeof marks.scores[component.key] === 'number'
+    )
+  );
+
+  const raw = (component: AssessmentComponent) =>
+    complete.map(marks => marks.scores[component.key]);
+  const weighted = components.map(component =>
+    complete.map(marks => calculateWeightedScore(marks.scores[component.key], component))
+  );
+
+  // Every pair of components, in scheme order
+  const correlations: ComponentCorrelation[] = [];
+  components.forEach((a, i) => {
+    components.slice(i + 1).forEach((b, offset) => {
+      correlations.push({
+        componentA: a.key,
+        componentB: b.key,
+        correlation: calculateCorrelation(weighted[i], weighted[i + 1 + offset]),
+      });
+    });
+  });
+
+  const analysed: ComponentAnalysis[] = components.map((component, i) => {
+    const scores = raw(component);
+    const percentages = scores.map(score => (score / component.maxMarks) * 100);
+    const others = weighted.filter((_, j) => j !== i);
+    const restTotals = complete.map((_, student) => others.reduce((sum, item) => sum + item[student], 0));
+    const count = Math.max(1, scores.length);
+
+    const analysis: Omit<ComponentAnalysis, 'flags'> = {
+      key: component.key,
+      label: component.label,
+      meanPercentage: roundValue(percentages.reduce((sum, value) => sum + value, 0) / count, 'half-up', 2),
+      standardDeviation: roundValue(Math.sqrt(variance(percentages)), 'half-up', 2),
+      shareAtCeiling: roundValue(scores.filter(score => score >= component.maxMarks).length / count, 'half-up', 3),
+      shareAtFloor: roundValue(scores.filter(score => score <= 0).length / count, 'half-up', 3),
+      itemTotalCorrelation: calculateCorrelation(weighted[i], restTotals),
+      alphaIfDeleted: cronbachAlpha(others),
+    };
+
+    return {
+      ...analysis,
+      flags: complete.length > 0 ? flagComponent(analysis, thresholds) : [],
+    };
+  });
+
+  return {
+    studentsAnalysed: complete.length,
+    cronbachAlpha: cronbachAlpha(weighted),
+    correlations,
+    components: analysed,
+  };
+}
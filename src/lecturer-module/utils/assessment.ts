@@ -0,0 +1,215 @@
+/**
+ * Lecturer Module - Assessment Scheme Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains helpers for working with course assessment schemes.
+ * Marks calculation, validation and exports read components through these helpers
+ * instead of assuming a fixed set of assessment fields.
+ */
+
+import type {
+  AssessmentComponent,
+  AssessmentMarks,
+  AssessmentScheme,
+  ComponentStatuses,
+  MarkStatus,
+  MarkStatusRule,
+  ResitPolicy,
+} from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_RESIT_POLICY,
+  MARK_STATUS_PRIORITY,
+  MARK_STATUS_RULES,
+  MAX_TOTAL_MARKS,
+} from '../types';
+
+// ============================================
+// SCHEME COMPONENTS
+// ============================================
+
+/**
+ * Get the components of a scheme sorted by their display order
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Components sorted by ascending order
+ *
+ * @example
+ * getOrderedComponents().map(c => c.key)
+ * // Returns ['assignment', 'quiz', 'project', 'midsem', 'finalExam']
+ */
+export function getOrderedComponents(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): AssessmentComponent[] {
+  return [...scheme.components].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Look up a single component by key
+ *
+ * @param key - Component key
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Component or undefined if the scheme does not define it
+ */
+export function getComponent(
+  key: string,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): AssessmentComponent | undefined {
+  return scheme.components.find(component => component.key === key);
+}
+
+/**
+ * Get the maximum total a scheme allows (sum of component weights)
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Sum of all component weights
+ */
+export function getSchemeMaxTotal(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): number {
+  return scheme.components.reduce((sum, component) => sum + component.weight, 0);
+}
+
+/**
+ * Check whether a component's raw score is rescaled (raw maximum differs from its weight)
+ *
+ * @param component - Assessment component
+ * @returns True if the raw score is scaled before it counts toward the total
+ */
+export function isScaledComponent(component: AssessmentComponent): boolean {
+  return component.maxMarks !== component.weight;
+}
+
+/**
+ * Create a zeroed scores object for every component in a scheme
+ * Useful as the initial state of a marks entry form
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Scores keyed by component key, all set to 0
+ *
+ * @example
+ * createEmptyScores()
+ * // Returns { assignment: 0, quiz: 0, project: 0, midsem: 0, finalExam: 0 }
+ */
+export function createEmptyScores(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): AssessmentMarks {
+  const scores: AssessmentMarks = {};
+
+  getOrderedComponents(scheme).forEach(component => {
+    scores[component.key] = 0;
+  });
+
+  return scores;
+}
+
+// ============================================
+// MARK STATUSES
+// ============================================
+
+/**
+ * Check whether a value is a known mark status
+ *
+ * @param value - Value to check
+ * @returns True if value is one of the MarkStatus codes
+ */
+export function isMarkStatus(value: unknown): value is MarkStatus {
+  return typeof value === 'string' && value in MARK_STATUS_RULES;
+}
+
+/**
+ * Get the rule for a mark status, honouring the scheme's overrides
+ *
+ * @param status - Mark status
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Status rule
+ */
+export function getMarkStatusRule(
+  status: MarkStatus,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): MarkStatusRule {
+  return scheme.statusRules?.[status] ?? MARK_STATUS_RULES[status];
+}
+
+/**
+ * Build the scheme a student's marks are totalled under
+ * Components with a 'reweight' status (exempt by default) are dropped and the
+ * remaining weights are scaled up so they still add up to MAX_TOTAL_MARKS.
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param statuses - Component statuses of the student
+ * @returns Effective scheme (the original scheme when nothing is re-weighted)
+ *
+ * @example
+ * // Exempt from the project (25): the other 75 marks are scaled to 100
+ * getEffectiveScheme(DEFAULT_ASSESSMENT_SCHEME, { project: 'EXM' })
+ *   .components.find(c => c.key === 'finalExam').weight // Returns 40
+ */
+export function getEffectiveScheme(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  statuses: ComponentStatuses = {}
+): AssessmentScheme {
+  const remaining = scheme.components.filter(component => {
+    const status = statuses[component.key];
+    return !status || getMarkStatusRule(status, scheme).treatment !== 'reweight';
+  });
+
+  if (remaining.length === scheme.components.length || remaining.length === 0) {
+    return scheme;
+  }
+
+  const remainingWeight = remaining.reduce((sum, component) => sum + component.weight, 0);
+  const factor = MAX_TOTAL_MARKS / remainingWeight;
+
+  return {
+    ...scheme,
+    components: remaining.map(component => ({
+      ...component,
+      weight: component.weight * factor,
+    })),
+  };
+}
+
+/**
+ * Determine the withheld result status for a set of component statuses
+ * When several components withhold the result, MARK_STATUS_PRIORITY decides
+ * which one is reported (e.g. incomplete outranks deferred).
+ *
+ * @param statuses - Component statuses of the student
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns The status that withholds the result, or undefined if a grade can be awarded
+ *
+ * @example
+ * getResultStatus({ finalExam: 'DEF', project: 'INC' }) // Returns 'INC'
+ * getResultStatus({ project: 'EXM' }) // Returns undefined
+ */
+export function getResultStatus(
+  statuses: ComponentStatuses = {},
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): MarkStatus | undefined {
+  const present = new Set(
+    Object.entries(statuses)
+      .filter(([key]) => scheme.components.some(component => component.key === key))
+      .map(([, status]) => status)
+  );
+
+  return MARK_STATUS_PRIORITY.find(
+    status => present.has(status) && getMarkStatusRule(status, scheme).treatment === 'withhold'
+  );
+}
+
+// ============================================
+// SUPPLEMENTARY EXAMS
+// ============================================
+
+/**
+ * Get the supplementary exam policy of a scheme
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns The scheme's resit policy, or DEFAULT_RESIT_POLICY
+ */
+export function getResitPolicy(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): ResitPolicy {
+  return scheme.resit ?? DEFAULT_RESIT_POLICY;
+}
@@ -0,0 +1,206 @@
+/**
+ * Lecturer Module - Early-Warning Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file flags students at risk of failing before the final exam is sat.
+ * Each student's continuous assessment so far is projected to a range of final
+ * totals, compared against the pass mark, and checked for warning signs
+ * (low midsem, missing components, a large drop from assignment to midsem).
+ */
+
+import type {
+  AssessmentScheme,
+  AtRiskLevel,
+  AtRiskReason,
+  AtRiskStudent,
+  AtRiskThresholds,
+  MarksInput,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_AT_RISK_THRESHOLDS } from '../types';
+import { getComponent, getOrderedComponents } from './assessment';
+import { getSchemeGradingScale } from './grading';
+import { calculateComponentBreakdown, calculatePercentage, calculateTotalScore, isPassingScore } from './marks';
+import { getRoundingPolicy, roundScore, roundScoreForGrading } from './rounding';
+
+type AtRiskInput = Pick<MarksInput, 'studentId' | 'scores' | 'statuses'>;
+
+// Ranking order, most urgent first
+const LEVEL_ORDER: AtRiskLevel[] = ['high', 'medium', 'low'];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Check whether a component still has to be scored
+ * Components marked 'PENDING' count as remaining; any other status is final.
+ */
+function isRemaining(marks: AtRiskInput, key: string): boolean {
+  const status = marks.statuses?.[key];
+  if (status) return status === 'PENDING';
+
+  return typeof marks.scores[key] !== 'number';
+}
+
+/**
+ * Percentage a student scored in one component, or null if it has no score
+ */
+function componentPercentage(
+  marks: AtRiskInput,
+  key: string,
+  scheme: AssessmentScheme
+): number | null {
+  const component = getComponent(key, scheme);
+  if (!component || isRemaining(marks, key) || marks.statuses?.[key]) return null;
+
+  return calculatePercentage(marks.scores[key], component.maxMarks);
+}
+
+// ============================================
+// EARLY WARNING
+// ============================================
+
+/**
+ * Check one student for the risk of failing
+ * Components without a score (or marked 'PENDING') are projected three ways:
+ * 0 (min), full marks (max) and the student's weighted average over the
+ * components scored so far (expected; 0 if nothing has been scored).
+ *
+ * @param marks - Scores and statuses entered so far
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param thresholds - Warning thresholds (default: DEFAULT_AT_RISK_THRESHOLDS)
+ * @returns At-risk record, or null if nothing points to a risk of failing
+ *
+ * @example
+ * assessAtRisk({ studentId: 'S001', scores: { assignment: 9, quiz: 8, project: 12, midsem: 9 } })
+ * // level: 'medium', currentTotal: 38, projected: { min: 38, expected: 54.29, max: 68 }
+ * // reasons: projected-fail, low-midsem, large-drop
+ */
+export function assessAtRisk(
+  marks: AtRiskInput,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  thresholds: AtRiskThresholds = DEFAULT_AT_RISK_THRESHOLDS
+): AtRiskStudent | null {
+  const scale = getSchemeGradingScale(scheme);
+  const rounding = getRoundingPolicy(scheme);
+  const components = getOrderedComponents(scheme);
+
+  const remaining = components.filter(component => isRemaining(marks, component.key));
+  const statuses = { ...(marks.statuses ?? {}) };
+  remaining.forEach(component => delete statuses[component.key]);
+
+  // Average share of the weight earned in the components scored so far
+  const scored = calculateComponentBreakdown(marks.scores, scheme, statuses)
+    .filter(entry => !entry.status && !remaining.some(component => component.key === entry.key));
+  const scoredWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+  const average = scoredWeight > 0
+    ? scored.reduce((sum, entry) => sum + entry.weightedScore, 0) / scoredWeight
+    : 0;
+
+  const projectAt = (share: number) => calculateTotalScore(
+    {
+      ...marks.scores,
+      ...Object.fromEntries(remaining.map(component => [component.key, share * component.maxMarks])),
+    },
+    scheme,
+    statuses
+  );
+
+  const projected = {
+    min: projectAt(0),
+    expected: projectAt(average),
+    max: projectAt(1),
+  };
+  const passes = (total: number) => isPassingScore(roundScoreForGrading(total, rounding, scale), scale);
+
+  const reasons: AtRiskReason[] = [];
+
+  if (!passes(projected.max)) {
+    reasons.push({
+      code: 'cannot-pass',
+      message: `Cannot reach the pass mark of ${scale.passMark} even with full marks (best possible total ${projected.max})`,
+    });
+  } else if (!passes(projected.expected)) {
+    reasons.push({
+      code: 'projected-fail',
+      message: `Projected total ${projected.expected} (range ${projected.min}-${projected.max}) is below the pass mark of ${scale.passMark}`,
+    });
+  }
+
+  const midsem = getComponent(thresholds.midsemComponent, scheme);
+  const midsemPercentage = componentPercentage(marks, thresholds.midsemComponent, scheme);
+
+  if (midsem && midsemPercentage !== null && midsemPercentage < thresholds.lowMidsemPercentage) {
+    reasons.push({
+      code: 'low-midsem',
+      message: `${midsem.label} ${marks.scores[midsem.key]}/${midsem.maxMarks} (${midsemPercentage}%) is below ${thresholds.lowMidsemPercentage}%`,
+    });
+  }
+
+  // The final is expected to be missing; anything else without a score is not
+  const missing = remaining.filter(component => component.key !== thresholds.finalComponent);
+
+  if (missing.length > 0) {
+    reasons.push({
+      code: 'missing-components',
+      message: `No score yet for ${missing.map(component => component.label).join(', ')}`,
+    });
+  }
+
+  const assignment = getComponent(thresholds.assignmentComponent, scheme);
+  const assignmentPercentage = componentPercentage(marks, thresholds.assignmentComponent, scheme);
+
+  if (assignment && midsem && assignmentPercentage !== null && midsemPercentage !== null) {
+    const drop = roundScore(assignmentPercentage - midsemPercentage, rounding);
+
+    if (drop >= thresholds.largeDropPercentagePoints) {
+      reasons.push({
+        code: 'large-drop',
+        message: `Dropped ${drop} percentage points from ${assignment.label} (${assignmentPercentage}%) to ${midsem.label} (${midsemPercentage}%)`,
+      });
+    }
+  }
+
+  if (reasons.length === 0) return null;
+
+  const level: AtRiskLevel = reasons[0].code === 'cannot-pass'
+    ? 'high'
+    : reasons[0].code === 'projected-fail' ? 'medium' : 'low';
+
+  return {
+    studentId: marks.studentId,
+    level,
+    currentTotal: projected.min,
+    projected,
+    passMark: scale.passMark,
+    remainingComponents: remaining.map(component => component.key),
+    reasons,
+  };
+}
+
+/**
+ * Find every student at risk of failing in a course
+ * Students are ranked by level ('high' first), then by expected total (lowest first).
+ *
+ * @param marksArray - Scores and statuses entered so far
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param thresholds - Warning thresholds (default: DEFAULT_AT_RISK_THRESHOLDS)
+ * @returns Ranked at-risk list
+ *
+ * @example
+ * const atRisk = findAtRiskStudents(courseMarks, scheme);
+ * atRisk.forEach(student => console.log(student.studentId, student.level, student.reasons[0].message));
+ */
+export function findAtRiskStudents(
+  marksArray: AtRiskInput[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  thresholds: AtRiskThresholds = DEFAULT_AT_RISK_THRESHOLDS
+): AtRiskStudent[] {
+  return marksArray
+    .map(marks => assessAtRisk(marks, scheme, thresholds))
+    .filter((student): student is AtRiskStudent => student !== null)
+    .sort((a, b) =>
+      LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level) ||
+      a.projected.expected - b.projected.expected
+    );
+}
@@ -0,0 +1,195 @@
+/**
+ * Lecturer Module - Borderline Review Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file finds students whose total sits just below a grade boundary and
+ * manages the review queue that must be cleared before a course is finalized.
+ */
+
+import type {
+  AssessmentScheme,
+  BorderlineCase,
+  BorderlineReviewItem,
+  BorderlineReviewStatus,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_BORDERLINE_MARGIN } from '../types';
+import { getEffectiveScheme, getResitPolicy } from './assessment';
+import { getGradingScaleForMarks, getSchemeGradingScale } from './grading';
+import { calculateWeightedScore, getGradeBoundary, getResitCapScore, isResultWithheld } from './marks';
+import { roundValue } from './rounding';
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Suggest the component most likely to be re-marked for a student
+ * Picks the component where the student lost the most weighted marks, as that
+ * is where a re-mark has the most room to find the missing marks.
+ *
+ * @param marks - Student marks record
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Component key, or null if no component has a score to re-mark
+ */
+export function suggestRemarkComponent(
+  marks: StudentMarks,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): string | null {
+  const statuses = marks.statuses ?? {};
+  const components = getEffectiveScheme(scheme, statuses).components
+    .filter(component => !statuses[component.key] && marks.scores[component.key] !== undefined);
+
+  let suggestion: string | null = null;
+  let mostLost = 0;
+
+  components.forEach(component => {
+    const lost = component.weight - calculateWeightedScore(marks.scores[component.key], component);
+
+    if (lost > mostLost) {
+      mostLost = lost;
+      suggestion = component.key;
+    }
+  });
+
+  return suggestion;
+}
+
+/**
+ * Find students whose total is within a margin below the next grade boundary
+ * Withheld results are skipped, as are resit results whose next grade is above
+ * the resit cap (no re-mark could award it). Cases just below the pass mark come
+ * first, then the rest by smallest gap.
+ *
+ * @param marksArray - Marks for the course
+ * @param margin - Marks below a boundary that count as borderline (default: DEFAULT_BORDERLINE_MARGIN)
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Borderline cases
+ *
+ * @example
+ * findBorderlineCases(courseMarks)
+ * // A student on 58 is returned with currentGrade 'F', nextGrade 'D-', gap 2, belowPassMark true
+ */
+export function findBorderlineCases(
+  marksArray: StudentMarks[],
+  margin: number = DEFAULT_BORDERLINE_MARGIN,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): BorderlineCase[] {
+  const fallback = getSchemeGradingScale(scheme);
+  const resitCap = getResitPolicy(scheme).cap;
+  const cases: BorderlineCase[] = [];
+
+  marksArray.forEach(marks => {
+    if (isResultWithheld(marks)) return;
+
+    // Unregistered scales are reported by the integrity scan, not guessed at here
+    const scale = getGradingScaleForMarks(marks, fallback);
+    if (!scale) return;
+
+    const current = getGradeBoundary(marks.grade, scale);
+    if (!current) return;
+
+    // Boundaries are sorted from highest to lowest, so the next grade up is the previous entry
+    const index = scale.boundaries.indexOf(current);
+    const next = index > 0 ? scale.boundaries[index - 1] : undefined;
+    if (!next) return;
+    if (marks.attemptUsed === 'resit' && next.minScore > getResitCapScore(resitCap, scale)) return;
+
+    const gap = roundValue(next.minScore - marks.totalScore, 'half-up', 2);
+    if (gap <= 0 || gap > margin) return;
+
+    cases.push({
+      studentId: marks.studentId,
+      marksId: marks.id,
+      totalScore: marks.totalScore,
+      currentGrade: marks.grade,
+      nextGrade: next.grade,
+      nextGradeMinScore: next.minScore,
+      gap,
+      belowPassMark: next.minScore === scale.passMark,
+      suggestedComponent: suggestRemarkComponent(marks, scheme),
+    });
+  });
+
+  return cases.sort((a, b) =>
+    Number(b.belowPassMark) - Number(a.belowPassMark) || a.gap - b.gap
+  );
+}
+
+// ============================================
+// REVIEW QUEUE
+// ============================================
+
+/**
+ * Build a review queue from borderline cases
+ * Decisions already made in a previous queue are kept for students whose total
+ * has not changed since; everyone else starts as 'pending'.
+ *
+ * @param cases - Borderline cases
+ * @param previous - Previous queue (default: empty)
+ * @returns Review queue
+ */
+export function createReviewQueue(
+  cases: BorderlineCase[],
+  previous: BorderlineReviewItem[] = []
+): BorderlineReviewItem[] {
+  return cases.map(borderlineCase => {
+    const earlier = previous.find(item =>
+      item.studentId === borderlineCase.studentId && item.totalScore === borderlineCase.totalScore
+    );
+
+    return earlier
+      ? { ...borderlineCase, status: earlier.status, note: earlier.note, reviewedBy: earlier.reviewedBy, reviewedAt: earlier.reviewedAt }
+      : { ...borderlineCase, status: 'pending' };
+  });
+}
+
+/**
+ * Record a review decision for one student
+ *
+ * @param queue - Review queue
+ * @param studentId - Student the decision is for
+ * @param status - Review decision
+ * @param reviewedBy - ID of the lecturer making the decision
+ * @param note - Optional note (e.g. what was re-marked)
+ * @returns Updated queue (the input is not changed)
+ */
+export function updateReviewItem(
+  queue: BorderlineReviewItem[],
+  studentId: string,
+  status: BorderlineReviewStatus,
+  reviewedBy: string,
+  note?: string
+): BorderlineReviewItem[] {
+  return queue.map(item =>
+    item.studentId === studentId
+      ? {
+          ...item,
+          status,
+          note: note?.trim() || undefined,
+          reviewedBy: status === 'pending' ? undefined : reviewedBy,
+          reviewedAt: status === 'pending' ? undefined : new Date().toISOString(),
+        }
+      : item
+  );
+}
+
+/**
+ * Get the cases still waiting for a decision
+ *
+ * @param queue - Review queue
+ * @returns Pending review items
+ */
+export function getPendingReviews(queue: BorderlineReviewItem[]): BorderlineReviewItem[] {
+  return queue.filter(item => item.status === 'pending');
+}
+
+/**
+ * Check whether every borderline case has been dealt with
+ *
+ * @param queue - Review queue
+ * @returns True if the course can be finalized
+ */
+export function canFinalizeReviews(queue: BorderlineReviewItem[]): boolean {
+  return getPendingReviews(queue).length === 0;
+}
@@ -0,0 +1,138 @@
+/**
+ * Lecturer Module - Cohort Comparison Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file compares two or more mark sets side by side, such as the sections
+ * of one unit or the same unit across intakes: means, distributions, pass rates,
+ * per-component averages and significance tests on every pair.
+ */
+
+import type {
+  AssessmentScheme,
+  Cohort,
+  CohortComparison,
+  CohortPairComparison,
+  CohortSummary,
+  ComponentComparison,
+} from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_HISTOGRAM_BIN_WIDTH,
+  DEFAULT_SIGNIFICANCE_LEVEL,
+} from '../types';
+import { getSchemeGradingScale } from './grading';
+import { calculateClassStatistics, getGradedMarks } from './marks';
+import { roundValue } from './rounding';
+import { calculateMannWhitneyU, calculateWelchTTest } from './statistics';
+
+// ============================================
+// COHORT COMPARISON
+// ============================================
+
+/**
+ * Compare the total scores of two cohorts
+ *
+ * @param a - First cohort
+ * @param b - Second cohort
+ * @param summaries - Statistics of both cohorts (from compareCohorts)
+ * @param significanceLevel - Significance level (default: DEFAULT_SIGNIFICANCE_LEVEL)
+ * @returns Differences and significance tests (A minus B)
+ */
+export function compareCohortPair(
+  a: Cohort,
+  b: Cohort,
+  summaries: [CohortSummary, CohortSummary],
+  significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL
+): CohortPairComparison {
+  const totalsA = getGradedMarks(a.marks).map(marks => marks.totalScore);
+  const totalsB = getGradedMarks(b.marks).map(marks => marks.totalScore);
+  const [statisticsA, statisticsB] = summaries.map(summary => summary.statistics);
+
+  return {
+    cohortA: a.id,
+    cohortB: b.id,
+    meanDifference: roundValue(statisticsA.averageScore - statisticsB.averageScore, 'half-up', 2),
+    passRateDifference: roundValue(statisticsA.passRate - statisticsB.passRate, 'half-up', 2),
+    welch: calculateWelchTTest(totalsA, totalsB, significanceLevel),
+    mannWhitney: calculateMannWhitneyU(totalsA, totalsB, significanceLevel),
+  };
+}
+
+/**
+ * Compare two or more cohorts side by side
+ * Each cohort is summarised under its own scheme (or the given default), with
+ * the same histogram bins so distributions line up. Components are matched by
+ * key and compared as percentages of their maximum, so cohorts assessed under
+ * different weights can still be compared. Withheld results are left out.
+ *
+ * @param cohorts - Cohorts to compare (sections or intakes)
+ * @param scheme - Scheme for cohorts without one (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param significanceLevel - Significance level (default: DEFAULT_SIGNIFICANCE_LEVEL)
+ * @param binWidth - Histogram bin width (default: DEFAULT_HISTOGRAM_BIN_WIDTH)
+ * @returns Per-cohort statistics, component averages and pairwise tests
+ *
+ * @example
+ * const comparison = compareCohorts([
+ *   { id: 'A', label: 'Section A', marks: sectionAMarks },
+ *   { id: 'B', label: 'Section B', marks: sectionBMarks },
+ * ]);
+ * const [pair] = comparison.pairs;
+ * console.log(pair.meanDifference, pair.welch?.pValue, pair.mannWhitney?.significant);
+ */
+export function compareCohorts(
+  cohorts: Cohort[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL,
+  binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH
+): CohortComparison {
+  const summaries: CohortSummary[] = cohorts.map(cohort => {
+    const cohortScheme = cohort.scheme ?? scheme;
+
+    return {
+      id: cohort.id,
+      label: cohort.label,
+      statistics: calculateClassStatistics(
+        cohort.marks,
+        {
+          courseId: cohort.id,
+          courseName: cohort.label,
+          totalStudents: cohort.totalStudents ?? cohort.marks.length,
+        },
+        getSchemeGradingScale(cohortScheme),
+        cohortScheme,
+        binWidth
+      ),
+    };
+  });
+
+  // Every component key, in the order first seen
+  const components: ComponentComparison[] = [];
+  summaries.forEach(summary => {
+    summary.statistics.componentStatistics.forEach(component => {
+      if (components.some(existing => existing.key === component.key)) return;
+
+      components.push({
+        key: component.key,
+        label: component.label,
+        means: Object.fromEntries(summaries.map(other => {
+          const match = other.statistics.componentStatistics.find(c => c.key === component.key);
+          return [other.id, match && match.count > 0 ? match.mean : null];
+        })),
+      });
+    });
+  });
+
+  const pairs: CohortPairComparison[] = [];
+  cohorts.forEach((a, i) => {
+    cohorts.slice(i + 1).forEach((b, offset) => {
+      pairs.push(compareCohortPair(a, b, [summaries[i], summaries[i + 1 + offset]], significanceLevel));
+    });
+  });
+
+  return {
+    cohorts: summaries,
+    components,
+    pairs,
+    significanceLevel,
+  };
+}
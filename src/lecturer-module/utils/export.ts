@@ -7,12 +7,108 @@
  */
 
 import type {
+  AtRiskStudent,
+  CohortComparison,
+  IntegrityReport,
+  SignificanceTest,
+  Student,
+  Transcript,
+  AcademicStanding,
   StudentWithMarks,
   StudentMarks,
   ClassStatistics,
   CSVExportData,
   HTMLExportData,
+  AssessmentScheme,
+  DescriptiveStatistics,
 } from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME } from '../types';
+import {
+  getComponent,
+  getMarkStatusRule,
+  getOrderedComponents,
+  getResitPolicy,
+  getSchemeMaxTotal,
+  isScaledComponent,
+} from './assessment';
+import { calculateClassStatistics, calculateComponentBreakdown, isPassingGrade } from './marks';
+import { getGradingScaleForMarks, getSchemeGradingScale } from './grading';
+import { getRoundingPolicy, roundScore } from './rounding';
+import { formatPhoneNumber } from './phone';
+
+// ============================================
+// RESULT STATUS
+// ============================================
+
+/**
+ * Describe the result of a marks record for the Status column
+ * Withheld results show the status label (e.g. 'Incomplete') instead of Pass/Fail;
+ * records graded under a scale that is not registered show 'Unknown Scale'.
+ */
+function describeResult(
+  marks: StudentMarks | undefined,
+  scheme: AssessmentScheme
+): string {
+  if (!marks) return 'No Marks';
+
+  if (marks.resultStatus) {
+    return getMarkStatusRule(marks.resultStatus, scheme).label;
+  }
+
+  const scale = getGradingScaleForMarks(marks, getSchemeGradingScale(scheme));
+  if (!scale) return 'Unknown Scale';
+
+  return isPassingGrade(marks.grade, scale) ? 'Pass' : 'Fail';
+}
+
+/**
+ * Describe which sitting a marks record was graded on
+ */
+function describeAttempt(marks: StudentMarks | undefined): string {
+  if (!marks) return 'N/A';
+  return marks.attemptUsed === 'resit' ? 'Resit' : 'Original';
+}
+
+/**
+ * Describe a significance test result for a report cell
+ */
+function describeSignificance(test: SignificanceTest | null): string {
+  if (!test) return 'Not enough data';
+
+  const statistic = test.test === 'welch-t'
+    ? `t = ${test.statistic}, df = ${test.degreesOfFreedom}`
+    : `U = ${test.statistic}, z = ${test.zScore}`;
+
+  return `${statistic}, p = ${test.pValue}${test.significant ? ' (significant)' : ''}`;
+}
+
+/**
+ * Describe an academic standing for the transcript
+ */
+function describeStanding(standing: AcademicStanding): string {
+  switch (standing) {
+    case 'probation':
+      return 'Academic Probation';
+    case 'discontinuation':
+      return 'Discontinuation';
+    default:
+      return 'Good Standing';
+  }
+}
+
+/**
+ * Describe an at-risk level for advisors
+ */
+function describeRiskLevel(student: AtRiskStudent): string {
+  switch (student.level) {
+    case 'high':
+      return 'High - cannot pass';
+    case 'medium':
+      return 'Medium - projected to fail';
+    default:
+      return 'Low - warning signs';
+  }
+}
 
 // ============================================
 // CSV EXPORT
@@ -47,6 +143,7 @@ function arrayToCSV(headers: string[], rows: (string | number)[][]): string {
  * 
  * @param students - Array of students with their marks
  * @param courseName - Name of the course (for filename)
+ * @param scheme - Assessment scheme that defines the component columns
  * @returns CSV export data
  * 
  * @example
@@ -55,41 +152,55 @@ function arrayToCSV(headers: string[], rows: (string | number)[][]): string {
  */
 export function exportMarksToCSV(
   students: StudentWithMarks[],
-  courseName: string = 'Course'
+  courseName: string = 'Course',
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
 ): CSVExportData {
-  // Define CSV headers
+  const components = getOrderedComponents(scheme);
+  const rounding = getRoundingPolicy(scheme);
+  const resitComponent = getComponent(getResitPolicy(scheme).component, scheme);
+
+  // Define CSV headers (raw score and weighted contribution per component)
   const headers = [
     'Registration Number',
     'First Name',
     'Last Name',
     'Email',
-    'Assignment (10)',
-    'Quiz (15)',
-    'Project (25)',
-    'Midsem (20)',
-    'Final Exam (30)',
-    'Total Score (100)',
+    ...components.flatMap(component => [
+      `${component.label} Raw (/${component.maxMarks})`,
+      `${component.label} Weighted (${component.weight})`,
+    ]),
+    `Resit (/${resitComponent?.maxMarks ?? 'N/A'})`,
+    `Total Score (${getSchemeMaxTotal(scheme)})`,
+    'Uncapped Total',
     'Grade',
+    'Uncapped Grade',
+    'Attempt',
     'Status',
   ];
 
   // Build data rows
   const rows = students.map(student => {
     const marks = student.marks;
+    const breakdown = marks ? calculateComponentBreakdown(marks.scores, scheme, marks.statuses) : [];
 
     return [
       student.registrationNumber,
       student.firstName,
       student.lastName,
       student.email,
-      marks?.assignment ?? 'N/A',
-      marks?.quiz ?? 'N/A',
-      marks?.project ?? 'N/A',
-      marks?.midsem ?? 'N/A',
-      marks?.finalExam ?? 'N/A',
-      marks?.totalScore ?? 'N/A',
+      // Components with a status show the status code instead of a score
+      ...components.flatMap((_, i): (string | number)[] => {
+        const entry = breakdown[i];
+        if (!entry) return ['N/A', 'N/A'];
+        return entry.status ? [entry.status, entry.status] : [entry.rawScore, entry.weightedScore];
+      }),
+      marks?.resit?.score ?? '',
+      marks ? roundScore(marks.totalScore, rounding) : 'N/A',
+      marks?.uncappedScore !== undefined ? roundScore(marks.uncappedScore, rounding) : '',
       marks?.grade ?? 'N/A',
-      marks ? (marks.grade !== 'F' ? 'Pass' : 'Fail') : 'No Marks',
+      marks?.uncappedGrade ?? '',
+      describeAttempt(marks),
+      describeResult(marks, scheme),
     ];
   });
 
@@ -117,7 +228,7 @@ export function exportMarksToCSV(
 export function exportStatisticsToCSV(statistics: ClassStatistics): CSVExportData {
   const headers = ['Metric', 'Value'];
 
-  const rows = [
+  const rows: (string | number)[][] = [
     ['Course', statistics.courseName],
     ['Total Students', statistics.totalStudents],
     ['Students with Marks', statistics.studentsWithMarks],
@@ -125,22 +236,54 @@ export function exportStatisticsToCSV(statistics: ClassStatistics): CSVExportDat
     ['Highest Score', statistics.highestScore],
     ['Lowest Score', statistics.lowestScore],
     ['Pass Rate (%)', statistics.passRate],
+    ['Withheld Results', statistics.withheldResults ?? 0],
+    ['Resit Results', statistics.resitResults ?? 0],
     ['', ''], // Empty row
     ['Grade Distribution', ''],
-    ['A', statistics.gradeDistribution['A']],
-    ['A-', statistics.gradeDistribution['A-']],
-    ['B+', statistics.gradeDistribution['B+']],
-    ['B', statistics.gradeDistribution['B']],
-    ['B-', statistics.gradeDistribution['B-']],
-    ['C+', statistics.gradeDistribution['C+']],
-    ['C', statistics.gradeDistribution['C']],
-    ['C-', statistics.gradeDistribution['C-']],
-    ['D+', statistics.gradeDistribution['D+']],
-    ['D', statistics.gradeDistribution['D']],
-    ['D-', statistics.gradeDistribution['D-']],
-    ['F', statistics.gradeDistribution['F']],
+    ...Object.entries(statistics.gradeDistribution),
   ];
 
+  if (statistics.summary) {
+    const summary = statistics.summary;
+
+    rows.push(
+      ['', ''],
+      ['Total Score Summary', ''],
+      ['Median', summary.median],
+      ['Mode', summary.mode.length > 0 ? summary.mode.join(' / ') : 'None'],
+      ['Standard Deviation', summary.standardDeviation],
+      ['Lower Quartile (Q1)', summary.q1],
+      ['Upper Quartile (Q3)', summary.q3],
+      ['Interquartile Range', summary.iqr],
+      ['Skewness', summary.skewness],
+      ['', ''],
+      ['Score Histogram', ''],
+      ...summary.histogram.map(bin => [`${bin.min}-${bin.max}`, bin.count])
+    );
+  }
+
+  // Per-component summary (percentages of each component's maximum)
+  if (statistics.componentStatistics && statistics.componentStatistics.length > 0) {
+    rows.push(
+      ['', ''],
+      ['Component Summary (%)', 'Count', 'Mean', 'Median', 'Mode', 'Std Dev', 'Min', 'Q1', 'Q3', 'Max', 'IQR', 'Skewness'],
+      ...statistics.componentStatistics.map(component => [
+        `${component.label} (/${component.maxMarks})`,
+        component.count,
+        component.mean,
+        component.median,
+        component.mode.length > 0 ? component.mode.join(' / ') : 'None',
+        component.standardDeviation,
+        component.min,
+        component.q1,
+        component.q3,
+        component.max,
+        component.iqr,
+        component.skewness,
+      ])
+    );
+  }
+
   const csvContent = arrayToCSV(headers, rows);
 
   const timestamp = new Date().toISOString().split('T')[0];
@@ -154,62 +297,123 @@ export function exportStatisticsToCSV(statistics: ClassStatistics): CSVExportDat
   };
 }
 
-// ============================================
-// HTML EXPORT (Printable)
-// ============================================
+/**
+ * Export an integrity scan to CSV
+ * One row per finding, most serious first. Students are shown by registration
+ * number when the course's students are given.
+ * 
+ * @param report - Integrity report (from scanMarksIntegrity)
+ * @param courseName - Name of the course (for filename)
+ * @param students - Students of the course (default: none, student IDs are shown)
+ * @returns CSV export data
+ * 
+ * @example
+ * downloadCSV(exportIntegrityToCSV(scanMarksIntegrity(courseMarks, scheme), 'Data Structures', students));
+ */
+export function exportIntegrityToCSV(
+  report: IntegrityReport,
+  courseName: string = 'Course',
+  students: Student[] = []
+): CSVExportData {
+  const headers = ['Severity', 'Check', 'Students', 'Message', 'Expected', 'Stored'];
+  const describeStudent = (studentId: string) =>
+    students.find(student => student.id === studentId)?.registrationNumber ?? studentId;
+
+  const rows = report.findings.map(finding => [
+    finding.severity,
+    finding.code,
+    finding.studentIds.map(describeStudent).join('; '),
+    finding.message,
+    finding.expected ?? '',
+    finding.actual ?? '',
+  ]);
+
+  const csvContent = arrayToCSV(headers, rows);
+
+  const timestamp = new Date().toISOString().split('T')[0];
+  const sanitizedCourseName = courseName.replace(/[^a-z0-9]/gi, '_');
+  const filename = `${sanitizedCourseName}_Integrity_Check_${timestamp}.csv`;
+
+  return {
+    filename,
+    data: csvContent,
+    mimeType: 'text/csv',
+  };
+}
 
 /**
- * Generate printable HTML for student marks
- * Creates a nicely formatted HTML document ready for printing
+ * Export an at-risk list to CSV as an intervention report for student advisors
+ * One row per student, in the order given (findAtRiskStudents ranks them).
  * 
- * @param students - Array of students with their marks
- * @param courseName - Name of the course
- * @param lecturerName - Name of the lecturer
- * @returns HTML export data
+ * @param atRisk - Ranked at-risk students
+ * @param students - Students of the course (for names and contact details)
+ * @param courseName - Name of the course (for filename)
+ * @returns CSV export data
  * 
  * @example
- * const htmlData = exportMarksToPrintableHTML(studentsWithMarks, 'Data Structures', 'Dr. Smith');
- * printHTML(htmlData); // Opens print dialog
+ * const csvData = exportAtRiskToCSV(findAtRiskStudents(courseMarks, scheme), students, 'Data Structures');
+ * downloadCSV(csvData);
  */
-export function exportMarksToPrintableHTML(
-  students: StudentWithMarks[],
-  courseName: string,
-  lecturerName: string = 'Lecturer'
-): HTMLExportData {
-  const timestamp = new Date().toLocaleString();
+export function exportAtRiskToCSV(
+  atRisk: AtRiskStudent[],
+  students: Student[],
+  courseName: string = 'Course'
+): CSVExportData {
+  const headers = [
+    'Rank',
+    'Registration Number',
+    'First Name',
+    'Last Name',
+    'Email',
+    'Risk Level',
+    'Current Total',
+    'Projected Min',
+    'Projected Expected',
+    'Projected Max',
+    'Pass Mark',
+    'Reasons',
+  ];
 
-  // Build student rows
-  const studentRows = students
-    .map((student, index) => {
-      const marks = student.marks;
+  const rows = atRisk.map((entry, index) => {
+    const student = students.find(s => s.id === entry.studentId);
 
-      return `
-        <tr class="${index % 2 === 0 ? 'even-row' : 'odd-row'}">
-          <td>${index + 1}</td>
-          <td>${student.registrationNumber}</td>
-          <td>${student.firstName} ${student.lastName}</td>
-          <td>${marks?.assignment ?? 'N/A'}</td>
-          <td>${marks?.quiz ?? 'N/A'}</td>
-          <td>${marks?.project ?? 'N/A'}</td>
-          <td>${marks?.midsem ?? 'N/A'}</td>
-          <td>${marks?.finalExam ?? 'N/A'}</td>
-          <td><strong>${marks?.totalScore ?? 'N/A'}</strong></td>
-          <td class="grade-${marks?.grade || 'NA'}">${marks?.grade ?? 'N/A'}</td>
-          <td>${marks ? (marks.grade !== 'F' ? '<span class="pass">Pass</span>' : '<span class="fail">Fail</span>') : 'No Marks'}</td>
-        </tr>
-      `;
-    })
-    .join('');
+    return [
+      index + 1,
+      student?.registrationNumber ?? entry.studentId,
+      student?.firstName ?? '',
+      student?.lastName ?? '',
+      student?.email ?? '',
+      describeRiskLevel(entry),
+      entry.currentTotal,
+      entry.projected.min,
+      entry.projected.expected,
+      entry.projected.max,
+      entry.passMark,
+      entry.reasons.map(reason => reason.message).join('; '),
+    ];
+  });
 
-  // Generate complete HTML document
-  const html = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${courseName} - Student Marks</title>
-  <style>
+  const csvContent = arrayToCSV(headers, rows);
+
+  const timestamp = new Date().toISOString().split('T')[0];
+  const sanitizedCourseName = courseName.replace(/[^a-z0-9]/gi, '_');
+  const filename = `${sanitizedCourseName}_At_Risk_${timestamp}.csv`;
+
+  return {
+    filename,
+    data: csvContent,
+    mimeType: 'text/csv',
+  };
+}
+
+// ============================================
+// HTML EXPORT (Printable)
+// ============================================
+
+/**
+ * Shared stylesheet of the printable reports
+ */
+const REPORT_STYLES = `
     * {
       margin: 0;
       padding: 0;
@@ -303,6 +507,16 @@ export function exportMarksToPrintableHTML(
     .grade-D, .grade-D-, .grade-Dplus { color: #e67e22; font-weight: bold; }
     .grade-F { color: #e74c3c; font-weight: bold; }
 
+    .weighted {
+      color: #888;
+      font-size: 11px;
+    }
+
+    .status {
+      color: #888;
+      font-style: italic;
+    }
+
     .pass {
       color: #2ecc71;
       font-weight: bold;
@@ -313,6 +527,22 @@ export function exportMarksToPrintableHTML(
       font-weight: bold;
     }
 
+    .section-title {
+      font-size: 18px;
+      margin-bottom: 10px;
+      color: #1a1a1a;
+    }
+
+    .histogram td:last-child {
+      width: 60%;
+    }
+
+    .bar {
+      height: 12px;
+      background: #3498db;
+      border-radius: 2px;
+    }
+
     .footer {
       margin-top: 40px;
       padding-top: 20px;
@@ -357,6 +587,119 @@ export function exportMarksToPrintableHTML(
         display: table-header-group;
       }
     }
+`;
+
+/**
+ * Generate printable HTML for student marks
+ * Creates a nicely formatted HTML document ready for printing
+ * Ends with a class summary (descriptive statistics per component) and a score histogram
+ * 
+ * @param students - Array of students with their marks
+ * @param courseName - Name of the course
+ * @param lecturerName - Name of the lecturer
+ * @param scheme - Assessment scheme that defines the component columns
+ * @param lecturerPhone - Lecturer's phone number (E.164), shown formatted as the contact if given
+ * @returns HTML export data
+ * 
+ * @example
+ * const htmlData = exportMarksToPrintableHTML(studentsWithMarks, 'Data Structures', 'Dr. Smith');
+ * printHTML(htmlData); // Opens print dialog
+ */
+export function exportMarksToPrintableHTML(
+  students: StudentWithMarks[],
+  courseName: string,
+  lecturerName: string = 'Lecturer',
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  lecturerPhone?: string
+): HTMLExportData {
+  const timestamp = new Date().toLocaleString();
+  const components = getOrderedComponents(scheme);
+  const scale = getSchemeGradingScale(scheme);
+  const rounding = getRoundingPolicy(scheme);
+
+  // Class summary of totals and components (percentages of each component's maximum)
+  const statistics = calculateClassStatistics(
+    students.filter(student => student.marks !== undefined).map(student => student.marks!),
+    { courseId: students[0]?.courseId ?? '', courseName, totalStudents: students.length },
+    scale,
+    scheme
+  );
+  const summaries = [statistics.summary, ...statistics.componentStatistics];
+  const measures: [string, (summary: DescriptiveStatistics) => string | number][] = [
+    ['Count', summary => summary.count],
+    ['Mean', summary => summary.mean],
+    ['Median', summary => summary.median],
+    ['Mode', summary => summary.mode.length > 0 ? summary.mode.join(' / ') : '-'],
+    ['Std. Deviation', summary => summary.standardDeviation],
+    ['Min', summary => summary.min],
+    ['Q1', summary => summary.q1],
+    ['Q3', summary => summary.q3],
+    ['Max', summary => summary.max],
+    ['IQR', summary => summary.iqr],
+    ['Skewness', summary => summary.skewness],
+  ];
+  const summaryRows = measures
+    .map(([label, read]) => `
+        <tr>
+          <td><strong>${label}</strong></td>
+          ${summaries.map(summary => `<td>${read(summary)}</td>`).join('')}
+        </tr>`)
+    .join('');
+
+  const largestBin = Math.max(1, ...statistics.summary.histogram.map(bin => bin.count));
+  const histogramRows = statistics.summary.histogram
+    .map(bin => `
+        <tr>
+          <td>${bin.min} – ${bin.max}</td>
+          <td>${bin.count}</td>
+          <td><div class="bar" style="width: ${Math.round((bin.count / largestBin) * 100)}%"></div></td>
+        </tr>`)
+    .join('');
+
+  // Build student rows
+  const studentRows = students
+    .map((student, index) => {
+      const marks = student.marks;
+      const breakdown = marks ? calculateComponentBreakdown(marks.scores, scheme, marks.statuses) : [];
+      const result = describeResult(marks, scheme);
+
+      // Scaled components show the weighted contribution under the raw score
+      const componentCells = components
+        .map((component, i) => {
+          const entry = breakdown[i];
+          if (!entry) return '<td>N/A</td>';
+          if (entry.status) return `<td class="status">${entry.status}</td>`;
+          return isScaledComponent(component)
+            ? `<td>${entry.rawScore}<br/><small class="weighted">${entry.weightedScore}</small></td>`
+            : `<td>${entry.rawScore}</td>`;
+        })
+        .join('');
+
+      return `
+        <tr class="${index % 2 === 0 ? 'even-row' : 'odd-row'}">
+          <td>${index + 1}</td>
+          <td>${student.registrationNumber}</td>
+          <td>${student.firstName} ${student.lastName}</td>
+          ${componentCells}
+          <td><strong>${marks ? roundScore(marks.totalScore, rounding) : 'N/A'}</strong>${marks?.uncappedScore !== undefined ? `<br/><small class="weighted">uncapped ${roundScore(marks.uncappedScore, rounding)}</small>` : ''}</td>
+          <td class="grade-${marks?.grade || 'NA'}">${marks?.grade ?? 'N/A'}</td>
+          <td>${marks?.attemptUsed === 'resit' ? `Resit (${marks.resit?.score ?? 'N/A'})` : describeAttempt(marks)}</td>
+          <td>${result === 'Pass' ? '<span class="pass">Pass</span>' : result === 'Fail' ? '<span class="fail">Fail</span>' : result}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  // Generate complete HTML document
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${courseName} - Student Marks</title>
+  <style>
+${REPORT_STYLES}
   </style>
 </head>
 <body>
@@ -374,6 +717,14 @@ export function exportMarksToPrintableHTML(
       <span class="info-label">Lecturer:</span>
       <span>${lecturerName}</span>
     </div>
+    ${lecturerPhone ? `<div class="info-item">
+      <span class="info-label">Contact:</span>
+      <span>${formatPhoneNumber(lecturerPhone)}</span>
+    </div>` : ''}
+    <div class="info-item">
+      <span class="info-label">Grading Scale:</span>
+      <span>${scale.name} (v${scale.version})</span>
+    </div>
     <div class="info-item">
       <span class="info-label">Total Students:</span>
       <span>${students.length}</span>
@@ -390,13 +741,14 @@ export function exportMarksToPrintableHTML(
         <th>#</th>
         <th>Reg. No.</th>
         <th>Student Name</th>
-        <th>Assignment<br/>(10)</th>
-        <th>Quiz<br/>(15)</th>
-        <th>Project<br/>(25)</th>
-        <th>Midsem<br/>(20)</th>
-        <th>Final<br/>(30)</th>
-        <th>Total<br/>(100)</th>
+        ${components
+          .map(component => isScaledComponent(component)
+            ? `<th>${component.label}<br/>(/${component.maxMarks} &rarr; ${component.weight})</th>`
+            : `<th>${component.label}<br/>(${component.maxMarks})</th>`)
+          .join('')}
+        <th>Total<br/>(${getSchemeMaxTotal(scheme)})</th>
         <th>Grade</th>
+        <th>Attempt</th>
         <th>Status</th>
       </tr>
     </thead>
@@ -405,6 +757,34 @@ export function exportMarksToPrintableHTML(
     </tbody>
   </table>
 
+  <h2 class="section-title">Class Summary</h2>
+  <table class="summary-table">
+    <thead>
+      <tr>
+        <th>Measure</th>
+        <th>Total</th>
+        ${statistics.componentStatistics.map(component => `<th>${component.label} (%)</th>`).join('')}
+      </tr>
+    </thead>
+    <tbody>
+      ${summaryRows}
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Score Distribution</h2>
+  <table class="histogram">
+    <thead>
+      <tr>
+        <th>Total Score</th>
+        <th>Students</th>
+        <th></th>
+      </tr>
+    </thead>
+    <tbody>
+      ${histogramRows}
+    </tbody>
+  </table>
+
   <div class="signature">
     <div class="signature-line">
       ${lecturerName}<br/>
@@ -431,6 +811,484 @@ export function exportMarksToPrintableHTML(
   };
 }
 
+/**
+ * Generate a printable intervention report from an at-risk list
+ * Lists each student with their projected total range and the reasons they
+ * were flagged, ready to hand to student advisors.
+ * 
+ * @param atRisk - Ranked at-risk students
+ * @param students - Students of the course (for names and contact details)
+ * @param courseName - Name of the course
+ * @param lecturerName - Name of the lecturer
+ * @returns HTML export data
+ * 
+ * @example
+ * const htmlData = exportAtRiskToHTML(atRisk, students, 'Data Structures', 'Dr. Smith');
+ * printHTML(htmlData);
+ */
+export function exportAtRiskToHTML(
+  atRisk: AtRiskStudent[],
+  students: Student[],
+  courseName: string,
+  lecturerName: string = 'Lecturer'
+): HTMLExportData {
+  const timestamp = new Date().toLocaleString();
+  const countLevel = (level: AtRiskStudent['level']) => atRisk.filter(entry => entry.level === level).length;
+
+  const studentRows = atRisk
+    .map((entry, index) => {
+      const student = students.find(s => s.id === entry.studentId);
+
+      return `
+        <tr class="${index % 2 === 0 ? 'even-row' : 'odd-row'}">
+          <td>${index + 1}</td>
+          <td>${student?.registrationNumber ?? entry.studentId}</td>
+          <td>${student ? `${student.firstName} ${student.lastName}<br/><small>${student.email}</small>` : 'Unknown student'}</td>
+          <td class="risk-${entry.level}">${describeRiskLevel(entry)}</td>
+          <td>${entry.currentTotal}</td>
+          <td><strong>${entry.projected.expected}</strong><br/><small>${entry.projected.min} – ${entry.projected.max}</small></td>
+          <td><ul>${entry.reasons.map(reason => `<li>${reason.message}</li>`).join('')}</ul></td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${courseName} - Intervention Report</title>
+  <style>
+${REPORT_STYLES}
+
+    td {
+      vertical-align: top;
+    }
+
+    td ul {
+      padding-left: 16px;
+    }
+
+    .risk-high { color: #e74c3c; font-weight: bold; }
+    .risk-medium { color: #e67e22; font-weight: bold; }
+    .risk-low { color: #f39c12; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Early-Warning Intervention Report</h1>
+    <p>${courseName}</p>
+  </div>
+
+  <div class="info-grid">
+    <div><span class="info-label">Lecturer:</span> ${lecturerName}</div>
+    <div><span class="info-label">Students flagged:</span> ${atRisk.length}</div>
+    <div><span class="info-label">Cannot pass:</span> ${countLevel('high')}</div>
+    <div><span class="info-label">Projected to fail:</span> ${countLevel('medium')}</div>
+    <div><span class="info-label">Warning signs only:</span> ${countLevel('low')}</div>
+    <div><span class="info-label">Pass mark:</span> ${atRisk[0]?.passMark ?? 'N/A'}</div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Reg. No.</th>
+        <th>Student</th>
+        <th>Risk</th>
+        <th>Current Total</th>
+        <th>Projected Total<br/>(range)</th>
+        <th>Reasons</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${studentRows || '<tr><td colspan="7">No students are currently at risk.</td></tr>'}
+    </tbody>
+  </table>
+
+  <div class="footer">
+    <p>Online Examination System | SWE 4070 Group Project 2</p>
+    <p>Generated on ${timestamp}</p>
+  </div>
+</body>
+</html>
+  `;
+
+  const timestamp_filename = new Date().toISOString().split('T')[0];
+  const sanitizedCourseName = courseName.replace(/[^a-z0-9]/gi, '_');
+  const filename = `${sanitizedCourseName}_Intervention_Report_${timestamp_filename}.html`;
+
+  return {
+    filename,
+    data: html,
+    mimeType: 'text/html',
+  };
+}
+
+/**
+ * Generate a printable side-by-side comparison of two or more cohorts
+ * Uses the same styling as the marks report. Includes summary statistics,
+ * grade distributions, score histograms, component averages and the
+ * significance tests for every pair of cohorts.
+ * 
+ * @param comparison - Cohort comparison (from compareCohorts)
+ * @param title - Report title (e.g. the unit name)
+ * @param lecturerName - Name of the lecturer
+ * @returns HTML export data
+ * 
+ * @example
+ * const htmlData = exportComparisonToHTML(compareCohorts(cohorts, scheme), 'Data Structures', 'Dr. Smith');
+ * printHTML(htmlData);
+ */
+export function exportComparisonToHTML(
+  comparison: CohortComparison,
+  title: string,
+  lecturerName: string = 'Lecturer'
+): HTMLExportData {
+  const timestamp = new Date().toLocaleString();
+  const cohorts = comparison.cohorts;
+  const labelOf = (id: string) => cohorts.find(cohort => cohort.id === id)?.label ?? id;
+  const cohortHeaders = cohorts.map(cohort => `<th>${cohort.label}</th>`).join('');
+
+  const measures: [string, (statistics: ClassStatistics) => string | number][] = [
+    ['Students', statistics => statistics.totalStudents],
+    ['Graded', statistics => statistics.summary.count],
+    ['Mean', statistics => statistics.averageScore],
+    ['Median', statistics => statistics.summary.median],
+    ['Std. Deviation', statistics => statistics.summary.standardDeviation],
+    ['Min', statistics => statistics.lowestScore],
+    ['Q1', statistics => statistics.summary.q1],
+    ['Q3', statistics => statistics.summary.q3],
+    ['Max', statistics => statistics.highestScore],
+    ['Pass Rate (%)', statistics => statistics.passRate],
+  ];
+  const summaryRows = measures
+    .map(([label, read]) => `
+        <tr>
+          <td><strong>${label}</strong></td>
+          ${cohorts.map(cohort => `<td>${read(cohort.statistics)}</td>`).join('')}
+        </tr>`)
+    .join('');
+
+  // Every grade seen in any cohort, in the order first seen
+  const grades = Array.from(new Set(cohorts.flatMap(cohort => Object.keys(cohort.statistics.gradeDistribution))));
+  const gradeRows = grades
+    .map(grade => `
+        <tr>
+          <td class="grade-${grade.replace('+', 'plus')}">${grade}</td>
+          ${cohorts.map(cohort => `<td>${cohort.statistics.gradeDistribution[grade] ?? 0}</td>`).join('')}
+        </tr>`)
+    .join('');
+
+  // Cohorts share the bin width, so their histograms line up bin by bin
+  const largestBin = Math.max(1, ...cohorts.flatMap(cohort => cohort.statistics.summary.histogram.map(bin => bin.count)));
+  const histogramRows = (cohorts[0]?.statistics.summary.histogram ?? [])
+    .map((bin, i) => `
+        <tr>
+          <td>${bin.min} – ${bin.max}</td>
+          ${cohorts.map(cohort => {
+            const count = cohort.statistics.summary.histogram[i]?.count ?? 0;
+            return `<td>${count}<div class="bar" style="width: ${Math.round((count / largestBin) * 100)}%"></div></td>`;
+          }).join('')}
+        </tr>`)
+    .join('');
+
+  const componentRows = comparison.components
+    .map(component => `
+        <tr>
+          <td><strong>${component.label}</strong></td>
+          ${cohorts.map(cohort => `<td>${component.means[cohort.id] ?? 'N/A'}</td>`).join('')}
+        </tr>`)
+    .join('');
+
+  const pairRows = comparison.pairs
+    .map(pair => `
+        <tr>
+          <td>${labelOf(pair.cohortA)} vs ${labelOf(pair.cohortB)}</td>
+          <td>${pair.meanDifference}</td>
+          <td>${pair.passRateDifference}</td>
+          <td>${describeSignificance(pair.welch)}</td>
+          <td>${describeSignificance(pair.mannWhitney)}</td>
+        </tr>`)
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title} - Cohort Comparison</title>
+  <style>
+${REPORT_STYLES}
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Cohort Comparison Report</h1>
+    <p>${title}</p>
+  </div>
+
+  <div class="info-grid">
+    <div class="info-item">
+      <span class="info-label">Cohorts:</span>
+      <span>${cohorts.map(cohort => cohort.label).join(', ')}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Lecturer:</span>
+      <span>${lecturerName}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Significance Level:</span>
+      <span>${comparison.significanceLevel}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Generated:</span>
+      <span>${timestamp}</span>
+    </div>
+  </div>
+
+  <h2 class="section-title">Summary</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Measure</th>
+        ${cohortHeaders}
+      </tr>
+    </thead>
+    <tbody>
+      ${summaryRows}
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Grade Distribution</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Grade</th>
+        ${cohortHeaders}
+      </tr>
+    </thead>
+    <tbody>
+      ${gradeRows}
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Score Distribution</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Total Score</th>
+        ${cohortHeaders}
+      </tr>
+    </thead>
+    <tbody>
+      ${histogramRows}
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Component Averages (%)</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Component</th>
+        ${cohortHeaders}
+      </tr>
+    </thead>
+    <tbody>
+      ${componentRows}
+    </tbody>
+  </table>
+
+  <h2 class="section-title">Significance Tests (Total Score)</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Cohorts</th>
+        <th>Mean Difference</th>
+        <th>Pass Rate Difference</th>
+        <th>Welch's t-test</th>
+        <th>Mann-Whitney U</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${pairRows || '<tr><td colspan="5">At least two cohorts are needed for a test.</td></tr>'}
+    </tbody>
+  </table>
+
+  <div class="footer">
+    <p>Online Examination System | SWE 4070 Group Project 2</p>
+    <p>Generated on ${timestamp}</p>
+  </div>
+</body>
+</html>
+  `;
+
+  const timestamp_filename = new Date().toISOString().split('T')[0];
+  const sanitizedTitle = title.replace(/[^a-z0-9]/gi, '_');
+  const filename = `${sanitizedTitle}_Cohort_Comparison_${timestamp_filename}.html`;
+
+  return {
+    filename,
+    data: html,
+    mimeType: 'text/html',
+  };
+}
+
+/**
+ * Generate a printable unofficial transcript
+ * Uses the same styling as the marks report: one table per semester with the
+ * semester GPA, cumulative GPA and standing, followed by the overall summary.
+ * 
+ * @param transcript - Transcript (from calculateTranscript)
+ * @param student - Student the transcript belongs to
+ * @param institution - Institution name shown in the header
+ * @returns HTML export data
+ * 
+ * @example
+ * const htmlData = exportTranscriptToHTML(calculateTranscript(student.id, results), student);
+ * printHTML(htmlData);
+ */
+export function exportTranscriptToHTML(
+  transcript: Transcript,
+  student: Pick<Student, 'firstName' | 'lastName' | 'registrationNumber'>,
+  institution: string = 'Online Examination System'
+): HTMLExportData {
+  const timestamp = new Date().toLocaleString();
+  const formatGpa = (gpa: number | null) => gpa === null ? 'N/A' : gpa.toFixed(2);
+
+  // Courses graded under a scale that is not registered are not counted
+  const uncountedCourses = transcript.semesters
+    .flatMap(semester => semester.results)
+    .filter(result => transcript.unknownScaleCourseIds.includes(result.courseId))
+    .map(result => result.courseCode);
+  const uncountedNote = uncountedCourses.length > 0
+    ? `<p class="unofficial">NOT COUNTED (GRADING SCALE NOT REGISTERED): ${Array.from(new Set(uncountedCourses)).join(', ')}</p>`
+    : '';
+
+  const semesterTables = transcript.semesters
+    .map(semester => {
+      const resultRows = semester.results
+        .map((result, index) => `
+        <tr class="${index % 2 === 0 ? 'even-row' : 'odd-row'}">
+          <td>${result.courseCode}</td>
+          <td>${result.courseName}</td>
+          <td>${result.creditUnits}</td>
+          <td>${result.totalScore ?? '-'}</td>
+          ${result.resultStatus
+            ? `<td class="status">${getMarkStatusRule(result.resultStatus, DEFAULT_ASSESSMENT_SCHEME).label}</td>`
+            : `<td class="grade-${result.grade.replace('+', 'plus')}">${result.grade}</td>`}
+        </tr>`)
+        .join('');
+
+      return `
+  <h2 class="section-title">${semester.semester}</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Code</th>
+        <th>Course</th>
+        <th>Credits</th>
+        <th>Score</th>
+        <th>Grade</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${resultRows}
+      <tr>
+        <td colspan="5">
+          <strong>Semester GPA:</strong> ${formatGpa(semester.gpa)} &nbsp;|&nbsp;
+          <strong>Credits Earned:</strong> ${semester.creditsEarned} &nbsp;|&nbsp;
+          <strong>Cumulative GPA:</strong> ${formatGpa(semester.cumulativeGpa)} &nbsp;|&nbsp;
+          <strong>Standing:</strong> <span class="standing-${semester.standing}">${describeStanding(semester.standing)}</span>
+        </td>
+      </tr>
+    </tbody>
+  </table>`;
+    })
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${student.registrationNumber} - Unofficial Transcript</title>
+  <style>
+${REPORT_STYLES}
+
+    .standing-good-standing { color: #2ecc71; font-weight: bold; }
+    .standing-probation { color: #e67e22; font-weight: bold; }
+    .standing-discontinuation { color: #e74c3c; font-weight: bold; }
+
+    .unofficial {
+      text-align: center;
+      color: #e74c3c;
+      font-weight: bold;
+      letter-spacing: 2px;
+      margin-bottom: 20px;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Academic Transcript</h1>
+    <p>${institution}</p>
+  </div>
+
+  <p class="unofficial">UNOFFICIAL TRANSCRIPT</p>
+  ${uncountedNote}
+
+  <div class="info-grid">
+    <div class="info-item">
+      <span class="info-label">Student:</span>
+      <span>${student.firstName} ${student.lastName}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Reg. No.:</span>
+      <span>${student.registrationNumber}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Credits Earned:</span>
+      <span>${transcript.creditsEarned}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Cumulative GPA:</span>
+      <span>${formatGpa(transcript.cumulativeGpa)}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Academic Standing:</span>
+      <span class="standing-${transcript.standing}">${describeStanding(transcript.standing)}</span>
+    </div>
+    <div class="info-item">
+      <span class="info-label">Generated:</span>
+      <span>${timestamp}</span>
+    </div>
+  </div>
+${semesterTables || '<p>No results recorded.</p>'}
+
+  <div class="footer">
+    <p>${institution} | This transcript is unofficial and not valid without the registrar's seal</p>
+    <p>Generated on ${timestamp}</p>
+  </div>
+</body>
+</html>
+  `;
+
+  const timestamp_filename = new Date().toISOString().split('T')[0];
+  const sanitizedRegistration = student.registrationNumber.replace(/[^a-z0-9]/gi, '_');
+  const filename = `${sanitizedRegistration}_Transcript_${timestamp_filename}.html`;
+
+  return {
+    filename,
+    data: html,
+    mimeType: 'text/html',
+  };
+}
+
 // ============================================
 // DOWNLOAD UTILITIES
 // ============================================
@@ -0,0 +1,238 @@
+/**
+ * Lecturer Module - Grading Scale Registry
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file keeps track of the grading scales a course can be graded under.
+ * Scales are stored per version so published results can always be re-read
+ * with the exact boundaries they were graded under.
+ */
+
+import type {
+  AssessmentScheme,
+  GradeBoundary,
+  GradingScale,
+  GradingScaleRef,
+  StudentMarks,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationResult,
+} from '../types';
+import { BUILT_IN_GRADING_SCALES, DEFAULT_GRADING_SCALE, MAX_TOTAL_MARKS } from '../types';
+import { createValidationError } from './messages';
+
+// ============================================
+// SCALE VALIDATION
+// ============================================
+
+/**
+ * Message parameters describing two neighbouring boundaries
+ */
+function boundaryParams(boundary: GradeBoundary, lower: GradeBoundary): ValidationErrorParams {
+  return {
+    grade: boundary.grade,
+    min: boundary.minScore,
+    lowerGrade: lower.grade,
+    lowerMax: lower.maxScore,
+  };
+}
+
+/**
+ * Validate a grading scale definition
+ * Requirements:
+ * - Unique, non-empty grade labels with whole-number boundaries
+ * - Boundaries sorted from highest to lowest
+ * - Boundaries contiguous from 0 to MAX_TOTAL_MARKS (no gaps, no overlaps)
+ * - Pass mark equal to the minimum score of one of the boundaries
+ *
+ * @param scale - Grading scale to check
+ * @returns Validation result
+ */
+export function validateGradingScale(scale: GradingScale): ValidationResult {
+  const errors: ValidationError[] = [];
+  const addError = (field: string, code: ValidationErrorCode, params?: ValidationErrorParams) =>
+    errors.push(createValidationError(field, code, params));
+
+  if (!scale.id) {
+    addError('id', 'SCALE_ID_REQUIRED');
+  }
+
+  if (!Number.isInteger(scale.version) || scale.version < 1) {
+    addError('version', 'SCALE_VERSION_INVALID');
+  }
+
+  if (!Array.isArray(scale.boundaries) || scale.boundaries.length === 0) {
+    addError('boundaries', 'SCALE_BOUNDARIES_REQUIRED');
+    return { isValid: false, errors, warnings: [] };
+  }
+
+  const seenGrades = new Set<string>();
+
+  scale.boundaries.forEach((boundary, index) => {
+    const field = `boundaries[${index}]`;
+
+    if (!boundary.grade) {
+      addError(`${field}.grade`, 'GRADE_REQUIRED');
+    } else if (seenGrades.has(boundary.grade)) {
+      addError(`${field}.grade`, 'GRADE_DUPLICATE', { grade: boundary.grade });
+    } else {
+      seenGrades.add(boundary.grade);
+    }
+
+    if (!Number.isInteger(boundary.minScore) || !Number.isInteger(boundary.maxScore)) {
+      addError(field, 'BOUNDARY_NOT_WHOLE', { grade: boundary.grade });
+    } else if (boundary.minScore > boundary.maxScore) {
+      addError(field, 'BOUNDARY_MIN_EXCEEDS_MAX', { grade: boundary.grade });
+    }
+
+    // Each boundary must start exactly one mark above the next (lower) one
+    const lower = scale.boundaries[index + 1];
+    if (lower) {
+      if (lower.minScore >= boundary.minScore) {
+        addError('boundaries', 'BOUNDARIES_UNSORTED', { grade: boundary.grade, lowerGrade: lower.grade });
+      } else if (lower.maxScore + 1 < boundary.minScore) {
+        addError('boundaries', 'BOUNDARY_GAP', boundaryParams(boundary, lower));
+      } else if (lower.maxScore + 1 > boundary.minScore) {
+        addError('boundaries', 'BOUNDARY_OVERLAP', boundaryParams(boundary, lower));
+      }
+    }
+  });
+
+  const highest = scale.boundaries[0];
+  const lowest = scale.boundaries[scale.boundaries.length - 1];
+
+  if (highest.maxScore !== MAX_TOTAL_MARKS) {
+    addError('boundaries', 'BOUNDARY_TOP_INVALID', { max: MAX_TOTAL_MARKS });
+  }
+
+  if (lowest.minScore !== 0) {
+    addError('boundaries', 'BOUNDARY_BOTTOM_INVALID');
+  }
+
+  if (!scale.boundaries.some(boundary => boundary.minScore === scale.passMark)) {
+    addError('passMark', 'PASS_MARK_INVALID', { passMark: scale.passMark });
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] };
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/**
+ * Registered scales, keyed by scale ID then version
+ */
+const registry = new Map<string, Map<number, GradingScale>>();
+
+BUILT_IN_GRADING_SCALES.forEach(scale => registerGradingScale(scale));
+
+/**
+ * Register a grading scale version
+ * Registered versions are never replaced, since stored results keep pointing at
+ * them: changing a scale means registering it under a new version.
+ * Scales that fail validateGradingScale are not registered.
+ *
+ * @param scale - Grading scale to register
+ * @returns Validation result of the scale (SCALE_VERSION_EXISTS if the id + version is taken)
+ *
+ * @example
+ * const result = registerGradingScale({ ...KENYAN_GRADING_SCALE, version: 2, passMark: 50 });
+ * if (!result.isValid) console.log(result.errors);
+ */
+export function registerGradingScale(scale: GradingScale): ValidationResult {
+  const validation = validateGradingScale(scale);
+  if (!validation.isValid) return validation;
+
+  const versions = registry.get(scale.id) ?? new Map<number, GradingScale>();
+
+  if (versions.has(scale.version)) {
+    return {
+      isValid: false,
+      errors: [createValidationError('version', 'SCALE_VERSION_EXISTS', { id: scale.id, version: scale.version })],
+      warnings: [],
+    };
+  }
+
+  versions.set(scale.version, scale);
+  registry.set(scale.id, versions);
+  return validation;
+}
+
+/**
+ * Look up a grading scale
+ *
+ * @param id - Scale ID
+ * @param version - Scale version (latest registered version when omitted)
+ * @returns Grading scale or undefined if not registered
+ */
+export function getGradingScale(id: string, version?: number): GradingScale | undefined {
+  const versions = registry.get(id);
+  if (!versions || versions.size === 0) return undefined;
+
+  if (version !== undefined) {
+    return versions.get(version);
+  }
+
+  const latest = Math.max(...versions.keys());
+  return versions.get(latest);
+}
+
+/**
+ * List the latest version of every registered scale
+ * Useful for a course settings "grading scale" dropdown
+ */
+export function listGradingScales(): GradingScale[] {
+  return Array.from(registry.keys())
+    .map(id => getGradingScale(id))
+    .filter((scale): scale is GradingScale => scale !== undefined);
+}
+
+/**
+ * Resolve a scale reference
+ * Only a missing reference falls back; a reference to an unregistered scale or
+ * version resolves to undefined, so nothing is regraded under the wrong scale.
+ *
+ * @param ref - Scale reference (e.g. AssessmentScheme.gradingScale)
+ * @param fallback - Scale to use when there is no reference (default: DEFAULT_GRADING_SCALE)
+ * @returns Resolved grading scale, or undefined if ref is not registered
+ */
+export function resolveGradingScale(
+  ref?: GradingScaleRef,
+  fallback: GradingScale = DEFAULT_GRADING_SCALE
+): GradingScale | undefined {
+  if (!ref) return fallback;
+
+  return getGradingScale(ref.id, ref.version);
+}
+
+/**
+ * Get the scale an assessment scheme grades under
+ * Schemes naming an unregistered scale are rejected by validateAssessmentScheme
+ * (GRADING_SCALE_NOT_FOUND), which useAssessmentScheme runs on every fetched
+ * scheme; calculations on a scheme that skipped that check use DEFAULT_GRADING_SCALE.
+ *
+ * @param scheme - Assessment scheme
+ * @returns Grading scale of the scheme
+ */
+export function getSchemeGradingScale(scheme: Pick<AssessmentScheme, 'gradingScale'>): GradingScale {
+  return resolveGradingScale(scheme.gradingScale) ?? DEFAULT_GRADING_SCALE;
+}
+
+/**
+ * Get the scale a marks record was graded under
+ * Records without scale information use the fallback scale; records naming a
+ * scale or version that is not registered get undefined.
+ *
+ * @param marks - Student marks record
+ * @param fallback - Scale to use when the record has none (default: DEFAULT_GRADING_SCALE)
+ * @returns Grading scale for the record, or undefined if its scale is not registered
+ */
+export function getGradingScaleForMarks(
+  marks: Pick<StudentMarks, 'gradingScaleId' | 'gradingScaleVersion'>,
+  fallback: GradingScale = DEFAULT_GRADING_SCALE
+): GradingScale | undefined {
+  if (!marks.gradingScaleId) return fallback;
+
+  return resolveGradingScale({ id: marks.gradingScaleId, version: marks.gradingScaleVersion });
+}
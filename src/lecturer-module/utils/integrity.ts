@@ -0,0 +1,235 @@
+/**
+ * Lecturer Module - Marks Integrity Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file scans a class's marks before submission for records that are
+ * wrong (stored total or grade disagrees with the calculation) or suspicious
+ * (identical scores across many students, a very high final after a low midsem,
+ * all-zero rows, totals that rounding pushes across a grade boundary).
+ */
+
+import type {
+  AssessmentScheme,
+  IntegrityFinding,
+  IntegrityReport,
+  IntegritySeverity,
+  IntegrityThresholds,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, DEFAULT_INTEGRITY_THRESHOLDS } from '../types';
+import { getComponent, getOrderedComponents } from './assessment';
+import { getGradingScaleForMarks, getSchemeGradingScale } from './grading';
+import { calculatePercentage, calculateResult, isResultWithheld } from './marks';
+import { getRoundingPolicy, roundScore } from './rounding';
+
+// Report order, most serious first
+const SEVERITY_ORDER: IntegritySeverity[] = ['error', 'warning', 'info'];
+
+// ============================================
+// RECORD CHECKS
+// ============================================
+
+/**
+ * Check that the stored total and grade match a fresh calculation
+ * The grade is recalculated under the scale the record was graded under. If that
+ * scale is not registered the grade cannot be checked, so an
+ * 'unknown-grading-scale' error is reported and only the total is compared.
+ *
+ * @param marks - Marks record as stored by the backend
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Mismatch findings (empty if the record is consistent)
+ */
+export function checkCalculation(
+  marks: StudentMarks,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): IntegrityFinding[] {
+  const scaleKnown = Boolean(getGradingScaleForMarks(marks, getSchemeGradingScale(scheme)));
+  const recordScheme = marks.gradingScaleId && scaleKnown
+    ? { ...scheme, gradingScale: { id: marks.gradingScaleId, version: marks.gradingScaleVersion } }
+    : scheme;
+  const expected = calculateResult(marks, recordScheme);
+  const stored = roundScore(marks.totalScore, getRoundingPolicy(scheme));
+  const findings: IntegrityFinding[] = [];
+
+  if (!scaleKnown) {
+    const version = marks.gradingScaleVersion ?? 'latest';
+    findings.push({
+      code: 'unknown-grading-scale',
+      severity: 'error',
+      studentIds: [marks.studentId],
+      marksIds: [marks.id],
+      message: `Graded under grading scale ${marks.gradingScaleId} (version ${version}), which is not registered`,
+      actual: marks.gradingScaleId,
+    });
+  }
+
+  if (stored !== expected.totalScore) {
+    findings.push({
+      code: 'total-mismatch',
+      severity: 'error',
+      studentIds: [marks.studentId],
+      marksIds: [marks.id],
+      message: `Stored total ${marks.totalScore} does not match the calculated total ${expected.totalScore}`,
+      expected: expected.totalScore,
+      actual: marks.totalScore,
+    });
+  }
+
+  if (scaleKnown && marks.grade !== expected.grade) {
+    findings.push({
+      code: 'grade-mismatch',
+      severity: 'error',
+      studentIds: [marks.studentId],
+      marksIds: [marks.id],
+      message: `Stored grade ${marks.grade} does not match the calculated grade ${expected.grade}`,
+      expected: expected.grade,
+      actual: marks.grade,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Check one record for suspicious scores
+ * Flags all-zero rows, a very high final exam after a low midsem, and totals
+ * within rounding distance of a grade boundary (withheld results excepted).
+ *
+ * @param marks - Marks record
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param thresholds - Scan thresholds (default: DEFAULT_INTEGRITY_THRESHOLDS)
+ * @returns Findings for the record
+ */
+export function checkSuspiciousScores(
+  marks: StudentMarks,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  thresholds: IntegrityThresholds = DEFAULT_INTEGRITY_THRESHOLDS
+): IntegrityFinding[] {
+  const findings: IntegrityFinding[] = [];
+  const scored = getOrderedComponents(scheme)
+    .filter(component => !marks.statuses?.[component.key] && typeof marks.scores[component.key] === 'number');
+
+  const finding = (
+    code: IntegrityFinding['code'],
+    severity: IntegritySeverity,
+    message: string
+  ): IntegrityFinding => ({ code, severity, studentIds: [marks.studentId], marksIds: [marks.id], message });
+
+  if (scored.length > 0 && scored.every(component => marks.scores[component.key] === 0)) {
+    findings.push(finding('all-zero', 'warning', 'Every component is scored 0 (check whether the student sat the course)'));
+  }
+
+  const midsem = getComponent(thresholds.midsemComponent, scheme);
+  const final = getComponent(thresholds.finalComponent, scheme);
+  const isScored = (key: string) => scored.some(component => component.key === key);
+
+  if (midsem && final && isScored(midsem.key) && isScored(final.key)) {
+    const midsemPercentage = calculatePercentage(marks.scores[midsem.key], midsem.maxMarks);
+    const finalPercentage = calculatePercentage(marks.scores[final.key], final.maxMarks);
+
+    if (midsemPercentage < thresholds.spikeMidsemBelowPercentage && finalPercentage >= thresholds.spikeFinalAbovePercentage) {
+      findings.push(finding(
+        'score-spike',
+        'warning',
+        `${final.label} ${finalPercentage}% after ${midsem.label} ${midsemPercentage}%`
+      ));
+    }
+  }
+
+  if (!isResultWithheld(marks) && thresholds.boundaryDistance > 0) {
+    const scale = getGradingScaleForMarks(marks, getSchemeGradingScale(scheme));
+    const boundary = scale?.boundaries.find(b =>
+      b.minScore > 0 &&
+      marks.totalScore !== b.minScore &&
+      Math.abs(marks.totalScore - b.minScore) <= thresholds.boundaryDistance
+    );
+
+    if (boundary) {
+      findings.push(finding(
+        'near-boundary',
+        'info',
+        `Total ${marks.totalScore} is within ${thresholds.boundaryDistance} of the ${boundary.grade} boundary (${boundary.minScore}); rounding decides the grade`
+      ));
+    }
+  }
+
+  return findings;
+}
+
+// ============================================
+// CLASS SCAN
+// ============================================
+
+/**
+ * Find groups of students with identical component scores
+ * All-zero rows are left to the all-zero check.
+ *
+ * @param marksArray - Marks for the course
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param minGroup - Smallest group that is flagged (default: DEFAULT_INTEGRITY_THRESHOLDS.minDuplicateGroup)
+ * @returns One finding per group
+ */
+export function findDuplicateScores(
+  marksArray: StudentMarks[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  minGroup: number = DEFAULT_INTEGRITY_THRESHOLDS.minDuplicateGroup
+): IntegrityFinding[] {
+  const components = getOrderedComponents(scheme);
+  const groups = new Map<string, StudentMarks[]>();
+
+  marksArray.forEach(marks => {
+    const values = components.map(component => marks.statuses?.[component.key] ?? marks.scores[component.key]);
+    if (values.some(value => value === undefined) || values.every(value => value === 0)) return;
+
+    const key = values.join('|');
+    groups.set(key, [...(groups.get(key) ?? []), marks]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length >= minGroup)
+    .map(group => ({
+      code: 'duplicate-scores',
+      severity: 'warning',
+      studentIds: group.map(marks => marks.studentId),
+      marksIds: group.map(marks => marks.id),
+      message: `${group.length} students have identical scores (${components.map(c => `${c.label} ${group[0].statuses?.[c.key] ?? group[0].scores[c.key]}`).join(', ')})`,
+    }));
+}
+
+/**
+ * Scan a class's marks for integrity problems before submission
+ *
+ * @param marksArray - Marks for the course
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param thresholds - Scan thresholds (default: DEFAULT_INTEGRITY_THRESHOLDS)
+ * @returns Findings sorted by severity, with counts per severity
+ *
+ * @example
+ * const report = scanMarksIntegrity(courseMarks, scheme);
+ * if (!report.canSubmit) {
+ *   report.findings.filter(f => f.severity === 'error').forEach(f => console.log(f.message));
+ * }
+ */
+export function scanMarksIntegrity(
+  marksArray: StudentMarks[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  thresholds: IntegrityThresholds = DEFAULT_INTEGRITY_THRESHOLDS
+): IntegrityReport {
+  const findings = [
+    ...marksArray.flatMap(marks => checkCalculation(marks, scheme)),
+    ...findDuplicateScores(marksArray, scheme, thresholds.minDuplicateGroup),
+    ...marksArray.flatMap(marks => checkSuspiciousScores(marks, scheme, thresholds)),
+  ].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  const counts = { error: 0, warning: 0, info: 0 };
+  findings.forEach(finding => {
+    counts[finding.severity] += 1;
+  });
+
+  return {
+    checkedRecords: marksArray.length,
+    findings,
+    counts,
+    canSubmit: counts.error === 0,
+  };
+}
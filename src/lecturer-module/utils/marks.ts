@@ -10,21 +10,125 @@ import type {
   Grade,
   GradeBoundary,
   AssessmentMarks,
+  AssessmentComponent,
+  AssessmentScheme,
+  ComponentScore,
+  ComponentStatuses,
   StudentMarks,
   MarksInput,
+  MarksResult,
+  ResitCap,
+  RequiredScore,
+  RequiredScoreReport,
+  ClassPassOutlook,
   GradeDistribution,
+  GradingScale,
+  RoundingPolicy,
+  ClassStatistics,
 } from '../types';
-import { GRADE_BOUNDARIES, MAX_TOTAL_MARKS, MIN_PASSING_SCORE } from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_GRADING_SCALE,
+  DEFAULT_HISTOGRAM_BIN_WIDTH,
+  DEFAULT_ROUNDING_POLICY,
+  MAX_TOTAL_MARKS,
+} from '../types';
+import {
+  getComponent,
+  getEffectiveScheme,
+  getMarkStatusRule,
+  getOrderedComponents,
+  getResitPolicy,
+  getResultStatus,
+} from './assessment';
+import { getGradingScaleForMarks, getSchemeGradingScale } from './grading';
+import { getRoundingPolicy, roundScore, roundScoreForGrading } from './rounding';
+import { calculateComponentStatistics, calculateDescriptiveStatistics } from './statistics';
 
 // ============================================
 // TOTAL SCORE CALCULATION
 // ============================================
 
+/**
+ * Scale a raw component score to its weighted contribution
+ * 
+ * @param rawScore - Score as entered (out of component.maxMarks)
+ * @param component - Assessment component
+ * @returns Weighted contribution (out of component.weight), unrounded
+ * 
+ * @example
+ * // Quiz marked out of 40, worth 15
+ * calculateWeightedScore(32, { key: 'quiz', label: 'Quiz', maxMarks: 40, weight: 15, order: 2 })
+ * // Returns 12
+ */
+export function calculateWeightedScore(rawScore: number, component: AssessmentComponent): number {
+  if (component.maxMarks === 0) return 0;
+
+  return (rawScore / component.maxMarks) * component.weight;
+}
+
+/**
+ * Break marks down into raw score and weighted contribution per component
+ * Components are returned in scheme order; missing scores count as 0.
+ * Components with a status contribute nothing and carry the status instead;
+ * re-weighted (exempt) components have a weight of 0 and the others are scaled up.
+ * 
+ * @param marks - Individual assessment marks (keyed by component)
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param statuses - Component statuses (default: none)
+ * @returns Per-component breakdown (weighted scores rounded with the scheme's rounding policy)
+ */
+export function calculateComponentBreakdown(
+  marks: AssessmentMarks,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  statuses: ComponentStatuses = {}
+): ComponentScore[] {
+  const rounding = getRoundingPolicy(scheme);
+  const effective = getEffectiveScheme(scheme, statuses);
+
+  return getOrderedComponents(scheme).map(component => {
+    const weighted = effective.components.find(c => c.key === component.key);
+    const weight = weighted?.weight ?? 0;
+    const status = statuses[component.key];
+
+    if (status) {
+      return {
+        key: component.key,
+        label: component.label,
+        rawScore: 0,
+        maxMarks: component.maxMarks,
+        weight: roundScore(weight, rounding),
+        weightedScore: 0,
+        status,
+      };
+    }
+
+    const rawScore = marks[component.key] ?? 0;
+    const weightedScore = weighted ? calculateWeightedScore(rawScore, weighted) : 0;
+
+    return {
+      key: component.key,
+      label: component.label,
+      rawScore,
+      maxMarks: component.maxMarks,
+      weight: roundScore(weight, rounding),
+      weightedScore: roundScore(weightedScore, rounding),
+    };
+  });
+}
+
 /**
  * Calculate total score from individual assessment marks
+ * Each raw score is scaled to its component weight before summing.
+ * Only components defined by the scheme are counted; missing scores count as 0.
+ * Re-weighted (exempt) components are left out and the others scaled up to
+ * MAX_TOTAL_MARKS; any other status contributes 0 to the total.
  * 
- * @param marks - Individual assessment marks
- * @returns Total score (sum of all components)
+ * @param marks - Individual assessment marks (keyed by component)
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param statuses - Component statuses (default: none)
+ * @returns Total score (sum of weighted contributions, out of MAX_TOTAL_MARKS),
+ *          rounded with the scheme's rounding policy
  * 
  * @example
  * calculateTotalScore({
@@ -35,16 +139,22 @@ import { GRADE_BOUNDARIES, MAX_TOTAL_MARKS, MIN_PASSING_SCORE } from '../types';
  *   finalExam: 25
  * }) // Returns 83
  */
-export function calculateTotalScore(marks: AssessmentMarks): number {
-  const total = 
-    marks.assignment +
-    marks.quiz +
-    marks.project +
-    marks.midsem +
-    marks.finalExam;
-
-  // Round to 2 decimal places
-  return Math.round(total * 100) / 100;
+export function calculateTotalScore(
+  marks: AssessmentMarks,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  statuses: ComponentStatuses = {}
+): number {
+  const effective = getEffectiveScheme(scheme, statuses);
+
+  const total = effective.components.reduce(
+    (sum, component) => statuses[component.key]
+      ? sum
+      : sum + calculateWeightedScore(marks[component.key] ?? 0, component),
+    0
+  );
+
+  // Round to the policy's decimal places (2 by default)
+  return roundScore(total, getRoundingPolicy(scheme));
 }
 
 // ============================================
@@ -53,9 +163,11 @@ export function calculateTotalScore(marks: AssessmentMarks): number {
 
 /**
  * Calculate grade based on total score
- * Uses the exact grading system from requirements
+ * Uses the boundaries of the given grading scale. The total is first rounded
+ * to a whole score with the rounding policy, so fractional totals such as 89.5
+ * always resolve to a boundary instead of falling through.
  * 
- * Grade Scale:
+ * Default Scale (DEFAULT_GRADING_SCALE):
  * A:     90 – 100
  * A-:    87 – 89
  * B+:    84 – 86
@@ -69,80 +181,352 @@ export function calculateTotalScore(marks: AssessmentMarks): number {
  * D-:    60 – 61
  * F:     0 – 59
  * 
+ * When a resit cap is given (supplementary exams), the grade cannot exceed it.
+ * 
  * @param totalScore - Total score (0-100)
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
+ * @param rounding - Rounding policy (default: DEFAULT_ROUNDING_POLICY)
+ * @param cap - Resit cap (default: none)
  * @returns Calculated grade
  * 
  * @example
  * calculateGrade(85) // Returns 'B+'
  * calculateGrade(90) // Returns 'A'
+ * calculateGrade(89.5) // Returns 'A' (half-up)
  * calculateGrade(50) // Returns 'F'
+ * calculateGrade(65, KENYAN_GRADING_SCALE) // Returns 'B'
+ * calculateGrade(85, DEFAULT_GRADING_SCALE, DEFAULT_ROUNDING_POLICY, { type: 'grade', grade: 'C' }) // Returns 'C'
  */
-export function calculateGrade(totalScore: number): Grade {
-  // Ensure score is within valid range
-  const score = Math.max(0, Math.min(MAX_TOTAL_MARKS, totalScore));
+export function calculateGrade(
+  totalScore: number,
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+  rounding: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  cap: ResitCap = { type: 'none' }
+): Grade {
+  // Ensure score is within valid range, then resolve it to a whole score
+  const clamped = Math.max(0, Math.min(MAX_TOTAL_MARKS, totalScore));
+  const score = Math.min(
+    roundScoreForGrading(clamped, rounding, scale),
+    getResitCapScore(cap, scale)
+  );
 
   // Find matching grade boundary
-  for (const boundary of GRADE_BOUNDARIES) {
+  for (const boundary of scale.boundaries) {
     if (score >= boundary.minScore && score <= boundary.maxScore) {
       return boundary.grade;
     }
   }
 
-  // Fallback to F (should never reach here if GRADE_BOUNDARIES is correct)
-  return 'F';
+  // Fallback to the lowest grade (should never reach here if the boundaries are correct)
+  return scale.boundaries[scale.boundaries.length - 1].grade;
+}
+
+/**
+ * Get the highest total a capped resit result can be recorded with
+ * 
+ * @param cap - Resit cap
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
+ * @returns Minimum score of the cap grade, the scale's pass mark, or
+ *          MAX_TOTAL_MARKS when uncapped (or the cap grade is not on the scale)
+ * 
+ * @example
+ * getResitCapScore({ type: 'pass-mark' }) // Returns 60
+ * getResitCapScore({ type: 'grade', grade: 'C' }) // Returns 70
+ */
+export function getResitCapScore(
+  cap: ResitCap,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): number {
+  switch (cap.type) {
+    case 'pass-mark':
+      return scale.passMark;
+    case 'grade':
+      return getGradeBoundary(cap.grade, scale)?.minScore ?? MAX_TOTAL_MARKS;
+    case 'none':
+    default:
+      return MAX_TOTAL_MARKS;
+  }
 }
 
 /**
  * Get grade boundary for a specific grade
  * 
  * @param grade - Grade to look up
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
  * @returns Grade boundary or undefined if not found
  */
-export function getGradeBoundary(grade: Grade): GradeBoundary | undefined {
-  return GRADE_BOUNDARIES.find(b => b.grade === grade);
+export function getGradeBoundary(
+  grade: Grade,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): GradeBoundary | undefined {
+  return scale.boundaries.find(b => b.grade === grade);
 }
 
 /**
- * Check if a grade is passing (D- or better)
+ * Check if a grade is passing (its boundary starts at or above the scale's pass mark)
  * 
  * @param grade - Grade to check
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
  * @returns True if passing, false otherwise
  */
-export function isPassingGrade(grade: Grade): boolean {
-  return grade !== 'F';
+export function isPassingGrade(
+  grade: Grade,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): boolean {
+  const boundary = getGradeBoundary(grade, scale);
+
+  return boundary !== undefined && boundary.minScore >= scale.passMark;
 }
 
 /**
- * Check if a score is passing (>= 60)
+ * Check if a score is passing (>= the scale's pass mark, 60 by default)
  * 
  * @param score - Total score to check
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
  * @returns True if passing, false otherwise
  */
-export function isPassingScore(score: number): boolean {
-  return score >= MIN_PASSING_SCORE;
+export function isPassingScore(
+  score: number,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): boolean {
+  return score >= scale.passMark;
+}
+
+// ============================================
+// REQUIRED SCORES
+// ============================================
+
+/**
+ * Calculate the minimum score a student needs in a remaining component
+ * (the final exam by default) to reach every grade of the course's scale
+ * Scores in the other components are taken as final; any score or status
+ * already entered for the remaining component is ignored. The search runs in
+ * steps of 0.01 raw marks and uses the scheme's rounding policy, so a total that
+ * rounds up into a grade counts as reaching it.
+ * 
+ * @param marks - Scores (and statuses) of the other components
+ * @param componentKey - Component still to be sat (default: 'finalExam')
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Requirement per grade (highest first), or null if the scheme has no such component
+ * 
+ * @example
+ * calculateRequiredScores({ scores: { assignment: 8, quiz: 12, project: 20, midsem: 18 } })
+ * // currentTotal: 58, maxPossibleTotal: 88
+ * // requirements: [
+ * //   { grade: 'A', requiredRaw: null, status: 'unreachable' },
+ * //   { grade: 'A-', requiredRaw: 28.5, status: 'achievable' },  // 86.5 rounds up to 87
+ * //   ...
+ * //   { grade: 'D-', requiredRaw: 1.5, status: 'achievable' },
+ * //   { grade: 'F', requiredRaw: 0, status: 'guaranteed' }
+ * // ]
+ */
+export function calculateRequiredScores(
+  marks: Pick<MarksInput, 'scores' | 'statuses'> & { studentId?: string },
+  componentKey: string = 'finalExam',
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): RequiredScoreReport | null {
+  const component = getComponent(componentKey, scheme);
+  if (!component) return null;
+
+  const scale = getSchemeGradingScale(scheme);
+  const rounding = getRoundingPolicy(scheme);
+
+  const statuses = { ...(marks.statuses ?? {}) };
+  delete statuses[componentKey];
+
+  const effective = getEffectiveScheme(scheme, statuses).components.find(c => c.key === componentKey);
+
+  const totalFor = (raw: number) =>
+    calculateTotalScore({ ...marks.scores, [componentKey]: raw }, scheme, statuses);
+  const reaches = (raw: number, minScore: number) =>
+    (getGradeBoundary(calculateGrade(totalFor(raw), scale, rounding), scale)?.minScore ?? 0) >= minScore;
+
+  // Raw scores are searched in hundredths (the precision validateMark allows)
+  const maxSteps = Math.round(component.maxMarks * 100);
+
+  const requirements: RequiredScore[] = scale.boundaries.map(boundary => {
+    if (reaches(0, boundary.minScore)) {
+      return { grade: boundary.grade, requiredRaw: 0, requiredWeighted: 0, status: 'guaranteed' };
+    }
+
+    if (!reaches(component.maxMarks, boundary.minScore)) {
+      return { grade: boundary.grade, requiredRaw: null, requiredWeighted: null, status: 'unreachable' };
+    }
+
+    // Grades only go up as the score goes up, so binary search for the lowest step
+    let low = 0;
+    let high = maxSteps;
+
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (reaches(mid / 100, boundary.minScore)) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+
+    const requiredRaw = high / 100;
+
+    return {
+      grade: boundary.grade,
+      requiredRaw,
+      requiredWeighted: effective ? roundScore(calculateWeightedScore(requiredRaw, effective), rounding) : 0,
+      status: 'achievable',
+    };
+  });
+
+  return {
+    studentId: marks.studentId,
+    componentKey,
+    maxMarks: component.maxMarks,
+    currentTotal: totalFor(0),
+    maxPossibleTotal: totalFor(component.maxMarks),
+    requirements,
+  };
+}
+
+/**
+ * Get the requirement for the lowest passing grade from a report
+ * 
+ * @param report - Required score report
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
+ * @returns Requirement to pass, or undefined if the scale has no passing grade
+ */
+export function getRequiredScoreToPass(
+  report: RequiredScoreReport,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): RequiredScore | undefined {
+  const passGrade = scale.boundaries.find(boundary => boundary.minScore === scale.passMark);
+
+  return report.requirements.find(requirement => requirement.grade === passGrade?.grade);
+}
+
+/**
+ * Summarise how many students in a class can still pass before the remaining
+ * component is sat
+ * 
+ * @param marksArray - Current marks of the class
+ * @param componentKey - Component still to be sat (default: 'finalExam')
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Counts of students whose pass is guaranteed, achievable or unreachable
+ * 
+ * @example
+ * const outlook = calculateClassPassOutlook(classMarks);
+ * console.log(`${outlook.canStillPass} students can still pass`);
+ */
+export function calculateClassPassOutlook(
+  marksArray: Pick<MarksInput, 'studentId' | 'scores' | 'statuses'>[],
+  componentKey: string = 'finalExam',
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): ClassPassOutlook {
+  const scale = getSchemeGradingScale(scheme);
+  const reports = marksArray
+    .map(marks => calculateRequiredScores(marks, componentKey, scheme))
+    .filter((report): report is RequiredScoreReport => report !== null);
+
+  const countStatus = (status: RequiredScore['status']) =>
+    reports.filter(report => getRequiredScoreToPass(report, scale)?.status === status).length;
+
+  return {
+    componentKey,
+    totalStudents: reports.length,
+    alreadyPassed: countStatus('guaranteed'),
+    canStillPass: countStatus('achievable'),
+    cannotPass: countStatus('unreachable'),
+    reports,
+  };
 }
 
 // ============================================
 // MARKS PROCESSING
 // ============================================
 
+/**
+ * Calculate the total and grade for a set of marks
+ * If a supplementary (resit) score is given, it replaces the score of the
+ * scheme's resit component (clearing any status on it). The resulting total and
+ * grade are capped by the resit policy; the uncapped total and grade are kept.
+ * 
+ * @param input - Scores, statuses and optional resit attempt
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Total, grade and the attempt they are based on
+ * 
+ * @example
+ * // Failed with 55, scored 28/30 in the resit: 78 capped at the pass mark
+ * calculateResult({
+ *   scores: { assignment: 8, quiz: 12, project: 20, midsem: 10, finalExam: 5 },
+ *   resit: { score: 28 }
+ * })
+ * // Returns { totalScore: 60, grade: 'D-', attemptUsed: 'resit', uncappedScore: 78, uncappedGrade: 'B-' }
+ */
+export function calculateResult(
+  input: Pick<MarksInput, 'scores' | 'statuses' | 'resit'>,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): MarksResult {
+  const scale = getSchemeGradingScale(scheme);
+  const rounding = getRoundingPolicy(scheme);
+  const policy = getResitPolicy(scheme);
+  const resit = input.resit;
+  const resitComponent = resit ? getComponent(policy.component, scheme) : undefined;
+
+  let scores = input.scores;
+  let statuses = input.statuses ?? {};
+
+  if (resit && resitComponent) {
+    scores = { ...scores, [resitComponent.key]: resit.score };
+    statuses = { ...statuses };
+    delete statuses[resitComponent.key];
+  }
+
+  const totalScore = calculateTotalScore(scores, scheme, statuses);
+  const resultStatus = getResultStatus(statuses, scheme);
+
+  if (resultStatus) {
+    return {
+      totalScore,
+      grade: getMarkStatusRule(resultStatus, scheme).resultCode ?? resultStatus,
+      resultStatus,
+      attemptUsed: resitComponent ? 'resit' : 'original',
+    };
+  }
+
+  if (!resitComponent) {
+    return {
+      totalScore,
+      grade: calculateGrade(totalScore, scale, rounding),
+      attemptUsed: 'original',
+    };
+  }
+
+  return {
+    totalScore: Math.min(totalScore, getResitCapScore(policy.cap, scale)),
+    grade: calculateGrade(totalScore, scale, rounding, policy.cap),
+    attemptUsed: 'resit',
+    uncappedScore: totalScore,
+    uncappedGrade: calculateGrade(totalScore, scale, rounding),
+  };
+}
+
 /**
  * Process marks input and calculate total score and grade
  * Converts MarksInput to complete StudentMarks
+ * The grade is calculated under the scheme's grading scale and rounding policy,
+ * and the scale's id and version are recorded on the result.
+ * If a component status withholds the result (e.g. 'INC'), the grade is the
+ * status's result code (e.g. 'I') and resultStatus is set; the total is provisional.
+ * A resit attempt is kept alongside the original scores; see calculateResult.
  * 
  * @param input - Raw marks input
  * @param additionalData - Additional data (courseId, lecturerId, etc.)
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
  * @returns Complete StudentMarks object with calculated total and grade
  * 
  * @example
  * processMarks(
  *   {
  *     studentId: 'S001',
- *     assignment: 8,
- *     quiz: 12,
- *     project: 20,
- *     midsem: 18,
- *     finalExam: 25
+ *     scores: { assignment: 8, quiz: 12, project: 20, midsem: 18, finalExam: 25 }
  *   },
  *   {
  *     courseId: 'C001',
@@ -157,28 +541,21 @@ export function processMarks(
     id: string;
     courseId: string;
     lecturerId: string;
-  }
+  },
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
 ): StudentMarks {
-  const totalScore = calculateTotalScore({
-    assignment: input.assignment,
-    quiz: input.quiz,
-    project: input.project,
-    midsem: input.midsem,
-    finalExam: input.finalExam,
-  });
-
-  const grade = calculateGrade(totalScore);
+  const scale = getSchemeGradingScale(scheme);
 
   return {
     ...additionalData,
     studentId: input.studentId,
-    assignment: input.assignment,
-    quiz: input.quiz,
-    project: input.project,
-    midsem: input.midsem,
-    finalExam: input.finalExam,
-    totalScore,
-    grade,
+    schemeId: scheme.id,
+    scores: { ...input.scores },
+    statuses: input.statuses ? { ...input.statuses } : undefined,
+    resit: input.resit ? { ...input.resit } : undefined,
+    ...calculateResult(input, scheme),
+    gradingScaleId: scale.id,
+    gradingScaleVersion: scale.version,
     submittedAt: new Date().toISOString(),
   };
 }
@@ -187,11 +564,35 @@ export function processMarks(
 // GRADE STATISTICS
 // ============================================
 
+/**
+ * Check whether a marks record has a withheld result (no grade yet)
+ * 
+ * @param marks - Student marks record
+ * @returns True if the result is withheld (e.g. incomplete or deferred)
+ */
+export function isResultWithheld(marks: Pick<StudentMarks, 'resultStatus'>): boolean {
+  return marks.resultStatus !== undefined;
+}
+
+/**
+ * Get the records that have a grade
+ * Withheld results carry a provisional total only, so statistics leave them out.
+ * 
+ * @param marksArray - Array of student marks
+ * @returns Records whose result is not withheld
+ */
+export function getGradedMarks(marksArray: StudentMarks[]): StudentMarks[] {
+  return marksArray.filter(marks => !isResultWithheld(marks));
+}
+
 /**
  * Calculate grade distribution from an array of marks
  * Counts how many students received each grade
+ * Every grade of the scale is included (in boundary order), even with a count of 0.
+ * Withheld results are not counted (see ClassStatistics.withheldResults).
  * 
  * @param marksArray - Array of student marks
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
  * @returns Grade distribution object
  * 
  * @example
@@ -203,24 +604,19 @@ export function processMarks(
  * ])
  * // Returns: { 'A': 2, 'A-': 0, 'B+': 1, ..., 'F': 1 }
  */
-export function calculateGradeDistribution(marksArray: StudentMarks[]): GradeDistribution {
-  const distribution: GradeDistribution = {
-    'A': 0,
-    'A-': 0,
-    'B+': 0,
-    'B': 0,
-    'B-': 0,
-    'C+': 0,
-    'C': 0,
-    'C-': 0,
-    'D+': 0,
-    'D': 0,
-    'D-': 0,
-    'F': 0,
-  };
+export function calculateGradeDistribution(
+  marksArray: StudentMarks[],
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): GradeDistribution {
+  const distribution: GradeDistribution = {};
+
+  scale.boundaries.forEach(boundary => {
+    distribution[boundary.grade] = 0;
+  });
 
-  marksArray.forEach(marks => {
-    distribution[marks.grade]++;
+  // Grades from another scale (e.g. older published results) are still counted
+  getGradedMarks(marksArray).forEach(marks => {
+    distribution[marks.grade] = (distribution[marks.grade] ?? 0) + 1;
   });
 
   return distribution;
@@ -228,73 +624,134 @@ export function calculateGradeDistribution(marksArray: StudentMarks[]): GradeDis
 
 /**
  * Calculate average score from an array of marks
+ * Withheld results are left out.
  * 
  * @param marksArray - Array of student marks
  * @returns Average score (rounded to 2 decimal places)
  */
 export function calculateAverageScore(marksArray: StudentMarks[]): number {
-  if (marksArray.length === 0) return 0;
+  const graded = getGradedMarks(marksArray);
+  if (graded.length === 0) return 0;
 
-  const total = marksArray.reduce((sum, marks) => sum + marks.totalScore, 0);
-  const average = total / marksArray.length;
+  const total = graded.reduce((sum, marks) => sum + marks.totalScore, 0);
+  const average = total / graded.length;
 
   return Math.round(average * 100) / 100;
 }
 
 /**
  * Find highest score from an array of marks
+ * Withheld results are left out.
  * 
  * @param marksArray - Array of student marks
- * @returns Highest score or 0 if array is empty
+ * @returns Highest score or 0 if there are no graded records
  */
 export function findHighestScore(marksArray: StudentMarks[]): number {
-  if (marksArray.length === 0) return 0;
+  const graded = getGradedMarks(marksArray);
+  if (graded.length === 0) return 0;
 
-  return Math.max(...marksArray.map(marks => marks.totalScore));
+  return Math.max(...graded.map(marks => marks.totalScore));
 }
 
 /**
  * Find lowest score from an array of marks
+ * Withheld results are left out.
  * 
  * @param marksArray - Array of student marks
- * @returns Lowest score or 0 if array is empty
+ * @returns Lowest score or 0 if there are no graded records
  */
 export function findLowestScore(marksArray: StudentMarks[]): number {
-  if (marksArray.length === 0) return 0;
+  const graded = getGradedMarks(marksArray);
+  if (graded.length === 0) return 0;
 
-  return Math.min(...marksArray.map(marks => marks.totalScore));
+  return Math.min(...graded.map(marks => marks.totalScore));
 }
 
 /**
  * Calculate pass rate (percentage of students with passing grades)
+ * Each record is judged under the scale it was graded under.
+ * Withheld results and results on scales that are not registered are neither
+ * passes nor fails and are left out.
  * 
  * @param marksArray - Array of student marks
+ * @param scale - Scale for records without scale information (default: DEFAULT_GRADING_SCALE)
  * @returns Pass rate as percentage (0-100)
  */
-export function calculatePassRate(marksArray: StudentMarks[]): number {
-  if (marksArray.length === 0) return 0;
-
-  const passingCount = marksArray.filter(marks => isPassingGrade(marks.grade)).length;
-  const passRate = (passingCount / marksArray.length) * 100;
+export function calculatePassRate(
+  marksArray: StudentMarks[],
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): number {
+  // Records on a scale that is not registered cannot be judged either
+  const graded = getGradedMarks(marksArray).filter(marks => getGradingScaleForMarks(marks, scale));
+  if (graded.length === 0) return 0;
+
+  const passingCount = graded.filter(marks =>
+    isPassingGrade(marks.grade, getGradingScaleForMarks(marks, scale))
+  ).length;
+  const passRate = (passingCount / graded.length) * 100;
 
   return Math.round(passRate * 100) / 100;
 }
 
+/**
+ * Build class statistics from an array of marks
+ * Includes the full descriptive summary of total scores and of each component
+ * (withheld results are left out of both).
+ * 
+ * @param marksArray - Array of student marks
+ * @param course - Course details and total number of enrolled students
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
+ * @param scheme - Assessment scheme for the per-component summary (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param binWidth - Histogram bin width (default: DEFAULT_HISTOGRAM_BIN_WIDTH)
+ * @returns Class statistics
+ */
+export function calculateClassStatistics(
+  marksArray: StudentMarks[],
+  course: { courseId: string; courseName: string; totalStudents: number },
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH
+): ClassStatistics {
+  return {
+    courseId: course.courseId,
+    courseName: course.courseName,
+    totalStudents: course.totalStudents,
+    studentsWithMarks: marksArray.length,
+    averageScore: calculateAverageScore(marksArray),
+    highestScore: findHighestScore(marksArray),
+    lowestScore: findLowestScore(marksArray),
+    passRate: calculatePassRate(marksArray, scale),
+    gradeDistribution: calculateGradeDistribution(marksArray, scale),
+    withheldResults: marksArray.length - getGradedMarks(marksArray).length,
+    resitResults: marksArray.filter(marks => marks.attemptUsed === 'resit').length,
+    summary: calculateDescriptiveStatistics(
+      getGradedMarks(marksArray).map(marks => marks.totalScore),
+      binWidth
+    ),
+    componentStatistics: calculateComponentStatistics(marksArray, scheme, binWidth),
+  };
+}
+
 // ============================================
 // MARKS COMPARISON
 // ============================================
 
 /**
- * Compare two grades
+ * Compare two grades on the same scale
  * Returns positive if grade1 > grade2, negative if grade1 < grade2, 0 if equal
  * 
  * @param grade1 - First grade
  * @param grade2 - Second grade
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE)
  * @returns Comparison result
  */
-export function compareGrades(grade1: Grade, grade2: Grade): number {
-  const boundary1 = getGradeBoundary(grade1);
-  const boundary2 = getGradeBoundary(grade2);
+export function compareGrades(
+  grade1: Grade,
+  grade2: Grade,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): number {
+  const boundary1 = getGradeBoundary(grade1, scale);
+  const boundary2 = getGradeBoundary(grade2, scale);
 
   if (!boundary1 || !boundary2) return 0;
 
@@ -306,25 +763,14 @@ export function compareGrades(grade1: Grade, grade2: Grade): number {
  * Get grade points for a grade (useful for GPA calculations)
  * 
  * @param grade - Grade to convert
- * @returns Grade points (4.0 scale)
+ * @param scale - Grading scale (default: DEFAULT_GRADING_SCALE, 4.0 scale)
+ * @returns Grade points, or 0 if the grade is not on the scale
  */
-export function getGradePoints(grade: Grade): number {
-  const gradePoints: Record<Grade, number> = {
-    'A': 4.0,
-    'A-': 3.7,
-    'B+': 3.3,
-    'B': 3.0,
-    'B-': 2.7,
-    'C+': 2.3,
-    'C': 2.0,
-    'C-': 1.7,
-    'D+': 1.3,
-    'D': 1.0,
-    'D-': 0.7,
-    'F': 0.0,
-  };
-
-  return gradePoints[grade];
+export function getGradePoints(
+  grade: Grade,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): number {
+  return getGradeBoundary(grade, scale)?.gradePoints ?? 0;
 }
 
 /**
@@ -0,0 +1,401 @@
+/**
+ * Lecturer Module - Validation Message Catalog
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file renders validation error codes as messages in English, Swahili
+ * and French. Validators report a stable code with parameters; the message
+ * stored on a ValidationError is the English rendering, and the UI can render
+ * any supported locale from the same code and parameters.
+ */
+
+import type {
+  Locale,
+  MessageCatalog,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationResult,
+} from '../types';
+import { DEFAULT_LOCALE } from '../types';
+
+// ============================================
+// CATALOGS
+// ============================================
+
+const EN_MESSAGES: MessageCatalog = {
+  EMAIL_REQUIRED: 'Email is required',
+  EMAIL_INVALID: 'Invalid email format',
+  EMAIL_TOO_LONG: 'Email must be less than {max} characters',
+  EMAIL_ALREADY_REGISTERED: 'An account with this email already exists',
+  PHONE_REQUIRED: 'Phone number is required',
+  PHONE_TOO_SHORT: 'Phone number must be at least {min} digits',
+  PHONE_TOO_LONG: 'Phone number must be at most {max} digits',
+  PHONE_INVALID: 'Phone number is not valid for {country}',
+  PHONE_INVALID_CHARACTERS: 'Phone number can only contain digits, spaces, dashes, dots, brackets and a leading +',
+  PHONE_UNKNOWN_COUNTRY_CODE: 'Phone number has an unknown or unsupported country calling code',
+  PASSWORD_REQUIRED: 'Password is required',
+  PASSWORD_TOO_SHORT: 'Password must be at least {min} characters',
+  PASSWORD_MISSING_UPPERCASE: 'Password must contain at least one uppercase letter',
+  PASSWORD_MISSING_LOWERCASE: 'Password must contain at least one lowercase letter',
+  PASSWORD_MISSING_NUMBER: 'Password must contain at least one number',
+  PASSWORD_MISSING_SYMBOL: 'Password must contain at least one symbol',
+  PASSWORD_TOO_COMMON: 'Password is too common or has appeared in a data breach',
+  PASSWORD_CONTAINS_PERSONAL_INFO: 'Password must not contain your name or email',
+  NAME_REQUIRED: '{field} is required',
+  NAME_TOO_SHORT: '{field} must be at least {min} characters',
+  NAME_TOO_LONG: '{field} must be less than {max} characters',
+  NAME_INVALID_CHARACTERS: '{field} can only contain letters, spaces, hyphens, and apostrophes',
+  NAME_INVISIBLE_CHARACTERS: '{field} contains invisible or control characters',
+  NAME_MISSING_LETTERS: '{field} must contain letters, and each word must start with a letter',
+  NAME_MIXED_SCRIPTS: '{field} mixes letters from different alphabets (e.g. Latin and Cyrillic)',
+  COURSE_ID_REQUIRED: 'Course ID is required',
+  COURSE_NOT_FOUND: 'Course {courseId} does not exist',
+
+  STUDENT_ID_REQUIRED: 'Student ID is required',
+  STUDENT_NOT_ENROLLED: 'Student {studentId} is not enrolled in course {courseId}',
+  MARK_NOT_A_NUMBER: '{field} must be a valid number',
+  MARK_NEGATIVE: '{field} cannot be negative',
+  MARK_OUT_OF_RANGE: '{field} cannot exceed {max}',
+  MARK_TOO_MANY_DECIMALS: '{field} can have at most {decimals} decimal places',
+  STATUS_INVALID: '{status} is not a valid mark status',
+  COMPONENT_UNKNOWN: '{component} is not part of the {scheme} scheme',
+  ALL_COMPONENTS_EXEMPT: 'A student cannot be exempt from every component',
+  TOTAL_OUT_OF_RANGE: 'Total marks ({total}) cannot exceed {max}',
+  RESIT_NOT_ALLOWED: 'A supplementary exam is only allowed after a failed attempt (original grade {grade})',
+  MARKS_REQUIRED: 'At least one student\'s marks is required',
+  DUPLICATE_STUDENT_IDS: 'Duplicate student IDs found: {studentIds}',
+  STUDENTS_REQUIRED: 'At least one student is required',
+  REGISTRATION_NUMBER_REQUIRED: 'Registration number is required',
+  REGISTRATION_NUMBER_INVALID: 'Registration number {registrationNumber} was not recognised; numbers look like {example}',
+  REGISTRATION_NUMBER_CHECK_DIGIT: 'Registration number {registrationNumber} has an invalid check digit',
+  DUPLICATE_REGISTRATION_NUMBERS: 'Duplicate registration numbers found: {registrationNumbers}',
+
+  SCHEME_ID_REQUIRED: 'Scheme ID is required',
+  SCHEME_COMPONENTS_REQUIRED: 'Scheme must have at least one component',
+  COMPONENT_KEY_REQUIRED: 'Component key is required',
+  COMPONENT_KEY_DUPLICATE: 'Duplicate component key: {key}',
+  COMPONENT_LABEL_REQUIRED: 'Component label is required',
+  COMPONENT_MAX_INVALID: 'Component maximum must be greater than 0',
+  COMPONENT_WEIGHT_INVALID: 'Component weight must be greater than 0',
+  SCHEME_WEIGHTS_TOTAL: 'Component weights must add up to {max} (currently {total})',
+  ROUNDING_DECIMALS_INVALID: 'Rounding must keep between {min} and {max} decimal places',
+  ROUNDING_THRESHOLD_INVALID: 'Borderline rounding requires a threshold of 0 or more',
+  RESIT_COMPONENT_UNKNOWN: 'Resit component {component} is not part of the scheme',
+  RESIT_CAP_INVALID: 'Resit cap {grade} is not a grade on the course\'s grading scale',
+  STATUS_RULE_INVALID: 'Rule for {status} must zero, re-weight or withhold',
+
+  SCALE_ID_REQUIRED: 'Scale ID is required',
+  SCALE_VERSION_INVALID: 'Scale version must be a positive whole number',
+  SCALE_VERSION_EXISTS: 'Scale {id} version {version} is already registered; register the change as a new version',
+  GRADING_SCALE_NOT_FOUND: 'Grading scale {id} (version {version}) is not registered',
+  SCALE_BOUNDARIES_REQUIRED: 'Scale must have at least one grade boundary',
+  GRADE_REQUIRED: 'Grade label is required',
+  GRADE_DUPLICATE: 'Duplicate grade: {grade}',
+  BOUNDARY_NOT_WHOLE: 'Boundaries for {grade} must be whole numbers',
+  BOUNDARY_MIN_EXCEEDS_MAX: 'Minimum score for {grade} exceeds its maximum',
+  BOUNDARIES_UNSORTED: 'Boundaries must be sorted from highest to lowest ({grade} before {lowerGrade})',
+  BOUNDARY_GAP: 'Gap between {lowerGrade} (max {lowerMax}) and {grade} (min {min})',
+  BOUNDARY_OVERLAP: '{lowerGrade} (max {lowerMax}) overlaps {grade} (min {min})',
+  BOUNDARY_TOP_INVALID: 'Highest boundary must end at {max}',
+  BOUNDARY_BOTTOM_INVALID: 'Lowest boundary must start at 0',
+  PASS_MARK_INVALID: 'Pass mark ({passMark}) must match the start of a grade boundary',
+
+  REASON_REQUIRED: 'A reason is required to apply a moderation',
+  SHIFT_AMOUNT_INVALID: 'Shift amount must be a non-zero number',
+  BONUS_AMOUNT_INVALID: 'Bonus amount must be a non-zero number',
+  TARGET_MEAN_OUT_OF_RANGE: 'Target mean must be between 0 and {max}',
+  CAP_OUT_OF_RANGE: 'Cap must be between 0 and {max}',
+  MODERATION_RULE_UNKNOWN: 'Unknown moderation rule',
+
+  FINAL_EXAM_ZERO: '{field} is 0 although the other components average {average}%',
+  PERFECT_SCORE: 'Total is a perfect {total}; check that every component was entered correctly',
+  LARGE_MARK_CHANGE: '{field} changes from {from} to {to} (more than {maxChange} points)',
+  PASSWORD_SUGGEST_LONGER: 'Use at least {min} characters for a stronger password',
+  PASSWORD_SUGGEST_MIX: 'Mix upper and lower case letters, numbers and symbols',
+  PASSWORD_SUGGEST_NO_REPEATS: 'Avoid repeating the same character',
+  PASSWORD_SUGGEST_NO_SEQUENCES: 'Avoid sequences such as abc, 123 or qwerty',
+};
+
+const SW_MESSAGES: MessageCatalog = {
+  EMAIL_REQUIRED: 'Barua pepe inahitajika',
+  EMAIL_INVALID: 'Muundo wa barua pepe si sahihi',
+  EMAIL_TOO_LONG: 'Barua pepe lazima iwe na herufi chini ya {max}',
+  EMAIL_ALREADY_REGISTERED: 'Akaunti yenye barua pepe hii tayari ipo',
+  PHONE_REQUIRED: 'Nambari ya simu inahitajika',
+  PHONE_TOO_SHORT: 'Nambari ya simu lazima iwe na angalau tarakimu {min}',
+  PHONE_TOO_LONG: 'Nambari ya simu lazima iwe na tarakimu zisizozidi {max}',
+  PHONE_INVALID: 'Nambari ya simu si sahihi kwa {country}',
+  PHONE_INVALID_CHARACTERS: 'Nambari ya simu inaweza kuwa na tarakimu, nafasi, vistari, nukta, mabano na + mwanzoni pekee',
+  PHONE_UNKNOWN_COUNTRY_CODE: 'Msimbo wa nchi wa nambari ya simu haujulikani au hautumiki',
+  PASSWORD_REQUIRED: 'Nenosiri linahitajika',
+  PASSWORD_TOO_SHORT: 'Nenosiri lazima liwe na angalau herufi {min}',
+  PASSWORD_MISSING_UPPERCASE: 'Nenosiri lazima liwe na angalau herufi kubwa moja',
+  PASSWORD_MISSING_LOWERCASE: 'Nenosiri lazima liwe na angalau herufi ndogo moja',
+  PASSWORD_MISSING_NUMBER: 'Nenosiri lazima liwe na angalau tarakimu moja',
+  PASSWORD_MISSING_SYMBOL: 'Nenosiri lazima liwe na angalau alama moja',
+  PASSWORD_TOO_COMMON: 'Nenosiri ni la kawaida mno au limewahi kuvuja',
+  PASSWORD_CONTAINS_PERSONAL_INFO: 'Nenosiri halipaswi kuwa na jina lako au barua pepe yako',
+  NAME_REQUIRED: '{field} inahitajika',
+  NAME_TOO_SHORT: '{field} lazima iwe na angalau herufi {min}',
+  NAME_TOO_LONG: '{field} lazima iwe na herufi chini ya {max}',
+  NAME_INVALID_CHARACTERS: '{field} inaweza kuwa na herufi, nafasi, vistari na apostrofi pekee',
+  NAME_INVISIBLE_CHARACTERS: '{field} ina herufi zisizoonekana au za udhibiti',
+  NAME_MISSING_LETTERS: '{field} lazima iwe na herufi, na kila neno lianze kwa herufi',
+  NAME_MIXED_SCRIPTS: '{field} inachanganya herufi za alfabeti tofauti (k.m. Kilatini na Kisiriliki)',
+  COURSE_ID_REQUIRED: 'Kitambulisho cha kozi kinahitajika',
+  COURSE_NOT_FOUND: 'Kozi {courseId} haipo',
+
+  STUDENT_ID_REQUIRED: 'Kitambulisho cha mwanafunzi kinahitajika',
+  STUDENT_NOT_ENROLLED: 'Mwanafunzi {studentId} hajasajiliwa katika kozi {courseId}',
+  MARK_NOT_A_NUMBER: '{field} lazima iwe nambari halali',
+  MARK_NEGATIVE: '{field} haiwezi kuwa hasi',
+  MARK_OUT_OF_RANGE: '{field} haiwezi kuzidi {max}',
+  MARK_TOO_MANY_DECIMALS: '{field} haiwezi kuzidi nafasi {decimals} za desimali',
+  STATUS_INVALID: '{status} si hali halali ya alama',
+  COMPONENT_UNKNOWN: '{component} si sehemu ya mpango wa {scheme}',
+  ALL_COMPONENTS_EXEMPT: 'Mwanafunzi hawezi kusamehewa sehemu zote za tathmini',
+  TOTAL_OUT_OF_RANGE: 'Jumla ya alama ({total}) haiwezi kuzidi {max}',
+  RESIT_NOT_ALLOWED: 'Mtihani wa marudio unaruhusiwa tu baada ya kufeli jaribio la kwanza (gredi ya awali {grade})',
+  MARKS_REQUIRED: 'Alama za angalau mwanafunzi mmoja zinahitajika',
+  DUPLICATE_STUDENT_IDS: 'Vitambulisho vya wanafunzi vimerudiwa: {studentIds}',
+  STUDENTS_REQUIRED: 'Angalau mwanafunzi mmoja anahitajika',
+  REGISTRATION_NUMBER_REQUIRED: 'Nambari ya usajili inahitajika',
+  REGISTRATION_NUMBER_INVALID: 'Nambari ya usajili {registrationNumber} haikutambuliwa; nambari huwa kama {example}',
+  REGISTRATION_NUMBER_CHECK_DIGIT: 'Nambari ya usajili {registrationNumber} ina tarakimu hakiki isiyo sahihi',
+  DUPLICATE_REGISTRATION_NUMBERS: 'Nambari za usajili zimerudiwa: {registrationNumbers}',
+
+  SCHEME_ID_REQUIRED: 'Kitambulisho cha mpango kinahitajika',
+  SCHEME_COMPONENTS_REQUIRED: 'Mpango lazima uwe na angalau sehemu moja',
+  COMPONENT_KEY_REQUIRED: 'Ufunguo wa sehemu unahitajika',
+  COMPONENT_KEY_DUPLICATE: 'Ufunguo wa sehemu umerudiwa: {key}',
+  COMPONENT_LABEL_REQUIRED: 'Jina la sehemu linahitajika',
+  COMPONENT_MAX_INVALID: 'Alama za juu za sehemu lazima ziwe zaidi ya 0',
+  COMPONENT_WEIGHT_INVALID: 'Uzito wa sehemu lazima uwe zaidi ya 0',
+  SCHEME_WEIGHTS_TOTAL: 'Jumla ya uzito wa sehemu lazima iwe {max} (kwa sasa {total})',
+  ROUNDING_DECIMALS_INVALID: 'Ukadiriaji lazima ubakize kati ya nafasi {min} na {max} za desimali',
+  ROUNDING_THRESHOLD_INVALID: 'Ukadiriaji wa mpakani unahitaji kizingiti cha 0 au zaidi',
+  RESIT_COMPONENT_UNKNOWN: 'Sehemu ya marudio {component} si sehemu ya mpango',
+  RESIT_CAP_INVALID: 'Kikomo cha marudio {grade} si gredi kwenye kipimo cha gredi cha kozi',
+  STATUS_RULE_INVALID: 'Kanuni ya {status} lazima iweke sifuri, igawe uzito upya au izuie matokeo',
+
+  SCALE_ID_REQUIRED: 'Kitambulisho cha kipimo kinahitajika',
+  SCALE_VERSION_INVALID: 'Toleo la kipimo lazima liwe nambari kamili chanya',
+  SCALE_VERSION_EXISTS: 'Kipimo {id} toleo {version} tayari kimesajiliwa; sajili mabadiliko kama toleo jipya',
+  GRADING_SCALE_NOT_FOUND: 'Kipimo cha gredi {id} (toleo {version}) hakijasajiliwa',
+  SCALE_BOUNDARIES_REQUIRED: 'Kipimo lazima kiwe na angalau mpaka mmoja wa gredi',
+  GRADE_REQUIRED: 'Jina la gredi linahitajika',
+  GRADE_DUPLICATE: 'Gredi imerudiwa: {grade}',
+  BOUNDARY_NOT_WHOLE: 'Mipaka ya {grade} lazima iwe nambari kamili',
+  BOUNDARY_MIN_EXCEEDS_MAX: 'Alama ya chini ya {grade} inazidi alama yake ya juu',
+  BOUNDARIES_UNSORTED: 'Mipaka lazima ipangwe kutoka juu hadi chini ({grade} kabla ya {lowerGrade})',
+  BOUNDARY_GAP: 'Pengo kati ya {lowerGrade} (juu {lowerMax}) na {grade} (chini {min})',
+  BOUNDARY_OVERLAP: '{lowerGrade} (juu {lowerMax}) inaingiliana na {grade} (chini {min})',
+  BOUNDARY_TOP_INVALID: 'Mpaka wa juu kabisa lazima uishie {max}',
+  BOUNDARY_BOTTOM_INVALID: 'Mpaka wa chini kabisa lazima uanzie 0',
+  PASS_MARK_INVALID: 'Alama ya kufaulu ({passMark}) lazima ilingane na mwanzo wa mpaka wa gredi',
+
+  REASON_REQUIRED: 'Sababu inahitajika ili kufanya urekebishaji',
+  SHIFT_AMOUNT_INVALID: 'Kiasi cha kusogeza lazima kiwe nambari isiyo sifuri',
+  BONUS_AMOUNT_INVALID: 'Kiasi cha nyongeza lazima kiwe nambari isiyo sifuri',
+  TARGET_MEAN_OUT_OF_RANGE: 'Wastani lengwa lazima uwe kati ya 0 na {max}',
+  CAP_OUT_OF_RANGE: 'Kikomo lazima kiwe kati ya 0 na {max}',
+  MODERATION_RULE_UNKNOWN: 'Kanuni ya urekebishaji haijulikani',
+
+  FINAL_EXAM_ZERO: '{field} ni 0 ingawa wastani wa sehemu nyingine ni {average}%',
+  PERFECT_SCORE: 'Jumla ni kamili ({total}); hakikisha kila sehemu imeingizwa kwa usahihi',
+  LARGE_MARK_CHANGE: '{field} inabadilika kutoka {from} hadi {to} (zaidi ya alama {maxChange})',
+  PASSWORD_SUGGEST_LONGER: 'Tumia angalau herufi {min} kwa nenosiri imara zaidi',
+  PASSWORD_SUGGEST_MIX: 'Changanya herufi kubwa na ndogo, tarakimu na alama',
+  PASSWORD_SUGGEST_NO_REPEATS: 'Epuka kurudia herufi ileile',
+  PASSWORD_SUGGEST_NO_SEQUENCES: 'Epuka mfuatano kama abc, 123 au qwerty',
+};
+
+const FR_MESSAGES: MessageCatalog = {
+  EMAIL_REQUIRED: 'L\'adresse e-mail est obligatoire',
+  EMAIL_INVALID: 'Format d\'adresse e-mail invalide',
+  EMAIL_TOO_LONG: 'L\'adresse e-mail doit contenir moins de {max} caractères',
+  EMAIL_ALREADY_REGISTERED: 'Un compte existe déjà avec cette adresse e-mail',
+  PHONE_REQUIRED: 'Le numéro de téléphone est obligatoire',
+  PHONE_TOO_SHORT: 'Le numéro de téléphone doit contenir au moins {min} chiffres',
+  PHONE_TOO_LONG: 'Le numéro de téléphone doit contenir au plus {max} chiffres',
+  PHONE_INVALID: 'Le numéro de téléphone n\'est pas valide pour {country}',
+  PHONE_INVALID_CHARACTERS: 'Le numéro de téléphone ne peut contenir que des chiffres, espaces, tirets, points, parenthèses et un + initial',
+  PHONE_UNKNOWN_COUNTRY_CODE: 'L\'indicatif pays du numéro de téléphone est inconnu ou non pris en charge',
+  PASSWORD_REQUIRED: 'Le mot de passe est obligatoire',
+  PASSWORD_TOO_SHORT: 'Le mot de passe doit contenir au moins {min} caractères',
+  PASSWORD_MISSING_UPPERCASE: 'Le mot de passe doit contenir au moins une lettre majuscule',
+  PASSWORD_MISSING_LOWERCASE: 'Le mot de passe doit contenir au moins une lettre minuscule',
+  PASSWORD_MISSING_NUMBER: 'Le mot de passe doit contenir au moins un chiffre',
+  PASSWORD_MISSING_SYMBOL: 'Le mot de passe doit contenir au moins un symbole',
+  PASSWORD_TOO_COMMON: 'Le mot de passe est trop courant ou a fuité lors d\'une violation de données',
+  PASSWORD_CONTAINS_PERSONAL_INFO: 'Le mot de passe ne doit pas contenir votre nom ou votre adresse e-mail',
+  NAME_REQUIRED: '{field} est obligatoire',
+  NAME_TOO_SHORT: '{field} doit contenir au moins {min} caractères',
+  NAME_TOO_LONG: '{field} doit contenir moins de {max} caractères',
+  NAME_INVALID_CHARACTERS: '{field} ne peut contenir que des lettres, des espaces, des traits d\'union et des apostrophes',
+  NAME_INVISIBLE_CHARACTERS: '{field} contient des caractères invisibles ou de contrôle',
+  NAME_MISSING_LETTERS: '{field} doit contenir des lettres, et chaque mot doit commencer par une lettre',
+  NAME_MIXED_SCRIPTS: '{field} mélange des lettres de différents alphabets (par ex. latin et cyrillique)',
+  COURSE_ID_REQUIRED: 'L\'identifiant du cours est obligatoire',
+  COURSE_NOT_FOUND: 'Le cours {courseId} n\'existe pas',
+
+  STUDENT_ID_REQUIRED: 'L\'identifiant de l\'étudiant est obligatoire',
+  STUDENT_NOT_ENROLLED: 'L\'étudiant {studentId} n\'est pas inscrit au cours {courseId}',
+  MARK_NOT_A_NUMBER: '{field} doit être un nombre valide',
+  MARK_NEGATIVE: '{field} ne peut pas être négatif',
+  MARK_OUT_OF_RANGE: '{field} ne peut pas dépasser {max}',
+  MARK_TOO_MANY_DECIMALS: '{field} peut avoir au plus {decimals} décimales',
+  STATUS_INVALID: '{status} n\'est pas un statut de note valide',
+  COMPONENT_UNKNOWN: '{component} ne fait pas partie du barème {scheme}',
+  ALL_COMPONENTS_EXEMPT: 'Un étudiant ne peut pas être dispensé de toutes les composantes',
+  TOTAL_OUT_OF_RANGE: 'Le total ({total}) ne peut pas dépasser {max}',
+  RESIT_NOT_ALLOWED: 'Un rattrapage n\'est autorisé qu\'après un échec (note initiale {grade})',
+  MARKS_REQUIRED: 'Les notes d\'au moins un étudiant sont obligatoires',
+  DUPLICATE_STUDENT_IDS: 'Identifiants d\'étudiants en double : {studentIds}',
+  STUDENTS_REQUIRED: 'Au moins un étudiant est obligatoire',
+  REGISTRATION_NUMBER_REQUIRED: 'Le numéro d\'inscription est obligatoire',
+  REGISTRATION_NUMBER_INVALID: 'Le numéro d\'inscription {registrationNumber} n\'a pas été reconnu ; les numéros sont de la forme {example}',
+  REGISTRATION_NUMBER_CHECK_DIGIT: 'Le numéro d\'inscription {registrationNumber} a un chiffre de contrôle invalide',
+  DUPLICATE_REGISTRATION_NUMBERS: 'Numéros d\'inscription en double : {registrationNumbers}',
+
+  SCHEME_ID_REQUIRED: 'L\'identifiant du barème est obligatoire',
+  SCHEME_COMPONENTS_REQUIRED: 'Le barème doit comporter au moins une composante',
+  COMPONENT_KEY_REQUIRED: 'La clé de la composante est obligatoire',
+  COMPONENT_KEY_DUPLICATE: 'Clé de composante en double : {key}',
+  COMPONENT_LABEL_REQUIRED: 'Le libellé de la composante est obligatoire',
+  COMPONENT_MAX_INVALID: 'Le maximum de la composante doit être supérieur à 0',
+  COMPONENT_WEIGHT_INVALID: 'Le poids de la composante doit être supérieur à 0',
+  SCHEME_WEIGHTS_TOTAL: 'La somme des poids des composantes doit être {max} (actuellement {total})',
+  ROUNDING_DECIMALS_INVALID: 'L\'arrondi doit conserver entre {min} et {max} décimales',
+  ROUNDING_THRESHOLD_INVALID: 'L\'arrondi des cas limites exige un seuil de 0 ou plus',
+  RESIT_COMPONENT_UNKNOWN: 'La composante de rattrapage {component} ne fait pas partie du barème',
+  RESIT_CAP_INVALID: 'Le plafond de rattrapage {grade} n\'est pas une note de l\'échelle du cours',
+  STATUS_RULE_INVALID: 'La règle pour {status} doit mettre à zéro, repondérer ou retenir le résultat',
+
+  SCALE_ID_REQUIRED: 'L\'identifiant de l\'échelle est obligatoire',
+  SCALE_VERSION_INVALID: 'La version de l\'échelle doit être un entier positif',
+  SCALE_VERSION_EXISTS: 'L\'échelle {id} version {version} est déjà enregistrée ; enregistrez la modification comme nouvelle version',
+  GRADING_SCALE_NOT_FOUND: 'L\'échelle de notation {id} (version {version}) n\'est pas enregistrée',
+  SCALE_BOUNDARIES_REQUIRED: 'L\'échelle doit comporter au moins une tranche de notes',
+  GRADE_REQUIRED: 'Le libellé de la note est obligatoire',
+  GRADE_DUPLICATE: 'Note en double : {grade}',
+  BOUNDARY_NOT_WHOLE: 'Les bornes de {grade} doivent être des nombres entiers',
+  BOUNDARY_MIN_EXCEEDS_MAX: 'Le minimum de {grade} dépasse son maximum',
+  BOUNDARIES_UNSORTED: 'Les tranches doivent être triées de la plus haute à la plus basse ({grade} avant {lowerGrade})',
+  BOUNDARY_GAP: 'Écart entre {lowerGrade} (max {lowerMax}) et {grade} (min {min})',
+  BOUNDARY_OVERLAP: '{lowerGrade} (max {lowerMax}) chevauche {grade} (min {min})',
+  BOUNDARY_TOP_INVALID: 'La tranche la plus haute doit se terminer à {max}',
+  BOUNDARY_BOTTOM_INVALID: 'La tranche la plus basse doit commencer à 0',
+  PASS_MARK_INVALID: 'La note de passage ({passMark}) doit correspondre au début d\'une tranche',
+
+  REASON_REQUIRED: 'Un motif est obligatoire pour appliquer une modération',
+  SHIFT_AMOUNT_INVALID: 'Le décalage doit être un nombre non nul',
+  BONUS_AMOUNT_INVALID: 'Le bonus doit être un nombre non nul',
+  TARGET_MEAN_OUT_OF_RANGE: 'La moyenne cible doit être comprise entre 0 et {max}',
+  CAP_OUT_OF_RANGE: 'Le plafond doit être compris entre 0 et {max}',
+  MODERATION_RULE_UNKNOWN: 'Règle de modération inconnue',
+
+  FINAL_EXAM_ZERO: '{field} vaut 0 alors que la moyenne des autres composantes est de {average} %',
+  PERFECT_SCORE: 'Le total est parfait ({total}) ; vérifiez que chaque composante a été saisie correctement',
+  LARGE_MARK_CHANGE: '{field} passe de {from} à {to} (plus de {maxChange} points)',
+  PASSWORD_SUGGEST_LONGER: 'Utilisez au moins {min} caractères pour un mot de passe plus robuste',
+  PASSWORD_SUGGEST_MIX: 'Mélangez majuscules, minuscules, chiffres et symboles',
+  PASSWORD_SUGGEST_NO_REPEATS: 'Évitez de répéter le même caractère',
+  PASSWORD_SUGGEST_NO_SEQUENCES: 'Évitez les suites comme abc, 123 ou qwerty',
+};
+
+/**
+ * Message templates per locale
+ */
+export const MESSAGE_CATALOGS: Readonly<Record<Locale, MessageCatalog>> = {
+  en: EN_MESSAGES,
+  sw: SW_MESSAGES,
+  fr: FR_MESSAGES,
+};
+
+// ============================================
+// RENDERING
+// ============================================
+
+/**
+ * Render a validation error code as a message
+ * Falls back to English when the locale is unknown; placeholders without a
+ * matching parameter are left as they are.
+ *
+ * @param code - Error code
+ * @param params - Values for the message placeholders
+ * @param locale - Message language (default: DEFAULT_LOCALE)
+ * @returns Rendered message
+ *
+ * @example
+ * formatValidationMessage('MARK_OUT_OF_RANGE', { field: 'quiz', max: 15 })
+ * // Returns 'quiz cannot exceed 15'
+ * formatValidationMessage('MARK_OUT_OF_RANGE', { field: 'quiz', max: 15 }, 'sw')
+ * // Returns 'quiz haiwezi kuzidi 15'
+ */
+export function formatValidationMessage(
+  code: ValidationErrorCode,
+  params: ValidationErrorParams = {},
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const catalog = MESSAGE_CATALOGS[locale] ?? MESSAGE_CATALOGS[DEFAULT_LOCALE];
+  const template = catalog[code] ?? MESSAGE_CATALOGS[DEFAULT_LOCALE][code] ?? code;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Create a validation error with its message in DEFAULT_LOCALE
+ *
+ * @param field - Field the error belongs to
+ * @param code - Error code
+ * @param params - Values for the message placeholders
+ * @returns Validation error
+ */
+export function createValidationError(
+  field: string,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationError {
+  return {
+    field,
+    code,
+    ...(params ? { params } : {}),
+    message: formatValidationMessage(code, params),
+  };
+}
+
+/**
+ * Re-render validation errors (or warnings) in another locale
+ *
+ * @param errors - Validation errors or warnings
+ * @param locale - Message language
+ * @returns Errors with their messages in the locale (codes and params unchanged)
+ */
+export function localizeValidationErrors(errors: ValidationError[], locale: Locale): ValidationError[] {
+  return errors.map(error => ({
+    ...error,
+    message: formatValidationMessage(error.code, error.params, locale),
+  }));
+}
+
+/**
+ * Re-render a validation result in another locale
+ *
+ * @param result - Validation result
+ * @param locale - Message language
+ * @returns Result with its messages in the locale
+ *
+ * @example
+ * const result = localizeValidationResult(validateMarks(input, scheme), 'fr');
+ * result.errors[0].message // 'quiz ne peut pas dépasser 15'
+ */
+export function localizeValidationResult(result: ValidationResult, locale: Locale): ValidationResult {
+  return {
+    ...result,
+    errors: localizeValidationErrors(result.errors, locale),
+    warnings: localizeValidationErrors(result.warnings, locale),
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Lecturer Module - Moderation Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains the grade moderation engine.
+ * A moderation rule is previewed against the class's marks (before/after per
+ * student plus class statistics) and then converted into a bulk marks input so
+ * it can be saved through the normal bulk marks path.
+ */
+
+import type {
+  AssessmentComponent,
+  AssessmentMarks,
+  AssessmentScheme,
+  BulkMarksInput,
+  ModerationChange,
+  ModerationPreview,
+  ModerationRecord,
+  ModerationRule,
+  StudentMarks,
+} from '../types';
+import { DEFAULT_ASSESSMENT_SCHEME, MAX_TOTAL_MARKS } from '../types';
+import { getEffectiveScheme, getOrderedComponents } from './assessment';
+import { getSchemeGradingScale } from './grading';
+import {
+  calculateAverageScore,
+  calculateClassStatistics,
+  calculateWeightedScore,
+  isResultWithheld,
+  processMarks,
+} from './marks';
+import { roundValue } from './rounding';
+
+// ============================================
+// SCORE ADJUSTMENT
+// ============================================
+
+/**
+ * Clamp a total to the valid range (0 to MAX_TOTAL_MARKS)
+ */
+function clampTotal(total: number): number {
+  return Math.max(0, Math.min(MAX_TOTAL_MARKS, total));
+}
+
+/**
+ * Adjust raw component scores so their weighted total becomes targetTotal
+ *
+ * Increases are shared out in proportion to each component's remaining headroom,
+ * decreases in proportion to each component's current contribution. Neither
+ * pushes a component outside 0..maxMarks. Raw scores are kept to 2 decimal places.
+ */
+function adjustScoresToTotal(
+  scores: AssessmentMarks,
+  targetTotal: number,
+  scheme: AssessmentScheme
+): AssessmentMarks {
+  const components = getOrderedComponents(scheme);
+  const contributions = components.map(component =>
+    calculateWeightedScore(scores[component.key] ?? 0, component)
+  );
+  const currentTotal = contributions.reduce((sum, value) => sum + value, 0);
+  const delta = targetTotal - currentTotal;
+
+  const adjusted: AssessmentMarks = { ...scores };
+
+  if (delta === 0) return adjusted;
+
+  const totalHeadroom = components.reduce(
+    (sum, component, i) => sum + (component.weight - contributions[i]),
+    0
+  );
+
+  components.forEach((component, i) => {
+    let contribution: number;
+
+    if (delta > 0) {
+      const headroom = component.weight - contributions[i];
+      contribution = totalHeadroom > 0
+        ? contributions[i] + delta * (headroom / totalHeadroom)
+        : contributions[i];
+    } else {
+      contribution = currentTotal > 0
+        ? contributions[i] * (targetTotal / currentTotal)
+        : 0;
+    }
+
+    const raw = (contribution / component.weight) * component.maxMarks;
+    adjusted[component.key] = Math.max(0, Math.min(component.maxMarks, roundValue(raw, 'half-up', 2)));
+  });
+
+  // Rounding raw scores to 2 decimal places can leave the total a fraction off
+  // the target; settle the remainder on the component with the most room for it
+  const adjustedTotal = components.reduce(
+    (sum, component) => sum + calculateWeightedScore(adjusted[component.key] ?? 0, component),
+    0
+  );
+  const remainder = targetTotal - adjustedTotal;
+
+  if (Math.abs(remainder) >= 0.005) {
+    const room = (component: AssessmentComponent) => remainder > 0
+      ? component.maxMarks - (adjusted[component.key] ?? 0)
+      : adjusted[component.key] ?? 0;
+    const target = [...components].sort((x, y) => room(y) - room(x))[0];
+    const rawRemainder = (remainder / target.weight) * target.maxMarks;
+    const settled = roundValue((adjusted[target.key] ?? 0) + rawRemainder, 'half-up', 2);
+
+    adjusted[target.key] = Math.max(0, Math.min(target.maxMarks, settled));
+  }
+
+  return adjusted;
+}
+
+/**
+ * Calculate the moderated raw scores for one student
+ * Only components with a numeric score are adjusted; components with a status
+ * are left as they are.
+ */
+function applyRuleToScores(
+  marks: StudentMarks,
+  rule: ModerationRule,
+  baseScheme: AssessmentScheme,
+  classMean: number
+): AssessmentMarks {
+  const statuses = marks.statuses ?? {};
+  const effective = getEffectiveScheme(baseScheme, statuses);
+  const scheme: AssessmentScheme = {
+    ...effective,
+    components: effective.components.filter(component => !statuses[component.key]),
+  };
+
+  switch (rule.type) {
+    case 'linear-shift':
+      return adjustScoresToTotal(marks.scores, clampTotal(marks.totalScore + rule.amount), scheme);
+
+    case 'scale-to-mean': {
+      if (classMean === 0) return { ...marks.scores };
+      const factor = rule.targetMean / classMean;
+      return adjustScoresToTotal(marks.scores, clampTotal(marks.totalScore * factor), scheme);
+    }
+
+    case 'cap':
+      if (marks.totalScore <= rule.maxScore) return { ...marks.scores };
+      return adjustScoresToTotal(marks.scores, clampTotal(rule.maxScore), scheme);
+
+    case 'component-bonus': {
+      const component = scheme.components.find(c => c.key === rule.componentKey);
+      if (!component) return { ...marks.scores };
+
+      const current = marks.scores[component.key] ?? 0;
+      const raised = Math.max(0, Math.min(component.maxMarks, current + rule.amount));
+      return { ...marks.scores, [component.key]: roundValue(raised, 'half-up', 2) };
+    }
+
+    default:
+      return { ...marks.scores };
+  }
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Preview a moderation rule against a class's marks
+ * Nothing is saved; use createModeratedBulkInput to apply the result.
+ * Withheld results (e.g. incomplete) and capped resit results are carried over unchanged.
+ *
+ * @param marksArray - Current marks for the course
+ * @param rule - Moderation rule to preview
+ * @param course - Course details and total number of enrolled students
+ * @param scheme - Course assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Per-student changes and class statistics before and after
+ *
+ * @example
+ * const preview = previewModeration(marks, { type: 'linear-shift', amount: 3 }, {
+ *   courseId: 'C001', courseName: 'Data Structures', totalStudents: 40
+ * });
+ * console.log(preview.gradeChangeCount, preview.statisticsAfter.passRate);
+ */
+export function previewModeration(
+  marksArray: StudentMarks[],
+  rule: ModerationRule,
+  course: { courseId: string; courseName: string; totalStudents: number },
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): ModerationPreview {
+  const scale = getSchemeGradingScale(scheme);
+  const classMean = calculateAverageScore(marksArray);
+
+  const changes: ModerationChange[] = marksArray.map(before => {
+    if (isResultWithheld(before) || before.attemptUsed === 'resit') {
+      return { studentId: before.studentId, before, after: before, scoreChange: 0, gradeChanged: false };
+    }
+
+    const scores = applyRuleToScores(before, rule, scheme, classMean);
+
+    const after: StudentMarks = {
+      ...processMarks(
+        { studentId: before.studentId, scores, statuses: before.statuses },
+        { id: before.id, courseId: before.courseId, lecturerId: before.lecturerId },
+        scheme
+      ),
+      submittedAt: before.submittedAt,
+    };
+
+    return {
+      studentId: before.studentId,
+      before,
+      after,
+      scoreChange: roundValue(after.totalScore - before.totalScore, 'half-up', 2),
+      gradeChanged: after.grade !== before.grade,
+    };
+  });
+
+  const afterMarks = changes.map(change => change.after);
+
+  return {
+    rule,
+    changes,
+    statisticsBefore: calculateClassStatistics(marksArray, course, scale, scheme),
+    statisticsAfter: calculateClassStatistics(afterMarks, course, scale, scheme),
+    gradeChangeCount: changes.filter(change => change.gradeChanged).length,
+  };
+}
+
+// ============================================
+// APPLY & AUDIT
+// ============================================
+
+/**
+ * Convert a moderation preview into bulk marks input
+ * Only students whose scores actually changed are included.
+ *
+ * @param preview - Moderation preview
+ * @returns Bulk marks input for bulkCreateMarks
+ */
+export function createModeratedBulkInput(preview: ModerationPreview): BulkMarksInput {
+  return {
+    marks: preview.changes
+      .filter(change => change.scoreChange !== 0 || change.gradeChanged)
+      .map(change => ({
+        studentId: change.studentId,
+        scores: change.after.scores,
+        statuses: change.after.statuses,
+      })),
+  };
+}
+
+/**
+ * Build the audit record for an applied moderation
+ *
+ * @param preview - Moderation preview that was applied
+ * @param reason - Reason given for the moderation
+ * @param appliedBy - ID of the lecturer applying it
+ * @returns Moderation audit record
+ */
+export function createModerationRecord(
+  preview: ModerationPreview,
+  reason: string,
+  appliedBy: string
+): ModerationRecord {
+  return {
+    courseId: preview.statisticsBefore.courseId,
+    rule: preview.rule,
+    reason: reason.trim(),
+    appliedBy,
+    appliedAt: new Date().toISOString(),
+    studentsAffected: createModeratedBulkInput(preview).marks.length,
+    averageBefore: preview.statisticsBefore.averageScore,
+    averageAfter: preview.statisticsAfter.averageScore,
+  };
+}
+
+/**
+ * Describe a moderation rule in plain words (for previews and audit logs)
+ *
+ * @param rule - Moderation rule
+ * @returns Human-readable description
+ *
+ * @example
+ * describeModerationRule({ type: 'cap', maxScore: 85 }) // Returns 'Cap totals at 85'
+ */
+export function describeModerationRule(rule: ModerationRule): string {
+  switch (rule.type) {
+    case 'linear-shift':
+      return `${rule.amount >= 0 ? 'Add' : 'Subtract'} ${Math.abs(rule.amount)} marks to every total`;
+    case 'scale-to-mean':
+      return `Scale totals to a class mean of ${rule.targetMean}`;
+    case 'cap':
+      return `Cap totals at ${rule.maxScore}`;
+    case 'component-bonus':
+      return `Add ${rule.amount} raw marks to ${rule.componentKey}`;
+    default:
+      return 'Unknown moderation rule';
+  }
+}
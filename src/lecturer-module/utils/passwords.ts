@@ -0,0 +1,300 @@
+/**
+ * Lecturer Module - Password Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains the password policy rules and strength estimation.
+ * Passwords are checked against a bundled list of common and breached
+ * passwords (no network lookups) and against the user's own name and email.
+ */
+
+import type {
+  Locale,
+  PasswordContext,
+  PasswordPolicy,
+  PasswordStrength,
+  PasswordStrengthLevel,
+  ValidationRule,
+  ValidationWarning,
+} from '../types';
+import { DEFAULT_LOCALE, DEFAULT_PASSWORD_POLICY } from '../types';
+import { custom, minLength, pattern, required, validateSchema } from './schema';
+import { createValidationError, localizeValidationErrors } from './messages';
+
+// ============================================
+// BUNDLED LISTS
+// ============================================
+
+// Most common passwords from public breach corpora, plus local favourites (lowercase)
+const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '1234567', '12345678', '123456789', '1234567890', '0123456789', '987654321',
+  '111111', '000000', '121212', '123123', '112233', '654321', '666666', '696969', '7777777',
+  'password', 'passw0rd', 'passwd', 'password1', 'pass', 'pass1234', 'p@ssword', 'secret',
+  'qwerty', 'qwertyuiop', 'qwerty123', 'asdfgh', 'asdfghjkl', 'zxcvbnm', '1q2w3e4r', '1qaz2wsx',
+  'qazwsx', 'abc123', 'abcdef', 'abcd1234', 'a1b2c3', 'aa123456', 'iloveyou', 'letmein',
+  'welcome', 'admin', 'administrator', 'root', 'login', 'master', 'changeme', 'default',
+  'monkey', 'dragon', 'shadow', 'sunshine', 'princess', 'football', 'baseball', 'soccer',
+  'superman', 'batman', 'trustno1', 'hunter', 'hunter2', 'starwars', 'michael', 'jennifer',
+  'jordan', 'charlie', 'freedom', 'whatever', 'computer', 'internet', 'cheese', 'killer',
+  'ginger', 'pepper', 'summer', 'winter', 'spring', 'autumn', 'flower', 'hello', 'hello123',
+  'loveme', 'lovely', 'babygirl', 'angel', 'buster', 'tigger', 'cookie', 'chocolate',
+  'mustang', 'harley', 'ranger', 'maggie', 'jessica', 'ashley', 'daniel', 'thomas',
+  'robert', 'matrix', 'access', 'ninja', 'mickey', 'qwerty1', 'zaq12wsx', 'google',
+  'blessed', 'blessing', 'jesus', 'jesuschrist', 'godisgood', 'faith', 'grace', 'amen',
+  'kenya', 'nairobi', 'mombasa', 'kisumu', 'nakuru', 'eldoret', 'harambee', 'jambo',
+  'karibu', 'asante', 'uganda', 'kampala', 'tanzania', 'rwanda', 'africa',
+  'university', 'student', 'lecturer', 'teacher', 'school', 'college', 'exam', 'examination',
+  'strathmore', 'jkuat', 'kenyatta', 'moi', 'maseno', 'egerton',
+]);
+
+// Keyboard rows used in "walk" passwords such as qwerty or asdf
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Common character substitutions (p@ssw0rd -> password)
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+};
+
+// Personal details shorter than this are too likely to match by chance (e.g. 'Al')
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+// Length suggested in feedback even when the policy allows shorter passwords
+const RECOMMENDED_LENGTH = 12;
+
+// Estimated entropy (bits) needed for scores 1-4
+const SCORE_THRESHOLDS = [28, 36, 60, 80];
+
+const STRENGTH_LEVELS: PasswordStrengthLevel[] = ['very-weak', 'weak', 'fair', 'strong', 'very-strong'];
+
+// ============================================
+// LIST CHECKS
+// ============================================
+
+/**
+ * Undo common character substitutions
+ */
+function unleet(value: string): string {
+  return value.replace(/[013457@$!]/g, char => LEET_SUBSTITUTIONS[char]);
+}
+
+/**
+ * Strip digits and symbols added around a base word (password123!, !!summer)
+ */
+function stripAffixes(value: string): string {
+  return value.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+}
+
+/**
+ * Check a password against the bundled common and breached password list
+ * Also catches the usual disguises: capitals, substitutions (p@ssw0rd) and
+ * digits or symbols added at either end (Password123!).
+ *
+ * @param password - Password to check
+ * @returns True if the password is (a disguised form of) a listed password
+ *
+ * @example
+ * isCommonPassword('P@ssw0rd2024!') // Returns true
+ * isCommonPassword('Tsavo-Kettle-48') // Returns false
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = String(password ?? '').toLowerCase();
+  const stripped = stripAffixes(lower);
+  const candidates = [lower, stripped, unleet(lower), unleet(stripped)];
+
+  return candidates.some(candidate => candidate !== '' && COMMON_PASSWORDS.has(candidate));
+}
+
+/**
+ * Split a user's name and email into the fragments a password must not contain
+ */
+function getPersonalTokens(context: PasswordContext): string[] {
+  const localPart = (context.email ?? '').split('@')[0];
+
+  return [context.firstName, context.lastName, localPart, ...localPart.split(/[._\-+\d]+/)]
+    .flatMap(value => (value ?? '').normalize('NFC').toLowerCase().split(/\s+/))
+    .filter(token => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+}
+
+/**
+ * Check whether a password contains the user's name or email
+ * Comparison ignores case and common substitutions (J0hn -> john).
+ *
+ * @param password - Password to check
+ * @param context - The user's name and email
+ * @returns True if any part of the name or email local part appears in the password
+ *
+ * @example
+ * containsPersonalInfo('Wanjiru2024!', { firstName: 'Wanjiru', email: 'w.kamau@uni.ac.ke' }) // Returns true
+ */
+export function containsPersonalInfo(password: string, context: PasswordContext = {}): boolean {
+  const lower = String(password ?? '').normalize('NFC').toLowerCase();
+  const forms = [lower, unleet(lower)];
+
+  return getPersonalTokens(context).some(token => forms.some(form => form.includes(token)));
+}
+
+// ============================================
+// POLICY RULES
+// ============================================
+
+/**
+ * Build the validation rules for a password policy
+ * The personal-information rule reads the user's details from the form data,
+ * so registration forms re-check the password as the name and email change.
+ *
+ * @param policy - Password policy (default: DEFAULT_PASSWORD_POLICY)
+ * @param getContext - Reads the user's name and email from the validated data
+ * @returns Rules for a password field
+ */
+export function passwordRules<TData = unknown>(
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  getContext: (data: TData) => PasswordContext = () => ({})
+): ValidationRule<TData>[] {
+  const rules: ValidationRule<TData>[] = [
+    required('PASSWORD_REQUIRED'),
+    minLength(policy.minLength, 'PASSWORD_TOO_SHORT'),
+  ];
+
+  if (policy.requireUppercase) rules.push(pattern(/\p{Lu}/u, 'PASSWORD_MISSING_UPPERCASE'));
+  if (policy.requireLowercase) rules.push(pattern(/\p{Ll}/u, 'PASSWORD_MISSING_LOWERCASE'));
+  if (policy.requireNumber) rules.push(pattern(/[0-9]/, 'PASSWORD_MISSING_NUMBER'));
+  if (policy.requireSymbol) rules.push(pattern(/[^\p{L}\p{N}]/u, 'PASSWORD_MISSING_SYMBOL'));
+
+  if (policy.rejectCommon) {
+    rules.push(custom<TData>('common', value => (isCommonPassword(String(value)) ? { code: 'PASSWORD_TOO_COMMON' } : null)));
+  }
+
+  if (policy.rejectPersonalInfo) {
+    rules.push(custom<TData>('personalInfo', (value, data) =>
+      containsPersonalInfo(String(value), getContext(data)) ? { code: 'PASSWORD_CONTAINS_PERSONAL_INFO' } : null
+    ));
+  }
+
+  return rules;
+}
+
+// ============================================
+// STRENGTH ESTIMATION
+// ============================================
+
+interface PatternAnalysis {
+  predictable: boolean[];     // Characters that follow from the previous ones
+  hasRepeats: boolean;        // A character repeated 3+ times in a row
+  hasSequences: boolean;      // abc, 321 or a keyboard walk of 3+ characters
+}
+
+/**
+ * Mark characters that repeat or continue a sequence or keyboard walk
+ */
+function analysePatterns(password: string): PatternAnalysis {
+  const chars = Array.from(password.toLowerCase());
+  const predictable = chars.map(() => false);
+  let hasRepeats = false;
+  let hasSequences = false;
+
+  for (let i = 1; i < chars.length; i++) {
+    const step = chars[i].charCodeAt(0) - chars[i - 1].charCodeAt(0);
+
+    if (step === 0) {
+      predictable[i] = true;
+      if (i >= 2 && chars[i - 2] === chars[i]) hasRepeats = true;
+    } else if (Math.abs(step) === 1 && /[a-z0-9]/.test(chars[i])) {
+      predictable[i] = true;
+      if (i >= 2 && chars[i - 1].charCodeAt(0) - chars[i - 2].charCodeAt(0) === step) hasSequences = true;
+    }
+  }
+
+  // Keyboard walks of 4+ keys (qwer, asdf, 7890)
+  for (let i = 0; i + 4 <= chars.length; i++) {
+    const window = chars.slice(i, i + 4).join('');
+    if (KEYBOARD_ROWS.some(row => row.includes(window))) {
+      for (let j = i + 1; j < i + 4; j++) predictable[j] = true;
+      hasSequences = true;
+    }
+  }
+
+  return { predictable, hasRepeats, hasSequences };
+}
+
+/**
+ * Size of the character pool the password draws from
+ */
+function getPoolSize(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/[0-9]/.test(password)) pool += 10;
+  if (/[ -/:-@[-`{-~]/.test(password)) pool += 33;   // ASCII symbols and space
+  if (/[^ -~]/.test(password)) pool += 100;           // Accented letters and other non-ASCII characters
+  return pool;
+}
+
+/**
+ * Count the character classes used (lower, upper, digit, symbol)
+ */
+function countCharacterClasses(password: string): number {
+  return [/\p{Ll}/u, /\p{Lu}/u, /[0-9]/, /[^\p{L}\p{N}]/u].filter(charClass => charClass.test(password)).length;
+}
+
+/**
+ * Estimate password strength while the user types
+ * Scores estimated entropy (character pool x length), counting repeated and
+ * sequential characters at a quarter. Listed passwords score 0 and passwords
+ * that break the policy score at most 1.
+ *
+ * @param password - Password being typed
+ * @param context - The user's name and email (default: none)
+ * @param policy - Password policy (default: DEFAULT_PASSWORD_POLICY)
+ * @param locale - Language of the feedback messages (default: DEFAULT_LOCALE)
+ * @returns Score 0-4, level, whether the policy is met, and feedback
+ *
+ * @example
+ * estimatePasswordStrength('Password1')
+ * // { score: 0, level: 'very-weak', meetsPolicy: false, feedback: [{ code: 'PASSWORD_TOO_COMMON', ... }, ...] }
+ * estimatePasswordStrength('Tsavo-Kettle-48')
+ * // { score: 4, level: 'very-strong', meetsPolicy: true, feedback: [] }
+ */
+export function estimatePasswordStrength(
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  locale: Locale = DEFAULT_LOCALE
+): PasswordStrength {
+  const value = String(password ?? '');
+  const policyErrors = validateSchema(
+    { fields: { password: { rules: passwordRules(policy, () => context) } } },
+    { password: value }
+  ).errors;
+
+  const { predictable, hasRepeats, hasSequences } = analysePatterns(value);
+  const effectiveLength = predictable.reduce((sum, isPredictable) => sum + (isPredictable ? 0.25 : 1), 0);
+  const poolSize = getPoolSize(value);
+  const bits = poolSize > 0 ? effectiveLength * Math.log2(poolSize) : 0;
+
+  let score = SCORE_THRESHOLDS.filter(threshold => bits >= threshold).length;
+  if (isCommonPassword(value)) score = 0;
+  if (policyErrors.length > 0) score = Math.min(score, 1);
+
+  // Suggestions until the password is very strong
+  const suggestions: ValidationWarning[] = [];
+  if (score < 4 && value !== '') {
+    if (Array.from(value).length < RECOMMENDED_LENGTH) {
+      suggestions.push(createValidationError('password', 'PASSWORD_SUGGEST_LONGER', { min: RECOMMENDED_LENGTH }));
+    }
+    if (countCharacterClasses(value) < 3) {
+      suggestions.push(createValidationError('password', 'PASSWORD_SUGGEST_MIX'));
+    }
+    if (hasRepeats) {
+      suggestions.push(createValidationError('password', 'PASSWORD_SUGGEST_NO_REPEATS'));
+    }
+    if (hasSequences) {
+      suggestions.push(createValidationError('password', 'PASSWORD_SUGGEST_NO_SEQUENCES'));
+    }
+  }
+
+  return {
+    score,
+    level: STRENGTH_LEVELS[score],
+    meetsPolicy: policyErrors.length === 0,
+    feedback: localizeValidationErrors([...policyErrors, ...suggestions], locale),
+  };
+}
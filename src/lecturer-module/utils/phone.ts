@@ -0,0 +1,229 @@
+/**
+ * Lecturer Module - Phone Number Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains phone number parsing, validation and formatting.
+ * Numbers are checked against the numbering plans bundled in PHONE_NUMBERING_PLANS
+ * (no network lookups), stored in E.164 form and formatted back for display.
+ */
+
+import type {
+  ParsedPhoneNumber,
+  PhoneCountryCode,
+  PhoneNumberFormat,
+  PhoneNumberingPlan,
+  ValidationIssue,
+} from '../types';
+import { DEFAULT_PHONE_COUNTRY, PHONE_NUMBERING_PLANS } from '../types';
+
+// Digits with optional spaces, dashes, dots and brackets, and an optional leading '+'
+const PHONE_CHARACTERS_PATTERN = /^\+?[\d\s\-.()]+$/;
+
+// International access prefix used instead of '+' (e.g. 00254...)
+const INTERNATIONAL_PREFIX = '00';
+
+// ============================================
+// PARSING
+// ============================================
+
+interface PhoneAnalysis {
+  parsed: ParsedPhoneNumber | null;
+  issue: ValidationIssue | null;
+}
+
+/**
+ * Find the numbering plan whose calling code starts an international number
+ * Longest calling code wins.
+ */
+function findPlanByCallingCode(digits: string): PhoneNumberingPlan | null {
+  return Object.values(PHONE_NUMBERING_PLANS)
+    .filter(plan => digits.startsWith(plan.callingCode))
+    .sort((a, b) => b.callingCode.length - a.callingCode.length)[0] ?? null;
+}
+
+/**
+ * Strip the trunk prefix written in front of a national number
+ * (e.g. '0712345678' or '+44 (0)20 7946 0018'); no bundled plan has national
+ * numbers starting with their trunk prefix, so this never eats a real digit.
+ */
+function stripTrunkPrefix(digits: string, plan: PhoneNumberingPlan): string {
+  if (plan.trunkPrefix !== '' && digits.startsWith(plan.trunkPrefix)) {
+    return digits.slice(plan.trunkPrefix.length);
+  }
+  return digits;
+}
+
+/**
+ * Parse a phone number and report the first rule it breaks
+ */
+function analysePhoneNumber(phone: string, defaultCountry: PhoneCountryCode): PhoneAnalysis {
+  const value = String(phone ?? '').trim();
+
+  if (value === '') {
+    return { parsed: null, issue: { code: 'PHONE_REQUIRED' } };
+  }
+
+  if (!PHONE_CHARACTERS_PATTERN.test(value)) {
+    return { parsed: null, issue: { code: 'PHONE_INVALID_CHARACTERS' } };
+  }
+
+  let digits = value.replace(/\D/g, '');
+  let plan: PhoneNumberingPlan | null;
+
+  if (value.startsWith('+') || digits.startsWith(INTERNATIONAL_PREFIX)) {
+    // International: +254 712 345 678 or 00254 712 345 678
+    if (!value.startsWith('+')) {
+      digits = digits.slice(INTERNATIONAL_PREFIX.length);
+    }
+
+    plan = findPlanByCallingCode(digits);
+    if (!plan) {
+      return { parsed: null, issue: { code: 'PHONE_UNKNOWN_COUNTRY_CODE' } };
+    }
+    digits = stripTrunkPrefix(digits.slice(plan.callingCode.length), plan);
+  } else {
+    // National: 0712 345 678, or the calling code without '+' (254712345678)
+    plan = PHONE_NUMBERING_PLANS[defaultCountry] ?? PHONE_NUMBERING_PLANS[DEFAULT_PHONE_COUNTRY];
+
+    if (
+      digits.startsWith(plan.callingCode) &&
+      digits.length === plan.callingCode.length + plan.nationalNumberLength
+    ) {
+      digits = digits.slice(plan.callingCode.length);
+    } else {
+      digits = stripTrunkPrefix(digits, plan);
+    }
+  }
+
+  if (digits.length < plan.nationalNumberLength) {
+    return { parsed: null, issue: { code: 'PHONE_TOO_SHORT', params: { min: plan.nationalNumberLength } } };
+  }
+
+  if (digits.length > plan.nationalNumberLength) {
+    return { parsed: null, issue: { code: 'PHONE_TOO_LONG', params: { max: plan.nationalNumberLength } } };
+  }
+
+  if (!plan.pattern.test(digits)) {
+    return { parsed: null, issue: { code: 'PHONE_INVALID', params: { country: plan.country } } };
+  }
+
+  return {
+    parsed: {
+      country: plan.country,
+      callingCode: plan.callingCode,
+      nationalNumber: digits,
+      e164: `+${plan.callingCode}${digits}`,
+    },
+    issue: null,
+  };
+}
+
+/**
+ * Parse a phone number against the bundled numbering plans
+ * Numbers starting with '+' or '00' carry their own country; others are read
+ * as national numbers of the default country (trunk prefix optional).
+ *
+ * @param phone - Phone number as entered (spaces, dashes, dots and brackets allowed)
+ * @param defaultCountry - Country of numbers without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @returns Parsed number, or null if it is not valid
+ *
+ * @example
+ * parsePhoneNumber('0712 345 678')
+ * // Returns { country: 'KE', callingCode: '254', nationalNumber: '712345678', e164: '+254712345678' }
+ */
+export function parsePhoneNumber(
+  phone: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ParsedPhoneNumber | null {
+  return analysePhoneNumber(phone, defaultCountry).parsed;
+}
+
+/**
+ * Check a phone number against the bundled numbering plans
+ *
+ * @param phone - Phone number as entered
+ * @param defaultCountry - Country of numbers without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @returns The first rule the number breaks, or null when it is valid
+ *
+ * @example
+ * checkPhoneNumber('0812 345 678') // Returns { code: 'PHONE_INVALID', params: { country: 'KE' } }
+ */
+export function checkPhoneNumber(
+  phone: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ValidationIssue | null {
+  return analysePhoneNumber(phone, defaultCountry).issue;
+}
+
+// ============================================
+// NORMALIZATION & FORMATTING
+// ============================================
+
+/**
+ * Split a national number into display groups; extra digits join the last group
+ */
+function groupDigits(nationalNumber: string, groups: number[]): string {
+  const parts: string[] = [];
+  let offset = 0;
+
+  groups.forEach((size, index) => {
+    const end = index === groups.length - 1 ? nationalNumber.length : offset + size;
+    const part = nationalNumber.slice(offset, end);
+    if (part) parts.push(part);
+    offset = end;
+  });
+
+  return parts.join(' ');
+}
+
+/**
+ * Normalize a phone number to E.164 for storage and the API
+ *
+ * @param phone - Phone number as entered
+ * @param defaultCountry - Country of numbers without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @returns E.164 number, or the trimmed input if it cannot be parsed
+ *
+ * @example
+ * normalizePhoneNumber('0712-345-678')       // Returns '+254712345678'
+ * normalizePhoneNumber('(415) 555-2671', 'US') // Returns '+14155552671'
+ */
+export function normalizePhoneNumber(
+  phone: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string {
+  return parsePhoneNumber(phone, defaultCountry)?.e164 ?? String(phone ?? '').trim();
+}
+
+/**
+ * Format a phone number for display (profile, exports)
+ *
+ * @param phone - Phone number, usually stored in E.164
+ * @param format - Display format (default: 'INTERNATIONAL')
+ * @param defaultCountry - Country of numbers without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @returns Formatted number, or the input unchanged if it cannot be parsed
+ *
+ * @example
+ * formatPhoneNumber('+254712345678')             // Returns '+254 712 345 678'
+ * formatPhoneNumber('+254712345678', 'NATIONAL') // Returns '0712 345 678'
+ */
+export function formatPhoneNumber(
+  phone: string,
+  format: PhoneNumberFormat = 'INTERNATIONAL',
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): string {
+  const parsed = parsePhoneNumber(phone, defaultCountry);
+  if (!parsed) return phone;
+
+  const plan = PHONE_NUMBERING_PLANS[parsed.country];
+  const grouped = groupDigits(parsed.nationalNumber, plan.groups);
+
+  switch (format) {
+    case 'E164':
+      return parsed.e164;
+    case 'NATIONAL':
+      return `${plan.trunkPrefix}${grouped}`;
+    case 'INTERNATIONAL':
+    default:
+      return `+${parsed.callingCode} ${grouped}`;
+  }
+}
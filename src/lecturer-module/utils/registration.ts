@@ -0,0 +1,177 @@
+/**
+ * Lecturer Module - Registration Number Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains registration number validation, normalization and lookup.
+ * The format is configurable per institution (RegistrationNumberFormat): numbers
+ * are compared without case, whitespace or separators and written back in the
+ * format's canonical form, so imports and searches accept 'sct211 0001 2021'
+ * for 'SCT211-0001/2021'.
+ */
+
+import type {
+  CheckDigitAlgorithm,
+  RegistrationNumberFormat,
+  RegistrationNumberSegment,
+  Student,
+  ValidationIssue,
+} from '../types';
+import { DEFAULT_REGISTRATION_NUMBER_FORMAT } from '../types';
+
+// Characters users type between segments (dashes, slashes, dots, underscores, spaces)
+const SEPARATOR_PATTERN = /[\s\-/._]+/g;
+
+const SEGMENT_PATTERNS: Record<RegistrationNumberSegment['type'], string> = {
+  letters: '[A-Z]',
+  digits: '[0-9]',
+  alphanumeric: '[A-Z0-9]',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Strip case, whitespace and separators (' sct211-0001/2021 ' -> 'SCT21100012021')
+ */
+function compactRegistrationNumber(value: string): string {
+  return String(value ?? '').normalize('NFKC').toUpperCase().replace(SEPARATOR_PATTERN, '');
+}
+
+/**
+ * Regex matching a compact number, one capture group per segment
+ */
+function buildCompactPattern(format: RegistrationNumberFormat): RegExp {
+  const groups = format.segments.map(segment => `(${SEGMENT_PATTERNS[segment.type]}{${segment.length}})`);
+  return new RegExp(`^${groups.join('')}$`);
+}
+
+/**
+ * Compute the check digit for a string of digits
+ *
+ * @returns The check digit, or null when mod11 gives a remainder that is never issued
+ */
+function computeCheckDigit(digits: string, algorithm: CheckDigitAlgorithm): number | null {
+  const values = Array.from(digits).map(Number).reverse();
+
+  if (algorithm === 'luhn') {
+    const sum = values.reduce((total, digit, index) => {
+      if (index % 2 === 1) return total + digit;
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+    return (10 - (sum % 10)) % 10;
+  }
+
+  const sum = values.reduce((total, digit, index) => total + digit * (index + 2), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? null : check;
+}
+
+/**
+ * Check the last character of a compact number against the preceding digits
+ */
+function hasValidCheckDigit(compact: string, algorithm: CheckDigitAlgorithm): boolean {
+  const last = compact.slice(-1);
+  if (!/[0-9]/.test(last)) return false;
+
+  const payload = compact.slice(0, -1).replace(/[^0-9]/g, '');
+  return computeCheckDigit(payload, algorithm) === Number(last);
+}
+
+// ============================================
+// VALIDATION & NORMALIZATION
+// ============================================
+
+/**
+ * Check a registration number against a format
+ * Case, whitespace and separators are ignored (see normalizeRegistrationNumber).
+ *
+ * @param registrationNumber - Registration number as entered or imported
+ * @param format - Institution's format (default: DEFAULT_REGISTRATION_NUMBER_FORMAT)
+ * @returns The problem found, or null when the number fits the format
+ *
+ * @example
+ * checkRegistrationNumber('sct211 0001 2021') // Returns null
+ * checkRegistrationNumber('SCT211-01/2021')   // Returns { code: 'REGISTRATION_NUMBER_INVALID', params: { registrationNumber: 'SCT211-01/2021', example: 'SCT211-0001/2021' } }
+ */
+export function checkRegistrationNumber(
+  registrationNumber: string,
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): ValidationIssue | null {
+  const compact = compactRegistrationNumber(registrationNumber);
+
+  if (!buildCompactPattern(format).test(compact)) {
+    return {
+      code: 'REGISTRATION_NUMBER_INVALID',
+      params: { registrationNumber: normalizeRegistrationNumber(registrationNumber, format), example: format.example },
+    };
+  }
+
+  if (format.checkDigit && !hasValidCheckDigit(compact, format.checkDigit)) {
+    return {
+      code: 'REGISTRATION_NUMBER_CHECK_DIGIT',
+      params: { registrationNumber: normalizeRegistrationNumber(registrationNumber, format) },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Write a registration number in the format's canonical form
+ * Upper-cases it, drops whitespace and rebuilds the separators, so
+ * 'sct211/0001-2021' and 'SCT 211 0001 2021' both become 'SCT211-0001/2021'.
+ *
+ * @param registrationNumber - Registration number as entered or imported
+ * @param format - Institution's format (default: DEFAULT_REGISTRATION_NUMBER_FORMAT)
+ * @returns Canonical number, or the trimmed upper-case input if it does not fit the format
+ */
+export function normalizeRegistrationNumber(
+  registrationNumber: string,
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): string {
+  const match = buildCompactPattern(format).exec(compactRegistrationNumber(registrationNumber));
+
+  if (!match) {
+    return String(registrationNumber ?? '').trim().toUpperCase().replace(/\s+/g, ' ');
+  }
+
+  return format.segments
+    .map((segment, index) => `${match[index + 1]}${index < format.segments.length - 1 ? segment.separator ?? '' : ''}`)
+    .join('');
+}
+
+/**
+ * Check whether two registration numbers are the same number
+ * Numbers are compared without case, whitespace or separators.
+ *
+ * @example
+ * isSameRegistrationNumber('SCT211-0001/2021', 'sct2110001 2021') // Returns true
+ */
+export function isSameRegistrationNumber(a: string, b: string): boolean {
+  const compactA = compactRegistrationNumber(a);
+  return compactA !== '' && compactA === compactRegistrationNumber(b);
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Find a student by registration number
+ * The query may use any case, spacing or separators.
+ *
+ * @param students - Students to search
+ * @param registrationNumber - Registration number typed by the lecturer
+ * @returns The matching student, or undefined if none matches
+ *
+ * @example
+ * findStudentByRegistrationNumber(students, 'sct211 0001 2021')
+ */
+export function findStudentByRegistrationNumber<TStudent extends Pick<Student, 'registrationNumber'>>(
+  students: TStudent[],
+  registrationNumber: string
+): TStudent | undefined {
+  return students.find(student => isSameRegistrationNumber(student.registrationNumber, registrationNumber));
+}
@@ -0,0 +1,141 @@
+/**
+ * Lecturer Module - Rounding Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains the rounding policy used for totals and grading.
+ * Totals are rounded to the policy's decimal places; the score used to look up
+ * a grade is rounded to a whole number so it always lands inside a boundary.
+ */
+
+import type {
+  AssessmentScheme,
+  GradingScale,
+  RoundingMode,
+  RoundingPolicy,
+} from '../types';
+import { DEFAULT_GRADING_SCALE, DEFAULT_ROUNDING_POLICY } from '../types';
+
+// ============================================
+// POLICY LOOKUP
+// ============================================
+
+/**
+ * Get the rounding policy of a scheme
+ *
+ * @param scheme - Assessment scheme
+ * @returns The scheme's rounding policy, or DEFAULT_ROUNDING_POLICY
+ */
+export function getRoundingPolicy(scheme?: AssessmentScheme): RoundingPolicy {
+  return scheme?.rounding ?? DEFAULT_ROUNDING_POLICY;
+}
+
+// ============================================
+// ROUNDING
+// ============================================
+
+/**
+ * Round a value to a number of decimal places using a rounding mode
+ * 'borderline' behaves like 'half-up' here; it only differs when grading.
+ * Negative values round like their absolute value (half away from zero), so
+ * differences round the same way whichever side is subtracted.
+ *
+ * @param value - Value to round
+ * @param mode - Rounding mode
+ * @param decimals - Decimal places to keep
+ * @returns Rounded value
+ *
+ * @example
+ * roundValue(89.5, 'half-up', 0)   // Returns 90
+ * roundValue(88.5, 'half-even', 0) // Returns 88
+ * roundValue(89.99, 'truncate', 0) // Returns 89
+ * roundValue(-0.125, 'half-up', 2)  // Returns -0.13
+ */
+export function roundValue(value: number, mode: RoundingMode, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+
+  const sign = value < 0 ? -1 : 1;
+
+  // Strip floating point noise (e.g. 89.445 * 100 = 8944.499999...)
+  const shifted = Number((Math.abs(value) * factor).toFixed(9));
+
+  let rounded: number;
+
+  switch (mode) {
+    case 'truncate':
+      rounded = Math.trunc(shifted);
+      break;
+
+    case 'half-even': {
+      const floor = Math.floor(shifted);
+      const fraction = shifted - floor;
+
+      if (Math.abs(fraction - 0.5) < 1e-9) {
+        rounded = floor % 2 === 0 ? floor : floor + 1;
+      } else {
+        rounded = Math.round(shifted);
+      }
+      break;
+    }
+
+    case 'half-up':
+    case 'borderline':
+    default:
+      rounded = Math.round(shifted);
+      break;
+  }
+
+  // Avoid -0 when a small negative value rounds to zero
+  return rounded === 0 ? 0 : sign * rounded / factor;
+}
+
+/**
+ * Round a total score using a rounding policy
+ *
+ * @param value - Total score
+ * @param policy - Rounding policy (default: DEFAULT_ROUNDING_POLICY)
+ * @returns Total rounded to policy.decimals places
+ */
+export function roundScore(
+  value: number,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+): number {
+  return roundValue(value, policy.mode, policy.decimals);
+}
+
+/**
+ * Round a total to the whole score used for grade lookup
+ * Grade boundaries are whole numbers, so a fractional total (e.g. 89.5)
+ * must be resolved to one side of the boundary before grading.
+ *
+ * @param totalScore - Total score
+ * @param policy - Rounding policy (default: DEFAULT_ROUNDING_POLICY)
+ * @param scale - Grading scale, used by 'borderline' mode (default: DEFAULT_GRADING_SCALE)
+ * @returns Whole score used to determine the grade
+ *
+ * @example
+ * roundScoreForGrading(89.5) // Returns 90 (half-up)
+ * roundScoreForGrading(89, { mode: 'borderline', decimals: 2, borderlineThreshold: 1 }) // Returns 90
+ */
+export function roundScoreForGrading(
+  totalScore: number,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): number {
+  if (policy.mode !== 'borderline') {
+    return roundValue(totalScore, policy.mode, 0);
+  }
+
+  const threshold = policy.borderlineThreshold ?? 0;
+
+  // Raise scores that sit just below the next boundary up to it
+  const nextBoundary = scale.boundaries
+    .map(boundary => boundary.minScore)
+    .filter(minScore => minScore > totalScore)
+    .sort((a, b) => a - b)[0];
+
+  if (nextBoundary !== undefined && nextBoundary - totalScore <= threshold) {
+    return nextBoundary;
+  }
+
+  return roundValue(totalScore, 'truncate', 0);
+}
@@ -0,0 +1,508 @@
+/**
+ * Lecturer Module - Declarative Validation Engine
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file runs declarative validation schemas: each field lists its rules
+ * (built with the rule factories below) and object-level refinements check
+ * fields together. A schema produces a ValidationResult and also plugs into
+ * react-hook-form as a resolver, so forms get live per-field errors from the
+ * same rules used before data is sent to the backend. Rules report error codes;
+ * messages come from the catalog in messages.ts. Server-side checks (asyncFields)
+ * run through validateSchemaAsync, debounced by createAsyncValidator.
+ */
+
+import type { FieldError, FieldErrors, FieldValues, Resolver } from 'react-hook-form';
+import { appendErrors } from 'react-hook-form';
+import { toNestErrors, validateFieldsNatively } from '@hookform/resolvers';
+import type {
+  AsyncValidator,
+  FieldSchema,
+  Locale,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationResult,
+  ValidationRule,
+  ValidationSchema,
+} from '../types';
+import { DEFAULT_ASYNC_VALIDATION_DEBOUNCE_MS, DEFAULT_LOCALE } from '../types';
+import { createValidationError, formatValidationMessage } from './messages';
+
+/**
+ * Error found while running a schema, with the path it was found at
+ */
+interface SchemaIssue {
+  path: string;
+  error: ValidationError;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Read a value by dot path (e.g. 'scores.quiz')
+ */
+function getValueAtPath(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+/**
+ * Length of a text in characters (code points, so accented and non-Latin letters count once)
+ */
+function textLength(value: unknown): number {
+  return Array.from(String(value)).length;
+}
+
+/**
+ * Check whether a value counts as not entered
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Run one field's rules
+ */
+function runField<TData>(
+  path: string,
+  field: FieldSchema<TData>,
+  data: TData
+): SchemaIssue[] {
+  if (field.when && !field.when(data)) return [];
+
+  const raw = getValueAtPath(data, path);
+  const value = field.normalize ? field.normalize(raw) : raw;
+  const issues: SchemaIssue[] = [];
+
+  for (const rule of field.rules) {
+    const issue = rule.validate(value, data);
+    if (issue === null) continue;
+
+    issues.push({ path, error: createValidationError(field.errorField ?? path, issue.code, issue.params) });
+    if (rule.stopOnError) break;
+  }
+
+  return issues;
+}
+
+/**
+ * Run a whole schema: field rules in order, then refinements
+ */
+function runSchema<TData>(schema: ValidationSchema<TData>, data: TData): SchemaIssue[] {
+  const issues = Object.entries(schema.fields).flatMap(([path, field]) => runField(path, field, data));
+
+  (schema.refinements ?? []).forEach(refinement => {
+    refinement(data, issues.map(issue => issue.error)).forEach(error => {
+      issues.push({ path: error.field, error });
+    });
+  });
+
+  return issues;
+}
+
+// ============================================
+// RULE FACTORIES
+// ============================================
+
+/**
+ * Value must be entered (not undefined, null or an empty string)
+ * Stops the field's remaining rules when it fails.
+ */
+export function required<TData = unknown>(
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'required',
+    stopOnError: true,
+    validate: value => (isEmpty(value) ? { code, params } : null),
+  };
+}
+
+/**
+ * Value must be a number (not NaN)
+ * Stops the field's remaining rules when it fails.
+ */
+export function isNumber<TData = unknown>(
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'number',
+    stopOnError: true,
+    validate: value => (typeof value !== 'number' || isNaN(value) ? { code, params } : null),
+  };
+}
+
+/**
+ * Number must be at least the limit (empty values are skipped)
+ * The limit is passed to the message as {min}.
+ */
+export function min<TData = unknown>(
+  limit: number,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'min',
+    validate: value => (!isEmpty(value) && Number(value) < limit ? { code, params: { min: limit, ...params } } : null),
+  };
+}
+
+/**
+ * Number must not exceed the limit (empty values are skipped)
+ * The limit is passed to the message as {max}.
+ */
+export function max<TData = unknown>(
+  limit: number,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'max',
+    validate: value => (!isEmpty(value) && Number(value) > limit ? { code, params: { max: limit, ...params } } : null),
+  };
+}
+
+/**
+ * Text must have at least the given number of characters (empty values are skipped)
+ * Characters are counted as Unicode code points. The length is passed to the message as {min}.
+ */
+export function minLength<TData = unknown>(
+  length: number,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'minLength',
+    validate: value => (!isEmpty(value) && textLength(value) < length ? { code, params: { min: length, ...params } } : null),
+  };
+}
+
+/**
+ * Text must not have more than the given number of characters (empty values are skipped)
+ * Characters are counted as Unicode code points. The length is passed to the message as {max}.
+ */
+export function maxLength<TData = unknown>(
+  length: number,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'maxLength',
+    validate: value => (!isEmpty(value) && textLength(value) > length ? { code, params: { max: length, ...params } } : null),
+  };
+}
+
+/**
+ * Text must match a regular expression (empty values are skipped)
+ */
+export function pattern<TData = unknown>(
+  regex: RegExp,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'pattern',
+    validate: value => (!isEmpty(value) && !regex.test(String(value)) ? { code, params } : null),
+  };
+}
+
+/**
+ * Number must have at most the given number of decimal places (empty values are skipped)
+ * The number of places is passed to the message as {decimals}.
+ */
+export function maxDecimals<TData = unknown>(
+  places: number,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationRule<TData> {
+  return {
+    name: 'decimals',
+    validate: value => {
+      if (isEmpty(value)) return null;
+
+      const decimalPlaces = (String(value).split('.')[1] || '').length;
+      return decimalPlaces > places ? { code, params: { decimals: places, ...params } } : null;
+    },
+  };
+}
+
+/**
+ * Rule with custom logic
+ *
+ * @param name - Rule name
+ * @param validate - Returns the error code and params, or null when the value passes
+ * @param stopOnError - Skip the field's remaining rules when this one fails (default: false)
+ */
+export function custom<TData = unknown>(
+  name: string,
+  validate: ValidationRule<TData>['validate'],
+  stopOnError: boolean = false
+): ValidationRule<TData> {
+  return { name, validate, stopOnError };
+}
+
+// ============================================
+// SCHEMA VALIDATION
+// ============================================
+
+/**
+ * Validate data against a schema
+ * Warning checks only run when the data has no errors.
+ *
+ * @param schema - Validation schema
+ * @param data - Data to validate
+ * @returns Validation result (errors in schema order, refinements last; warnings)
+ *
+ * @example
+ * const schema: ValidationSchema<{ email: string }> = {
+ *   fields: {
+ *     email: { rules: [required('EMAIL_REQUIRED'), pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'EMAIL_INVALID')] },
+ *   },
+ * };
+ * validateSchema(schema, { email: 'nope' })
+ * // Returns { isValid: false, errors: [{ field: 'email', code: 'EMAIL_INVALID', message: 'Invalid email format' }], warnings: [] }
+ */
+export function validateSchema<TData>(schema: ValidationSchema<TData>, data: TData): ValidationResult {
+  const errors = runSchema(schema, data).map(issue => issue.error);
+  const warnings = errors.length === 0
+    ? (schema.warnings ?? []).flatMap(check => check(data, errors))
+    : [];
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Validate a single field of a schema (refinements are not run)
+ *
+ * @param schema - Validation schema
+ * @param path - Field path (e.g. 'scores.quiz')
+ * @param data - Whole data object (rules may look at other fields)
+ * @returns Errors for the field, or an empty array if it passes or is not in the schema
+ */
+export function validateSchemaField<TData>(
+  schema: ValidationSchema<TData>,
+  path: string,
+  data: TData
+): ValidationError[] {
+  const field = schema.fields[path];
+  if (!field) return [];
+
+  return runField(path, field, data).map(issue => issue.error);
+}
+
+// ============================================
+// ASYNC VALIDATION
+// ============================================
+
+/**
+ * Validate data against a schema, including its server-side checks
+ * The synchronous rules run first; asyncFields are checked in parallel, and
+ * only for fields that passed their rules and are not empty. A check that
+ * throws counts as passing (the backend checks again on save). Warnings run
+ * only when there are no errors.
+ *
+ * @param schema - Validation schema with asyncFields
+ * @param data - Data to validate
+ * @param signal - Aborts the checks' requests (the result should then be ignored)
+ * @returns Validation result with synchronous and server-side errors
+ *
+ * @example
+ * const result = await validateSchemaAsync({
+ *   fields: { email: { rules: [required('EMAIL_REQUIRED')] } },
+ *   asyncFields: {
+ *     email: {
+ *       check: async (email, _data, signal) => {
+ *         const response = await checkEmailAvailability(String(email), { signal });
+ *         return response.success && !response.data.available ? { code: 'EMAIL_ALREADY_REGISTERED' } : null;
+ *       },
+ *     },
+ *   },
+ * }, { email: 'taken@example.com' });
+ * // { isValid: false, errors: [{ field: 'email', code: 'EMAIL_ALREADY_REGISTERED', ... }], warnings: [] }
+ */
+export async function validateSchemaAsync<TData>(
+  schema: ValidationSchema<TData>,
+  data: TData,
+  signal: AbortSignal = new AbortController().signal
+): Promise<ValidationResult> {
+  const issues = runSchema(schema, data);
+  const failedPaths = new Set(issues.map(issue => issue.path));
+
+  const checks = Object.entries(schema.asyncFields ?? {})
+    .filter(([path, field]) => !failedPaths.has(path) && (!field.when || field.when(data)))
+    .map(async ([path, field]) => {
+      const raw = getValueAtPath(data, path);
+      const normalize = schema.fields[path]?.normalize;
+      const value = normalize ? normalize(raw) : raw;
+      if (isEmpty(value)) return null;
+
+      try {
+        const issue = await field.check(value, data, signal);
+        const errorField = field.errorField ?? schema.fields[path]?.errorField ?? path;
+        return issue ? createValidationError(errorField, issue.code, issue.params) : null;
+      } catch (err) {
+        return null;
+      }
+    });
+
+  const asyncErrors = (await Promise.all(checks)).filter((error): error is ValidationError => error !== null);
+  const errors = [...issues.map(issue => issue.error), ...asyncErrors];
+  const warnings = errors.length === 0
+    ? (schema.warnings ?? []).flatMap(check => check(data, errors))
+    : [];
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Create a debounced server-side validator for a form
+ * Each validate() call waits debounceMs, then runs validateSchemaAsync. A newer
+ * call (or cancel()) makes the pending one stale: its timer is cleared, its
+ * requests are aborted and its promise resolves with null. If building the
+ * schema or a rule throws, the promise rejects with that error (unless stale).
+ *
+ * @param schema - Validation schema, or a function building it from the data
+ * @param debounceMs - Wait after the last call before checking (default: DEFAULT_ASYNC_VALIDATION_DEBOUNCE_MS)
+ * @returns Validator with validate(data) and cancel()
+ *
+ * @example
+ * const validator = createAsyncValidator(registrationSchema);
+ * // On every change; only the last call within 400 ms reaches the server
+ * const result = await validator.validate(formValues);
+ * if (result) setServerErrors(result.errors); // null = superseded by a newer change
+ */
+export function createAsyncValidator<TData>(
+  schema: ValidationSchema<TData> | ((data: TData) => ValidationSchema<TData>),
+  debounceMs: number = DEFAULT_ASYNC_VALIDATION_DEBOUNCE_MS
+): AsyncValidator<TData> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let settlePending: ((result: ValidationResult | null) => void) | null = null;
+
+  const cancel = (): void => {
+    if (timer !== null) clearTimeout(timer);
+    controller?.abort();
+    settlePending?.(null);
+    timer = null;
+    controller = null;
+    settlePending = null;
+  };
+
+  const validate = (data: TData): Promise<ValidationResult | null> => {
+    cancel();
+
+    return new Promise((resolve, reject) => {
+      const current = new AbortController();
+      controller = current;
+      settlePending = resolve;
+
+      timer = setTimeout(async () => {
+        timer = null;
+        let result: ValidationResult;
+
+        try {
+          const resolved = typeof schema === 'function' ? schema(data) : schema;
+          result = await validateSchemaAsync(resolved, data, current.signal);
+        } catch (error) {
+          // A newer call or cancel() has already settled this one with null
+          if (current.signal.aborted) return;
+
+          controller = null;
+          settlePending = null;
+          reject(error);
+          return;
+        }
+
+        // A newer call or cancel() has already settled this one with null
+        if (current.signal.aborted) return;
+
+        controller = null;
+        settlePending = null;
+        resolve(result);
+      }, debounceMs);
+    });
+  };
+
+  return { validate, cancel };
+}
+
+// ============================================
+// REACT-HOOK-FORM RESOLVER
+// ============================================
+
+/**
+ * Create a react-hook-form resolver from a schema
+ * Field errors are reported at their schema path (e.g. 'scores.quiz');
+ * refinement errors at their ValidationError field (e.g. 'total'). The form
+ * error type is the error code (e.g. 'MARK_OUT_OF_RANGE') and the message is
+ * rendered in the given locale. With criteriaMode 'all', every failing rule of
+ * a field is kept in `types`.
+ * Server-side checks (asyncFields) are not run here; use createAsyncValidator.
+ *
+ * @param schema - Validation schema, or a function building it from the form values
+ * @param locale - Message language (default: DEFAULT_LOCALE)
+ * @returns Resolver for useForm
+ *
+ * @example
+ * const { register, formState: { errors } } = useForm<LecturerRegistrationData>({
+ *   resolver: createSchemaResolver(LECTURER_REGISTRATION_SCHEMA),
+ *   mode: 'onChange',
+ * });
+ */
+export function createSchemaResolver<TFieldValues extends FieldValues>(
+  schema: ValidationSchema<TFieldValues> | ((values: TFieldValues) => ValidationSchema<TFieldValues>),
+  locale: Locale = DEFAULT_LOCALE
+): Resolver<TFieldValues> {
+  return (values, _context, options) => {
+    const resolved = typeof schema === 'function' ? schema(values) : schema;
+    const issues = runSchema(resolved, values);
+
+    if (issues.length === 0) {
+      if (options.shouldUseNativeValidation) validateFieldsNatively({}, options);
+      return { values, errors: {} };
+    }
+
+    const validateAllFieldCriteria = !options.shouldUseNativeValidation && options.criteriaMode === 'all';
+    const errors: Record<string, FieldError> = {};
+
+    issues.forEach(({ path, error }) => {
+      const type = error.code;
+      const message = formatValidationMessage(error.code, error.params, locale);
+
+      if (!errors[path]) {
+        errors[path] = { type, message };
+      }
+
+      if (validateAllFieldCriteria) {
+        const existing = errors[path].types?.[type];
+
+        errors[path] = appendErrors(
+          path,
+          validateAllFieldCriteria,
+          errors,
+          type,
+          existing ? ([] as string[]).concat(existing as string | string[], message) : message
+        ) as FieldError;
+      }
+    });
+
+    return {
+      values: {},
+      errors: toNestErrors(errors as FieldErrors, options),
+    };
+  };
+}
@@ -0,0 +1,448 @@
+/**
+ * Lecturer Module - Descriptive Statistics Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file contains the descriptive statistics used in class reports:
+ * median, mode, standard deviation, quartiles, skewness and histograms,
+ * for total scores and for each assessment component, plus the significance
+ * tests used to compare cohorts.
+ */
+
+import type {
+  AssessmentScheme,
+  ComponentStatistics,
+  DescriptiveStatistics,
+  HistogramBin,
+  SignificanceTest,
+  StudentMarks,
+} from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_HISTOGRAM_BIN_WIDTH,
+  DEFAULT_SIGNIFICANCE_LEVEL,
+  MAX_TOTAL_MARKS,
+} from '../types';
+import { getOrderedComponents } from './assessment';
+import { roundValue } from './rounding';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Sort values ascending without changing the input
+ */
+function sortAscending(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Arithmetic mean (unrounded)
+ */
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample variance (unrounded, n - 1 denominator)
+ */
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1);
+}
+
+// ============================================
+// DISTRIBUTIONS
+// ============================================
+
+/**
+ * Standard normal cumulative distribution
+ * Abramowitz & Stegun 7.1.26 approximation of erf (error below 1.5e-7).
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+
+  let series = 1 + 1.90015e-10;
+  coefficients.forEach((coefficient, i) => {
+    series += coefficient / (x + 1 + i);
+  });
+
+  const shifted = x + 5.5;
+  return (x + 0.5) * Math.log(shifted) - shifted + Math.log((Math.sqrt(2 * Math.PI) * series) / x);
+}
+
+/**
+ * Continued fraction for the regularized incomplete beta function
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let term = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / (Math.abs(1 + term * d) < tiny ? tiny : 1 + term * d);
+    c = Math.abs(1 + term / c) < tiny ? tiny : 1 + term / c;
+    result *= d * c;
+
+    // Odd step
+    term = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / (Math.abs(1 + term * d) < tiny ? tiny : 1 + term * d);
+    c = Math.abs(1 + term / c) < tiny ? tiny : 1 + term / c;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic with the given degrees of freedom
+ */
+function studentTTwoSidedP(t: number, degreesOfFreedom: number): number {
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+// ============================================
+// SINGLE STATISTICS
+// ============================================
+
+/**
+ * Calculate a percentile using linear interpolation between the closest ranks
+ *
+ * @param values - Scores
+ * @param percentile - Percentile between 0 and 100
+ * @returns Interpolated percentile, or 0 if there are no values
+ *
+ * @example
+ * calculatePercentile([50, 60, 70, 80], 25) // Returns 57.5
+ */
+export function calculatePercentile(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = sortAscending(values);
+  const position = (Math.max(0, Math.min(100, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return roundValue(sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower), 'half-up', 2);
+}
+
+/**
+ * Calculate the median
+ *
+ * @param values - Scores
+ * @returns Median, or 0 if there are no values
+ */
+export function calculateMedian(values: number[]): number {
+  return calculatePercentile(values, 50);
+}
+
+/**
+ * Calculate the mode(s)
+ *
+ * @param values - Scores
+ * @returns Every value that occurs most often (ascending), or [] if no value repeats
+ *
+ * @example
+ * calculateMode([70, 80, 80, 90, 90]) // Returns [80, 90]
+ * calculateMode([70, 80, 90]) // Returns []
+ */
+export function calculateMode(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+  const highest = Math.max(0, ...counts.values());
+  if (highest < 2) return [];
+
+  return sortAscending(
+    Array.from(counts.entries())
+      .filter(([, count]) => count === highest)
+      .map(([value]) => value)
+  );
+}
+
+/**
+ * Calculate the sample standard deviation
+ *
+ * @param values - Scores
+ * @returns Standard deviation (n - 1 denominator), or 0 for fewer than 2 values
+ */
+export function calculateStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  const squares = values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0);
+
+  return roundValue(Math.sqrt(squares / (values.length - 1)), 'half-up', 2);
+}
+
+/**
+ * Calculate the sample skewness (adjusted Fisher-Pearson coefficient)
+ *
+ * @param values - Scores
+ * @returns Skewness, or 0 for fewer than 3 values or no spread
+ */
+export function calculateSkewness(values: number[]): number {
+  const n = values.length;
+  if (n < 3) return 0;
+
+  const average = mean(values);
+  const sd = Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (n - 1));
+  if (sd === 0) return 0;
+
+  const cubes = values.reduce((sum, value) => sum + Math.pow((value - average) / sd, 3), 0);
+
+  return roundValue((n / ((n - 1) * (n - 2))) * cubes, 'half-up', 2);
+}
+
+/**
+ * Count scores into equal-width bins from 0 to maxValue
+ *
+ * @param values - Scores
+ * @param binWidth - Width of each bin (default: DEFAULT_HISTOGRAM_BIN_WIDTH)
+ * @param maxValue - Upper end of the range (default: MAX_TOTAL_MARKS)
+ * @returns Bins covering [min, max); the last bin also includes maxValue
+ *
+ * @example
+ * calculateHistogram([45, 62, 68, 100], 25)
+ * // Returns [{ min: 0, max: 25, count: 0 }, { min: 25, max: 50, count: 1 },
+ * //          { min: 50, max: 75, count: 2 }, { min: 75, max: 100, count: 1 }]
+ */
+export function calculateHistogram(
+  values: number[],
+  binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH,
+  maxValue: number = MAX_TOTAL_MARKS
+): HistogramBin[] {
+  const width = binWidth > 0 ? binWidth : DEFAULT_HISTOGRAM_BIN_WIDTH;
+  const binCount = Math.max(1, Math.ceil(maxValue / width));
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    min: roundValue(i * width, 'half-up', 2),
+    max: roundValue(Math.min(maxValue, (i + 1) * width), 'half-up', 2),
+    count: 0,
+  }));
+
+  values.forEach(value => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(value / width)));
+    bins[index].count += 1;
+  });
+
+  return bins;
+}
+
+// ============================================
+// SIGNIFICANCE TESTS
+// ============================================
+
+/**
+ * Welch's t-test for a difference in means (two-sided, unequal variances)
+ * 
+ * @param a - First set of scores
+ * @param b - Second set of scores
+ * @param significanceLevel - Level below which the difference is significant (default: DEFAULT_SIGNIFICANCE_LEVEL)
+ * @returns Test result, or null if either set has fewer than 2 scores or neither has any spread
+ * 
+ * @example
+ * calculateWelchTTest([62, 70, 75, 81, 68], [55, 58, 66, 60, 52])
+ * // Returns { test: 'welch-t', statistic: 3.252, degreesOfFreedom: 7.36, pValue: 0.0131, significant: true }
+ */
+export function calculateWelchTTest(
+  a: number[],
+  b: number[],
+  significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL
+): SignificanceTest | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const errorA = variance(a) / a.length;
+  const errorB = variance(b) / b.length;
+  const standardError = Math.sqrt(errorA + errorB);
+  if (standardError === 0) return null;
+
+  const t = (mean(a) - mean(b)) / standardError;
+  const degreesOfFreedom = Math.pow(errorA + errorB, 2) /
+    (Math.pow(errorA, 2) / (a.length - 1) + Math.pow(errorB, 2) / (b.length - 1));
+  const pValue = studentTTwoSidedP(t, degreesOfFreedom);
+
+  return {
+    test: 'welch-t',
+    statistic: roundValue(t, 'half-up', 3),
+    degreesOfFreedom: roundValue(degreesOfFreedom, 'half-up', 2),
+    pValue: roundValue(pValue, 'half-up', 4),
+    significant: pValue < significanceLevel,
+  };
+}
+
+/**
+ * Mann-Whitney U test for a difference in distributions (two-sided)
+ * Uses the normal approximation with a tie correction and a continuity correction.
+ * The reported U is the smaller of the two U statistics.
+ * 
+ * @param a - First set of scores
+ * @param b - Second set of scores
+ * @param significanceLevel - Level below which the difference is significant (default: DEFAULT_SIGNIFICANCE_LEVEL)
+ * @returns Test result, or null if either set is empty or every score is tied
+ * 
+ * @example
+ * calculateMannWhitneyU([62, 70, 75, 81, 68], [55, 58, 66, 60, 52])
+ * // Returns { test: 'mann-whitney-u', statistic: 1, zScore: 2.298, pValue: 0.0216, significant: true }
+ */
+export function calculateMannWhitneyU(
+  a: number[],
+  b: number[],
+  significanceLevel: number = DEFAULT_SIGNIFICANCE_LEVEL
+): SignificanceTest | null {
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  if (n1 === 0 || n2 === 0) return null;
+
+  // Rank the combined scores, giving tied scores their average rank
+  const combined = [...a.map(value => ({ value, fromA: true })), ...b.map(value => ({ value, fromA: false }))]
+    .sort((x, y) => x.value - y.value);
+
+  let rankSumA = 0;
+  let tieCorrection = 0;
+
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && combined[end + 1].value === combined[start].value) end++;
+
+    const tied = end - start + 1;
+    const averageRank = (start + end) / 2 + 1;
+
+    for (let i = start; i <= end; i++) {
+      if (combined[i].fromA) rankSumA += averageRank;
+    }
+
+    tieCorrection += Math.pow(tied, 3) - tied;
+    start = end + 1;
+  }
+
+  const uA = rankSumA - (n1 * (n1 + 1)) / 2;
+  const uB = n1 * n2 - uA;
+  const meanU = (n1 * n2) / 2;
+  const sdU = Math.sqrt(((n1 * n2) / 12) * ((n + 1) - tieCorrection / (n * (n - 1))));
+  if (!(sdU > 0)) return null;
+
+  const difference = uA - meanU;
+  const z = (difference - Math.sign(difference) * 0.5) / sdU;
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+
+  return {
+    test: 'mann-whitney-u',
+    statistic: Math.min(uA, uB),
+    zScore: roundValue(z, 'half-up', 3),
+    pValue: roundValue(pValue, 'half-up', 4),
+    significant: pValue < significanceLevel,
+  };
+}
+
+// ============================================
+// SUMMARIES
+// ============================================
+
+/**
+ * Calculate the full descriptive summary for a set of scores
+ *
+ * @param values - Scores
+ * @param binWidth - Histogram bin width (default: DEFAULT_HISTOGRAM_BIN_WIDTH)
+ * @param maxValue - Upper end of the histogram range (default: MAX_TOTAL_MARKS)
+ * @returns Descriptive statistics (all zero for an empty set)
+ */
+export function calculateDescriptiveStatistics(
+  values: number[],
+  binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH,
+  maxValue: number = MAX_TOTAL_MARKS
+): DescriptiveStatistics {
+  const q1 = calculatePercentile(values, 25);
+  const q3 = calculatePercentile(values, 75);
+
+  return {
+    count: values.length,
+    mean: roundValue(mean(values), 'half-up', 2),
+    median: calculateMedian(values),
+    mode: calculateMode(values),
+    standardDeviation: calculateStandardDeviation(values),
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+    q1,
+    q3,
+    iqr: roundValue(q3 - q1, 'half-up', 2),
+    skewness: calculateSkewness(values),
+    histogram: calculateHistogram(values, binWidth, maxValue),
+  };
+}
+
+/**
+ * Calculate descriptive statistics for each component of a scheme
+ * Scores are converted to percentages of the component maximum. Withheld
+ * results and components with a status are left out.
+ *
+ * @param marksArray - Array of student marks
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param binWidth - Histogram bin width in percent (default: DEFAULT_HISTOGRAM_BIN_WIDTH)
+ * @returns Statistics per component, in scheme order
+ */
+export function calculateComponentStatistics(
+  marksArray: StudentMarks[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  binWidth: number = DEFAULT_HISTOGRAM_BIN_WIDTH
+): ComponentStatistics[] {
+  const graded = marksArray.filter(marks => !marks.resultStatus);
+
+  return getOrderedComponents(scheme).map(component => {
+    const values = graded
+      .filter(marks => !marks.statuses?.[component.key] && marks.scores[component.key] !== undefined)
+      .map(marks => roundValue((marks.scores[component.key] / component.maxMarks) * 100, 'half-up', 2));
+
+    return {
+      key: component.key,
+      label: component.label,
+      maxMarks: component.maxMarks,
+      ...calculateDescriptiveStatistics(values, binWidth, 100),
+    };
+  });
+}
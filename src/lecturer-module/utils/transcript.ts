@@ -0,0 +1,182 @@
+/**
+ * Lecturer Module - Transcript & GPA Utilities
+ * SWE 4070 Group Project 2 - Group 2 (Lecturer Module)
+ *
+ * This file turns a student's results across courses into semester GPA,
+ * cumulative GPA, credits earned and academic standing, for academic advisors
+ * and the unofficial transcript.
+ */
+
+import type {
+  AcademicStanding,
+  AcademicStandingThresholds,
+  CourseResult,
+  SemesterSummary,
+  Transcript,
+} from '../types';
+import { DEFAULT_ACADEMIC_STANDING_THRESHOLDS } from '../types';
+import { getGradingScaleForMarks } from './grading';
+import { getGradePoints, isPassingGrade } from './marks';
+import { roundValue } from './rounding';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Credit and grade point totals of a set of results
+ */
+function sumResults(results: CourseResult[]): Pick<SemesterSummary, 'creditsAttempted' | 'creditsEarned' | 'qualityPoints' | 'gpa'> {
+  let creditsAttempted = 0;
+  let creditsEarned = 0;
+  let qualityPoints = 0;
+
+  results.forEach(result => {
+    // Withheld results have no grade yet
+    if (result.resultStatus) return;
+
+    // Results on an unregistered scale cannot be read (see unknownScaleCourseIds)
+    const scale = getGradingScaleForMarks(result);
+    if (!scale) return;
+
+    if (isPassingGrade(result.grade, scale)) {
+      creditsEarned += result.creditUnits;
+    }
+
+    // Pass/fail style scales earn credits but stay out of the GPA
+    if (scale.includeInGpa) {
+      creditsAttempted += result.creditUnits;
+      qualityPoints += getGradePoints(result.grade, scale) * result.creditUnits;
+    }
+  });
+
+  return {
+    creditsAttempted,
+    creditsEarned,
+    qualityPoints: roundValue(qualityPoints, 'half-up', 2),
+    gpa: creditsAttempted > 0 ? roundValue(qualityPoints / creditsAttempted, 'half-up', 2) : null,
+  };
+}
+
+// ============================================
+// GPA
+// ============================================
+
+/**
+ * Calculate the credit-weighted GPA of a set of results
+ * Withheld results, results on scales excluded from the GPA (e.g. pass/fail)
+ * and results on scales that are not registered are left out.
+ *
+ * @param results - Course results
+ * @returns GPA (2 decimal places), or null if no result counts toward the GPA
+ *
+ * @example
+ * calculateGpa([
+ *   { courseCode: 'SWE 4070', grade: 'A', creditUnits: 3, ... },
+ *   { courseCode: 'SWE 4010', grade: 'B', creditUnits: 4, ... },
+ * ]) // Returns 3.43 ((4.0 x 3 + 3.0 x 4) / 7)
+ */
+export function calculateGpa(results: CourseResult[]): number | null {
+  return sumResults(results).gpa;
+}
+
+/**
+ * Decide academic standing from a cumulative GPA
+ *
+ * @param cumulativeGpa - Cumulative GPA (null when nothing counts toward the GPA yet)
+ * @param previousProbations - Probation semesters in a row just before this one
+ * @param thresholds - Standing thresholds (default: DEFAULT_ACADEMIC_STANDING_THRESHOLDS)
+ * @returns Academic standing
+ *
+ * @example
+ * getAcademicStanding(1.8, 0) // Returns 'probation'
+ * getAcademicStanding(1.8, 2) // Returns 'discontinuation' (third probation in a row)
+ */
+export function getAcademicStanding(
+  cumulativeGpa: number | null,
+  previousProbations: number = 0,
+  thresholds: AcademicStandingThresholds = DEFAULT_ACADEMIC_STANDING_THRESHOLDS
+): AcademicStanding {
+  if (cumulativeGpa === null || cumulativeGpa >= thresholds.probationGpa) {
+    return 'good-standing';
+  }
+
+  if (cumulativeGpa < thresholds.discontinuationGpa || previousProbations >= thresholds.maxConsecutiveProbations) {
+    return 'discontinuation';
+  }
+
+  return 'probation';
+}
+
+// ============================================
+// TRANSCRIPT
+// ============================================
+
+/**
+ * Build a student's transcript from their results across courses
+ * Semesters keep the order in which they first appear in the results, so pass
+ * results in chronological order. When a course is repeated, only the latest
+ * attempt counts toward the cumulative GPA and credits; every attempt still
+ * counts toward the GPA of the semester it was taken in. Results graded under a
+ * scale that is not registered are left out and listed in unknownScaleCourseIds.
+ *
+ * @param studentId - Student the results belong to
+ * @param results - Course results across semesters
+ * @param thresholds - Standing thresholds (default: DEFAULT_ACADEMIC_STANDING_THRESHOLDS)
+ * @returns Transcript with per-semester and cumulative GPA and standing
+ *
+ * @example
+ * const transcript = calculateTranscript('S001', results);
+ * transcript.semesters.forEach(s => console.log(s.semester, s.gpa, s.cumulativeGpa, s.standing));
+ * console.log(transcript.creditsEarned, transcript.standing);
+ */
+export function calculateTranscript(
+  studentId: string,
+  results: CourseResult[],
+  thresholds: AcademicStandingThresholds = DEFAULT_ACADEMIC_STANDING_THRESHOLDS
+): Transcript {
+  const semesterNames = Array.from(new Set(results.map(result => result.semester)));
+  const latestAttempts = new Map<string, CourseResult>();
+  let probations = 0;
+
+  const semesters: SemesterSummary[] = semesterNames.map(semester => {
+    const semesterResults = results.filter(result => result.semester === semester);
+
+    // Withheld results do not replace an earlier graded attempt
+    semesterResults.forEach(result => {
+      if (!result.resultStatus || !latestAttempts.has(result.courseId)) {
+        latestAttempts.set(result.courseId, result);
+      }
+    });
+
+    const cumulative = sumResults(Array.from(latestAttempts.values()));
+    const standing = getAcademicStanding(cumulative.gpa, probations, thresholds);
+    probations = standing === 'good-standing' ? 0 : probations + 1;
+
+    return {
+      semester,
+      results: semesterResults,
+      ...sumResults(semesterResults),
+      cumulativeCreditsEarned: cumulative.creditsEarned,
+      cumulativeGpa: cumulative.gpa,
+      standing,
+    };
+  });
+
+  const overall = sumResults(Array.from(latestAttempts.values()));
+  const unknownScaleCourseIds = Array.from(new Set(
+    results
+      .filter(result => !result.resultStatus && !getGradingScaleForMarks(result))
+      .map(result => result.courseId)
+  ));
+
+  return {
+    studentId,
+    semesters,
+    creditsAttempted: overall.creditsAttempted,
+    creditsEarned: overall.creditsEarned,
+    cumulativeGpa: overall.gpa,
+    standing: semesters[semesters.length - 1]?.standing ?? 'good-standing',
+    unknownScaleCourseIds,
+  };
+}
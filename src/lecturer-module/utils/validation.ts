@@ -4,17 +4,78 @@
  * 
  * This file contains all validation logic for the Lecturer Module.
  * Validates user inputs before sending to backend.
+ * Form rules are declared once as schemas (see schema.ts) and used both by the
+ * validate* functions below and by react-hook-form resolvers.
  */
 
 import type {
   ValidationResult,
   ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationRule,
+  ValidationWarning,
+  MarksWarningThresholds,
+  ValidationSchema,
+  FieldSchema,
   LecturerRegistrationData,
   LoginCredentials,
+  NameLengthLimits,
+  PasswordContext,
+  PasswordPolicy,
+  PhoneCountryCode,
+  RegistrationNumberFormat,
+  StudentImportRow,
   MarksInput,
-  AssessmentMarks,
+  MarksRoster,
+  AssessmentScheme,
+  ModerationRule,
+  ModerationFormData,
 } from '../types';
-import { MAX_MARKS, MAX_TOTAL_MARKS } from '../types';
+import {
+  DEFAULT_ASSESSMENT_SCHEME,
+  DEFAULT_MARKS_WARNING_THRESHOLDS,
+  DEFAULT_NAME_LENGTH_LIMITS,
+  DEFAULT_PASSWORD_POLICY,
+  DEFAULT_PHONE_COUNTRY,
+  DEFAULT_REGISTRATION_NUMBER_FORMAT,
+  MAX_TOTAL_MARKS,
+} from '../types';
+import {
+  getComponent,
+  getMarkStatusRule,
+  getResitPolicy,
+  getSchemeMaxTotal,
+  isMarkStatus,
+} from './assessment';
+import {
+  calculatePercentage,
+  calculateResult,
+  calculateTotalScore,
+  getGradeBoundary,
+  isPassingGrade,
+} from './marks';
+import { getSchemeGradingScale, resolveGradingScale } from './grading';
+import { checkPhoneNumber } from './phone';
+import { passwordRules } from './passwords';
+import {
+  checkRegistrationNumber,
+  findStudentByRegistrationNumber,
+  normalizeRegistrationNumber,
+} from './registration';
+import {
+  custom,
+  isNumber,
+  max,
+  maxDecimals,
+  maxLength,
+  min,
+  minLength,
+  pattern,
+  required,
+  validateSchema,
+} from './schema';
+import { createValidationError } from './messages';
 
 // ============================================
 // VALIDATION HELPERS
@@ -23,149 +84,605 @@ import { MAX_MARKS, MAX_TOTAL_MARKS } from '../types';
 /**
  * Create a validation error
  */
-function createError(field: string, message: string): ValidationError {
-  return { field, message };
+function createError(
+  field: string,
+  code: ValidationErrorCode,
+  params?: ValidationErrorParams
+): ValidationError {
+  return createValidationError(field, code, params);
 }
 
 /**
  * Create validation result
+ * Warnings are dropped while there are errors to fix.
  */
-function createResult(errors: ValidationError[]): ValidationResult {
+function createResult(errors: ValidationError[], warnings: ValidationWarning[] = []): ValidationResult {
   return {
     isValid: errors.length === 0,
     errors,
+    warnings: errors.length === 0 ? warnings : [],
   };
 }
 
 // ============================================
-// EMAIL VALIDATION
+// FIELD RULES
 // ============================================
 
+// Basic email regex pattern
+const EMAIL_RULES: ValidationRule[] = [
+  required('EMAIL_REQUIRED'),
+  pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'EMAIL_INVALID'),
+  maxLength(255, 'EMAIL_TOO_LONG'),
+];
+
 /**
- * Validate email format
- * Must be a valid email address
+ * Rules for a phone number: valid for its country's numbering plan
+ * Numbers without a '+' calling code are read as numbers of defaultCountry.
  */
-export function validateEmail(email: string): ValidationResult {
-  const errors: ValidationError[] = [];
+function phoneRules(defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY): ValidationRule[] {
+  return [
+    required('PHONE_REQUIRED'),
+    custom('numberingPlan', value => checkPhoneNumber(String(value), defaultCountry)),
+  ];
+}
 
-  if (!email) {
-    errors.push(createError('email', 'Email is required'));
-    return createResult(errors);
-  }
 
-  // Basic email regex pattern
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  
-  if (!emailRegex.test(email)) {
-    errors.push(createError('email', 'Invalid email format'));
-  }
+// Letters of any script (with combining accents), spaces, hyphens, and straight or curly apostrophes;
+// zero-width (non-)joiners are checked separately (see hasInvisibleCharacters)
+const NAME_PATTERN = /^[\p{L}\p{M}\s\-'\u2019\u200C\u200D]+$/u;
 
-  if (email.length > 255) {
-    errors.push(createError('email', 'Email must be less than 255 characters'));
-  }
+// Control and format characters: zero-width spaces and joiners, bidi overrides, soft hyphens
+const INVISIBLE_CHARACTER_PATTERN = /[\p{Cc}\p{Cf}\u2028\u2029]/u;
 
-  return createResult(errors);
+// Zero-width non-joiner and joiner, part of correct spelling in Persian and many Indic scripts
+const JOINER_PATTERN = /^[\u200C\u200D]$/u;
+
+// Scripts a joiner's neighbours are matched against (joiners between letters of other scripts are rejected)
+const LETTER_SCRIPT_PATTERNS = [
+  'Latin', 'Cyrillic', 'Greek', 'Armenian', 'Georgian', 'Hebrew', 'Arabic', 'Syriac', 'Thaana',
+  'Devanagari', 'Bengali', 'Gurmukhi', 'Gujarati', 'Oriya', 'Tamil', 'Telugu', 'Kannada', 'Malayalam',
+  'Sinhala', 'Thai', 'Lao', 'Tibetan', 'Myanmar', 'Khmer', 'Mongolian', 'Ethiopic',
+  'Hangul', 'Hiragana', 'Katakana', 'Han',
+].map(script => new RegExp(`^\\p{Script=${script}}$`, 'u'));
+
+// A word (after a space, hyphen or apostrophe) starting with a combining mark
+const WORD_STARTS_WITH_MARK_PATTERN = /(^|[\s\-'\u2019])\p{M}/u;
+
+// Scripts with look-alike letters (Latin 'a', Cyrillic 'а', Greek 'α')
+const CONFUSABLE_SCRIPT_PATTERNS = [/\p{Script=Latin}/u, /\p{Script=Cyrillic}/u, /\p{Script=Greek}/u];
+
+/**
+ * Check whether two letters belong to the same script
+ */
+function isSameScript(a: string, b: string): boolean {
+  return LETTER_SCRIPT_PATTERNS.some(script => script.test(a) && script.test(b));
 }
 
-// ============================================
-// PHONE VALIDATION
-// ============================================
+/**
+ * Check for invisible or control characters
+ * A zero-width non-joiner or joiner is allowed between two letters of the same
+ * script (the letter before may carry combining marks, e.g. a virama).
+ */
+function hasInvisibleCharacters(value: string): boolean {
+  const chars = Array.from(value);
+
+  return chars.some((char, index) => {
+    if (!INVISIBLE_CHARACTER_PATTERN.test(char)) return false;
+    if (!JOINER_PATTERN.test(char)) return true;
+
+    let before = index - 1;
+    while (before >= 0 && /\p{M}/u.test(chars[before])) before--;
+    const previous = chars[before] ?? '';
+    const next = chars[index + 1] ?? '';
+
+    return !(/\p{L}/u.test(previous) && /\p{L}/u.test(next) && isSameScript(previous, next));
+  });
+}
 
 /**
- * Validate phone number
- * Must be 10-15 digits
+ * Check whether a word mixes letters of look-alike scripts (e.g. Latin with a Cyrillic 'о')
  */
-export function validatePhone(phone: string): ValidationResult {
-  const errors: ValidationError[] = [];
+function mixesConfusableScripts(word: string): boolean {
+  return CONFUSABLE_SCRIPT_PATTERNS.filter(script => script.test(word)).length > 1;
+}
 
-  if (!phone) {
-    errors.push(createError('phone', 'Phone number is required'));
-    return createResult(errors);
-  }
+/**
+ * Rules for a first or last name: letters of any script, with length limits
+ * Names are checked in normalized form (see normalizeName).
+ */
+function nameRules(fieldName: string, limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS): ValidationRule[] {
+  return [
+    required('NAME_REQUIRED', { field: fieldName }),
+    custom('invisible', value =>
+      hasInvisibleCharacters(String(value)) ? { code: 'NAME_INVISIBLE_CHARACTERS', params: { field: fieldName } } : null,
+      true
+    ),
+    minLength(limits.minLength, 'NAME_TOO_SHORT', { field: fieldName }),
+    maxLength(limits.maxLength, 'NAME_TOO_LONG', { field: fieldName }),
+    pattern(NAME_PATTERN, 'NAME_INVALID_CHARACTERS', { field: fieldName }),
+    custom('letters', value =>
+      !/\p{L}/u.test(String(value)) || WORD_STARTS_WITH_MARK_PATTERN.test(String(value))
+        ? { code: 'NAME_MISSING_LETTERS', params: { field: fieldName } }
+        : null
+    ),
+    custom('scripts', value =>
+      String(value).split(/[\s\-'\u2019]+/).some(mixesConfusableScripts)
+        ? { code: 'NAME_MIXED_SCRIPTS', params: { field: fieldName } }
+        : null
+    ),
+  ];
+}
 
-  // Remove all non-digit characters
-  const digitsOnly = phone.replace(/\D/g, '');
+/**
+ * Schema entry for a name field
+ */
+function nameField<TData>(fieldName: string, limits: NameLengthLimits): FieldSchema<TData> {
+  return {
+    rules: nameRules(fieldName, limits),
+    normalize: value => (typeof value === 'string' ? normalizeName(value) : value),
+  };
+}
 
-  if (digitsOnly.length < 10) {
-    errors.push(createError('phone', 'Phone number must be at least 10 digits'));
-  }
+/**
+ * Rules for a mark: a number from 0 to the maximum with at most 2 decimal places
+ */
+function markRules(fieldName: string, maxValue: number): ValidationRule[] {
+  return [
+    isNumber('MARK_NOT_A_NUMBER', { field: fieldName }),
+    min(0, 'MARK_NEGATIVE', { field: fieldName }),
+    max(maxValue, 'MARK_OUT_OF_RANGE', { field: fieldName }),
+    maxDecimals(2, 'MARK_TOO_MANY_DECIMALS', { field: fieldName }),
+  ];
+}
 
-  if (digitsOnly.length > 15) {
-    errors.push(createError('phone', 'Phone number must be less than 15 digits'));
-  }
+/**
+ * Rule requiring text that is not just whitespace
+ */
+function requiredText(code: ValidationErrorCode): ValidationRule {
+  return custom('required', value => (typeof value !== 'string' || !value.trim() ? { code } : null), true);
+}
 
-  return createResult(errors);
+/**
+ * Rules for a student registration number in the institution's format
+ */
+function registrationNumberRules(format: RegistrationNumberFormat): ValidationRule[] {
+  return [
+    requiredText('REGISTRATION_NUMBER_REQUIRED'),
+    custom('format', value => checkRegistrationNumber(String(value), format)),
+  ];
 }
 
 // ============================================
-// PASSWORD VALIDATION
+// SCHEMAS
 // ============================================
 
 /**
- * Validate password strength
- * Requirements:
- * - At least 8 characters
- * - Contains at least one uppercase letter
- * - Contains at least one lowercase letter
- * - Contains at least one number
+ * Login form schema
+ * The password is only required; strength is not checked at login.
  */
-export function validatePassword(password: string): ValidationResult {
-  const errors: ValidationError[] = [];
+export const LOGIN_SCHEMA: ValidationSchema<LoginCredentials> = {
+  fields: {
+    email: { rules: EMAIL_RULES },
+    password: { rules: [required('PASSWORD_REQUIRED')] },
+  },
+};
 
-  if (!password) {
-    errors.push(createError('password', 'Password is required'));
-    return createResult(errors);
-  }
+/**
+ * Build the lecturer registration form schema
+ *
+ * @param limits - Name length limits (default: DEFAULT_NAME_LENGTH_LIMITS)
+ * @param phoneCountry - Country of phone numbers entered without a calling code (default: DEFAULT_PHONE_COUNTRY)
+ * @param passwordPolicy - Password policy (default: DEFAULT_PASSWORD_POLICY)
+ * @returns Schema for LecturerRegistrationData
+ */
+export function createLecturerRegistrationSchema(
+  limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS,
+  phoneCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY,
+  passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): ValidationSchema<LecturerRegistrationData> {
+  return {
+    fields: {
+      firstName: nameField('firstName', limits),
+      lastName: nameField('lastName', limits),
+      email: { rules: EMAIL_RULES },
+      phone: { rules: phoneRules(phoneCountry) },
+      // The password may not contain the lecturer's own name or email
+      password: {
+        rules: passwordRules<LecturerRegistrationData>(passwordPolicy, data => ({
+          firstName: data.firstName,
+          lastName: data.lastName,
+          email: data.email,
+        })),
+      },
+      courseId: { rules: [required('COURSE_ID_REQUIRED')] },
+    },
+  };
+}
 
-  if (password.length < 8) {
-    errors.push(createError('password', 'Password must be at least 8 characters'));
-  }
+/**
+ * Lecturer registration form schema (default name limits)
+ */
+export const LECTURER_REGISTRATION_SCHEMA = createLecturerRegistrationSchema();
 
-  if (!/[A-Z]/.test(password)) {
-    errors.push(createError('password', 'Password must contain at least one uppercase letter'));
-  }
+/**
+ * Build the schema for one student row of a class list import
+ * Names follow the same rules as lecturer registration; registration numbers
+ * must fit the institution's format.
+ *
+ * @param limits - Name length limits (default: DEFAULT_NAME_LENGTH_LIMITS)
+ * @param format - Registration number format (default: DEFAULT_REGISTRATION_NUMBER_FORMAT)
+ * @returns Schema for StudentImportRow
+ */
+export function createStudentImportSchema(
+  limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS,
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): ValidationSchema<StudentImportRow> {
+  return {
+    fields: {
+      firstName: nameField('firstName', limits),
+      lastName: nameField('lastName', limits),
+      email: { rules: EMAIL_RULES },
+      registrationNumber: { rules: registrationNumberRules(format) },
+    },
+  };
+}
 
-  if (!/[a-z]/.test(password)) {
-    errors.push(createError('password', 'Password must contain at least one lowercase letter'));
-  }
+/**
+ * Build the marks form schema for an assessment scheme
+ * Each component is checked at `statuses.<key>` when it carries a status and
+ * at `scores.<key>` otherwise; errors keep the component key as their field.
+ * Marks entered by registration number need no studentId, but the number must
+ * fit the roster's format and belong to a student on the roster (and to the
+ * same student as studentId, if both are given).
+ * Refinements reject unknown components, an exemption from every component,
+ * a total over MAX_TOTAL_MARKS and a resit that breaks the resit policy.
+ * Warnings question a 0 final exam after strong coursework, a perfect total
+ * and (when the previous marks are given) a large change to a component.
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param previous - Marks being replaced, for change warnings on update
+ * @param thresholds - Warning thresholds (default: DEFAULT_MARKS_WARNING_THRESHOLDS)
+ * @param roster - Class list for marks entered by registration number (default: none, so every number is rejected)
+ * @returns Schema for MarksInput
+ *
+ * @example
+ * const { register } = useForm<MarksInput>({
+ *   resolver: createSchemaResolver(createMarksSchema(scheme)),
+ * });
+ * <input {...register('scores.midsem', { valueAsNumber: true })} />
+ */
+export function createMarksSchema(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  previous?: Pick<MarksInput, 'scores' | 'statuses'>,
+  thresholds: MarksWarningThresholds = DEFAULT_MARKS_WARNING_THRESHOLDS,
+  roster?: MarksRoster
+): ValidationSchema<MarksInput> {
+  const format = roster?.format ?? DEFAULT_REGISTRATION_NUMBER_FORMAT;
+  const byRegistrationNumber = (marks: MarksInput) => marks.registrationNumber !== undefined;
+
+  const fields: Record<string, FieldSchema<MarksInput>> = {
+    studentId: {
+      when: marks => !byRegistrationNumber(marks),
+      rules: [required('STUDENT_ID_REQUIRED')],
+    },
+    registrationNumber: {
+      when: byRegistrationNumber,
+      rules: [
+        custom('format', value => checkRegistrationNumber(String(value), format), true),
+        custom<MarksInput>('roster', (value, marks) => {
+          const student = findStudentByRegistrationNumber(roster?.students ?? [], String(value));
+          return student && (!marks.studentId || marks.studentId === student.id)
+            ? null
+            : {
+                code: 'REGISTRATION_NUMBER_INVALID',
+                params: { registrationNumber: normalizeRegistrationNumber(String(value), format), example: format.example },
+              };
+        }),
+      ],
+    },
+  };
 
-  if (!/[0-9]/.test(password)) {
-    errors.push(createError('password', 'Password must contain at least one number'));
-  }
+  scheme.components.forEach(component => {
+    const hasStatus = (marks: MarksInput) => marks.statuses?.[component.key] !== undefined;
+
+    // A status takes the place of the score, so no score is required
+    fields[`statuses.${component.key}`] = {
+      errorField: component.key,
+      when: hasStatus,
+      rules: [custom('status', status => (isMarkStatus(status) ? null : { code: 'STATUS_INVALID', params: { status: String(status) } }))],
+    };
+
+    fields[`scores.${component.key}`] = {
+      errorField: component.key,
+      when: marks => !hasStatus(marks),
+      rules: markRules(component.key, component.maxMarks),
+    };
+  });
 
-  return createResult(errors);
+  const isSchemeComponent = (key: string) => scheme.components.some(component => component.key === key);
+  const unknownComponents = (values: Record<string, unknown> | undefined): ValidationError[] =>
+    Object.keys(values ?? {})
+      .filter(key => !isSchemeComponent(key))
+      .map(key => createError(key, 'COMPONENT_UNKNOWN', { component: key, scheme: scheme.name }));
+
+  return {
+    fields,
+    refinements: [
+      // Reject statuses for components the scheme does not define
+      marks => unknownComponents(marks.statuses),
+
+      // At least one component must still count toward the total
+      marks => {
+        const allReweighted = scheme.components.every(component => {
+          const status = marks.statuses?.[component.key];
+          return isMarkStatus(status) && getMarkStatusRule(status, scheme).treatment === 'reweight';
+        });
+
+        return allReweighted ? [createError('statuses', 'ALL_COMPONENTS_EXEMPT')] : [];
+      },
+
+      // Reject scores for components the scheme does not define
+      marks => unknownComponents(marks.scores),
+
+      // Validate weighted total (only if individual marks are valid)
+      (marks, errors) => {
+        if (errors.length > 0) return [];
+
+        const total = calculateTotalScore(marks.scores ?? {}, scheme, marks.statuses ?? {});
+        return total > MAX_TOTAL_MARKS
+          ? [createError('total', 'TOTAL_OUT_OF_RANGE', { total, max: MAX_TOTAL_MARKS })]
+          : [];
+      },
+
+      // Validate the supplementary attempt against the resit policy
+      (marks, errors) => {
+        if (!marks.resit) return [];
+
+        const policy = getResitPolicy(scheme);
+        const component = getComponent(policy.component, scheme);
+
+        if (!component) {
+          return [createError('resit', 'COMPONENT_UNKNOWN', { component: policy.component, scheme: scheme.name })];
+        }
+
+        const resitErrors = validateMark(marks.resit.score, 'resit', component.maxMarks).errors;
+
+        // A resit is only sat after the original attempt was failed
+        if (errors.length === 0 && resitErrors.length === 0) {
+          const scores = marks.scores ?? {};
+          const statuses = marks.statuses ?? {};
+          const original = calculateResult({ scores, statuses }, scheme);
+          const scale = getSchemeGradingScale(scheme);
+
+          if (!original.resultStatus && isPassingGrade(original.grade, scale)) {
+            resitErrors.push(createError('resit', 'RESIT_NOT_ALLOWED', { grade: original.grade }));
+          }
+        }
+
+        return resitErrors;
+      },
+    ],
+    warnings: [
+      // A 0 final exam after strong coursework is often a missed entry
+      marks => {
+        const final = getComponent(thresholds.finalComponent, scheme);
+        if (!final || marks.statuses?.[final.key] !== undefined || marks.scores?.[final.key] !== 0) return [];
+
+        const others = scheme.components.filter(component =>
+          component.key !== final.key &&
+          marks.statuses?.[component.key] === undefined &&
+          typeof marks.scores?.[component.key] === 'number'
+        );
+        if (others.length === 0) return [];
+
+        const average = Math.round(
+          others.reduce((sum, c) => sum + calculatePercentage(marks.scores[c.key], c.maxMarks), 0) / others.length * 100
+        ) / 100;
+
+        return average >= thresholds.highOtherPercentage
+          ? [createError(final.key, 'FINAL_EXAM_ZERO', { field: final.key, average })]
+          : [];
+      },
+
+      // A perfect total is possible but worth a second look
+      marks => {
+        const total = calculateTotalScore(marks.scores ?? {}, scheme, marks.statuses ?? {});
+        return total >= MAX_TOTAL_MARKS ? [createError('total', 'PERFECT_SCORE', { total })] : [];
+      },
+
+      // Large corrections to an existing mark should be deliberate
+      marks => {
+        if (!previous) return [];
+
+        return scheme.components
+          .filter(component => {
+            const from = previous.scores?.[component.key];
+            const to = marks.scores?.[component.key];
+            return typeof from === 'number' && typeof to === 'number' && Math.abs(to - from) > thresholds.maxScoreChange;
+          })
+          .map(component => createError(component.key, 'LARGE_MARK_CHANGE', {
+            field: component.key,
+            from: previous.scores[component.key],
+            to: marks.scores[component.key],
+            maxChange: thresholds.maxScoreChange,
+          }));
+      },
+    ],
+  };
+}
+
+/**
+ * Build the moderation form schema for an assessment scheme
+ * Every moderation must state a reason (kept in the audit record).
+ *
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @returns Schema for a moderation rule and its reason
+ */
+export function createModerationSchema(
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): ValidationSchema<ModerationFormData> {
+  const isType = (...types: ModerationRule['type'][]) =>
+    (data: ModerationFormData) => types.includes(data.rule?.type);
+
+  return {
+    fields: {
+      reason: { rules: [requiredText('REASON_REQUIRED')] },
+      'rule.componentKey': {
+        errorField: 'componentKey',
+        when: isType('component-bonus'),
+        rules: [custom('component', key =>
+          scheme.components.some(component => component.key === key)
+            ? null
+            : { code: 'COMPONENT_UNKNOWN', params: { component: String(key), scheme: scheme.name } }
+        )],
+      },
+      'rule.amount': {
+        errorField: 'amount',
+        when: isType('linear-shift', 'component-bonus'),
+        rules: [custom('nonZero', (amount, data) =>
+          typeof amount !== 'number' || isNaN(amount) || amount === 0
+            ? { code: data.rule.type === 'linear-shift' ? 'SHIFT_AMOUNT_INVALID' : 'BONUS_AMOUNT_INVALID' }
+            : null
+        )],
+      },
+      'rule.targetMean': {
+        errorField: 'targetMean',
+        when: isType('scale-to-mean'),
+        rules: [custom('range', mean =>
+          typeof mean !== 'number' || mean <= 0 || mean > MAX_TOTAL_MARKS
+            ? { code: 'TARGET_MEAN_OUT_OF_RANGE', params: { max: MAX_TOTAL_MARKS } }
+            : null
+        )],
+      },
+      'rule.maxScore': {
+        errorField: 'maxScore',
+        when: isType('cap'),
+        rules: [custom('range', maxScore =>
+          typeof maxScore !== 'number' || maxScore < 0 || maxScore > MAX_TOTAL_MARKS
+            ? { code: 'CAP_OUT_OF_RANGE', params: { max: MAX_TOTAL_MARKS } }
+            : null
+        )],
+      },
+    },
+    refinements: [
+      data => (isType('linear-shift', 'scale-to-mean', 'cap', 'component-bonus')(data)
+        ? []
+        : [createError('rule', 'MODERATION_RULE_UNKNOWN')]),
+    ],
+  };
 }
 
 // ============================================
-// NAME VALIDATION
+// EMAIL VALIDATION
 // ============================================
 
 /**
- * Validate name (first name or last name)
- * Must be 2-50 characters, letters only
+ * Validate email format
+ * Must be a valid email address
  */
-export function validateName(name: string, fieldName: string = 'name'): ValidationResult {
-  const errors: ValidationError[] = [];
+export function validateEmail(email: string): ValidationResult {
+  return validateSchema({ fields: { email: { rules: EMAIL_RULES } } }, { email });
+}
 
-  if (!name) {
-    errors.push(createError(fieldName, `${fieldName} is required`));
-    return createResult(errors);
-  }
+// ============================================
+// PHONE VALIDATION
+// ============================================
 
-  if (name.length < 2) {
-    errors.push(createError(fieldName, `${fieldName} must be at least 2 characters`));
-  }
+/**
+ * Validate phone number
+ * Must be a valid number for its country's numbering plan (see utils/phone.ts);
+ * numbers without a '+' calling code are read as numbers of defaultCountry.
+ *
+ * @example
+ * validatePhone('0712 345 678').isValid      // true (Kenya)
+ * validatePhone('+256 772 123456').isValid   // true (Uganda)
+ * validatePhone('0812 345 678').isValid      // false (PHONE_INVALID)
+ */
+export function validatePhone(
+  phone: string,
+  defaultCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY
+): ValidationResult {
+  return validateSchema({ fields: { phone: { rules: phoneRules(defaultCountry) } } }, { phone });
+}
 
-  if (name.length > 50) {
-    errors.push(createError(fieldName, `${fieldName} must be less than 50 characters`));
-  }
+// ============================================
+// REGISTRATION NUMBER VALIDATION
+// ============================================
 
-  // Only letters, spaces, hyphens, and apostrophes
-  if (!/^[a-zA-Z\s\-']+$/.test(name)) {
-    errors.push(createError(fieldName, `${fieldName} can only contain letters, spaces, hyphens, and apostrophes`));
-  }
+/**
+ * Validate a student registration number
+ * Must fit the institution's format (and its check digit, if the format has one);
+ * case, whitespace and separators are ignored.
+ *
+ * @example
+ * validateRegistrationNumber('sct211-0001/2021').isValid // true
+ * validateRegistrationNumber('SCT-0001/2021').isValid    // false (REGISTRATION_NUMBER_INVALID)
+ */
+export function validateRegistrationNumber(
+  registrationNumber: string,
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): ValidationResult {
+  return validateSchema(
+    { fields: { registrationNumber: { rules: registrationNumberRules(format) } } },
+    { registrationNumber }
+  );
+}
 
-  return createResult(errors);
+// ============================================
+// PASSWORD VALIDATION
+// ============================================
+
+/**
+ * Validate a password against a password policy
+ * Default requirements (DEFAULT_PASSWORD_POLICY):
+ * - At least 8 characters
+ * - Contains at least one uppercase letter
+ * - Contains at least one lowercase letter
+ * - Contains at least one number
+ * - Not a common or breached password (bundled list)
+ * - Does not contain the user's name or email (when context is given)
+ * For a strength meter while typing, see estimatePasswordStrength in utils/passwords.ts.
+ */
+export function validatePassword(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  context: PasswordContext = {}
+): ValidationResult {
+  return validateSchema({ fields: { password: { rules: passwordRules(policy, () => context) } } }, { password });
+}
+
+// ============================================
+// NAME VALIDATION
+// ============================================
+
+/**
+ * Normalize a person's name for validation and storage
+ * Composes accents (Unicode NFC, so 'José' typed as 'Jose' + accent matches),
+ * trims the ends and collapses runs of whitespace to a single space.
+ *
+ * @param name - Name as entered or imported
+ * @returns Normalized name
+ *
+ * @example
+ * normalizeName('  Wanjir\u0075\u0304   Kamau ') // Returns 'Wanjirū Kamau'
+ */
+export function normalizeName(name: string): string {
+  return name.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Validate name (first name or last name)
+ * Letters of any script (José, Müller, Nguyễn, Wanjirū), spaces, hyphens and
+ * apostrophes; no invisible characters or look-alike letters from mixed alphabets.
+ * The name is checked after normalizeName, and its length in characters must
+ * be within the limits (2-50 by default).
+ */
+export function validateName(
+  name: string,
+  fieldName: string = 'name',
+  limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS
+): ValidationResult {
+  return validateSchema({ fields: { [fieldName]: nameField(fieldName, limits) } }, { [fieldName]: name });
 }
 
 // ============================================
@@ -178,167 +695,335 @@ export function validateName(name: string, fieldName: string = 'name'): Validati
  */
 export function validateMark(
   value: number,
-  fieldName: keyof AssessmentMarks,
+  fieldName: string,
   maxValue: number
 ): ValidationResult {
-  const errors: ValidationError[] = [];
-
-  // Check if value is a number
-  if (typeof value !== 'number' || isNaN(value)) {
-    errors.push(createError(fieldName, `${fieldName} must be a valid number`));
-    return createResult(errors);
-  }
-
-  // Check if value is within range
-  if (value < 0) {
-    errors.push(createError(fieldName, `${fieldName} cannot be negative`));
-  }
-
-  if (value > maxValue) {
-    errors.push(createError(fieldName, `${fieldName} cannot exceed ${maxValue}`));
-  }
-
-  // Check for decimal places (marks should be whole numbers or have max 2 decimal places)
-  const decimalPlaces = (value.toString().split('.')[1] || '').length;
-  if (decimalPlaces > 2) {
-    errors.push(createError(fieldName, `${fieldName} can have at most 2 decimal places`));
-  }
-
-  return createResult(errors);
+  return validateSchema(
+    { fields: { value: { errorField: fieldName, rules: markRules(fieldName, maxValue) } } },
+    { value }
+  );
 }
 
 /**
  * Validate all marks for a student
- * Checks each component and validates total
+ * Checks each component of the assessment scheme and validates total
+ * A component may carry a status (ABS, EXM, INC, DEF, PENDING) instead of a score;
+ * a student cannot be exempt from every component.
+ * A resit score must fit the resit component and follow a failed first attempt.
+ * Valid marks may still carry warnings (see createMarksSchema) for the lecturer
+ * to confirm; pass the marks being replaced to be warned about large changes.
  */
-export function validateMarks(marks: MarksInput): ValidationResult {
-  const errors: ValidationError[] = [];
-
-  // Validate student ID
-  if (!marks.studentId) {
-    errors.push(createError('studentId', 'Student ID is required'));
-  }
-
-  // Validate each assessment component
-  const assignmentResult = validateMark(marks.assignment, 'assignment', MAX_MARKS.assignment);
-  errors.push(...assignmentResult.errors);
-
-  const quizResult = validateMark(marks.quiz, 'quiz', MAX_MARKS.quiz);
-  errors.push(...quizResult.errors);
-
-  const projectResult = validateMark(marks.project, 'project', MAX_MARKS.project);
-  errors.push(...projectResult.errors);
+export function validateMarks(
+  marks: MarksInput,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  previous?: Pick<MarksInput, 'scores' | 'statuses'>,
+  thresholds: MarksWarningThresholds = DEFAULT_MARKS_WARNING_THRESHOLDS,
+  roster?: MarksRoster
+): ValidationResult {
+  return validateSchema(createMarksSchema(scheme, previous, thresholds, roster), marks);
+}
 
-  const midsemResult = validateMark(marks.midsem, 'midsem', MAX_MARKS.midsem);
-  errors.push(...midsemResult.errors);
+/**
+ * Resolve marks entered or imported by registration number to student IDs
+ * Each number is normalized ('sct211 0001 2021' -> 'SCT211-0001/2021') and
+ * looked up on the roster; a match fills in the student's ID. Malformed and
+ * unknown numbers are left for validateMarks / validateBulkMarks to reject
+ * (REGISTRATION_NUMBER_INVALID).
+ *
+ * @param marksArray - Marks as entered or imported
+ * @param roster - Class list to resolve against
+ * @returns Resolved marks (the input is not modified)
+ *
+ * @example
+ * resolveMarksStudents([{ registrationNumber: 'sct211 0001 2021', scores }], { students })
+ * // [{ studentId: 'S001', registrationNumber: 'SCT211-0001/2021', scores }]
+ */
+export function resolveMarksStudents(marksArray: MarksInput[], roster?: MarksRoster): MarksInput[] {
+  const format = roster?.format ?? DEFAULT_REGISTRATION_NUMBER_FORMAT;
 
-  const finalExamResult = validateMark(marks.finalExam, 'finalExam', MAX_MARKS.finalExam);
-  errors.push(...finalExamResult.errors);
+  return marksArray.map(marks => {
+    if (marks.registrationNumber === undefined) return marks;
 
-  // Validate total (only if individual marks are valid)
-  if (errors.length === 0) {
-    const total = marks.assignment + marks.quiz + marks.project + marks.midsem + marks.finalExam;
-    
-    if (total > MAX_TOTAL_MARKS) {
-      errors.push(createError('total', `Total marks (${total}) cannot exceed ${MAX_TOTAL_MARKS}`));
-    }
-  }
+    const registrationNumber = normalizeRegistrationNumber(marks.registrationNumber, format);
+    const student = checkRegistrationNumber(registrationNumber, format)
+      ? undefined
+      : findStudentByRegistrationNumber(roster?.students ?? [], registrationNumber);
 
-  return createResult(errors);
+    return { ...marks, studentId: marks.studentId || student?.id, registrationNumber };
+  });
 }
 
 /**
  * Validate bulk marks input
- * Validates multiple students' marks at once
+ * Validates multiple students' marks at once. Rows imported by registration
+ * number are resolved against the roster first (see resolveMarksStudents), so
+ * duplicates are found whether a student was given by ID or by number.
+ *
+ * @param marksArray - Marks for each student
+ * @param scheme - Assessment scheme (default: DEFAULT_ASSESSMENT_SCHEME)
+ * @param roster - Class list for rows given by registration number
  */
-export function validateBulkMarks(marksArray: MarksInput[]): ValidationResult {
+export function validateBulkMarks(
+  marksArray: MarksInput[],
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME,
+  roster?: MarksRoster
+): ValidationResult {
   const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
 
   if (!Array.isArray(marksArray) || marksArray.length === 0) {
-    errors.push(createError('marks', 'At least one student\'s marks is required'));
+    errors.push(createError('marks', 'MARKS_REQUIRED'));
     return createResult(errors);
   }
 
+  const resolved = resolveMarksStudents(marksArray, roster);
+
   // Validate each student's marks
-  marksArray.forEach((marks, index) => {
-    const result = validateMarks(marks);
+  resolved.forEach((marks, index) => {
+    const result = validateMarks(marks, scheme, undefined, undefined, roster);
     
     // Add index to error field for identification
     result.errors.forEach(error => {
       errors.push({
+        ...error,
         field: `marks[${index}].${error.field}`,
-        message: error.message,
+      });
+    });
+
+    result.warnings.forEach(warning => {
+      warnings.push({
+        ...warning,
+        field: `marks[${index}].${warning.field}`,
       });
     });
   });
 
-  // Check for duplicate student IDs
-  const studentIds = marksArray.map(m => m.studentId);
+  // Check for duplicate student IDs (unresolved numbers are already rejected above)
+  const studentIds = resolved.map(m => m.studentId).filter(Boolean);
   const duplicates = studentIds.filter((id, index) => studentIds.indexOf(id) !== index);
   
   if (duplicates.length > 0) {
-    errors.push(createError('marks', `Duplicate student IDs found: ${duplicates.join(', ')}`));
+    errors.push(createError('marks', 'DUPLICATE_STUDENT_IDS', { studentIds: duplicates.join(', ') }));
   }
 
-  return createResult(errors);
+  return createResult(errors, warnings);
 }
 
 // ============================================
-// AUTHENTICATION VALIDATION
+// STUDENT IMPORT VALIDATION
 // ============================================
 
 /**
- * Validate login credentials
+ * Auto-correct the student rows of a class list import
+ * Names are normalized (normalizeName) and registration numbers rewritten in
+ * the format's canonical form ('sct211 0001 2021' -> 'SCT211-0001/2021').
+ * Numbers that do not fit the format are left for validateStudentImport to reject.
+ *
+ * @param rows - Imported student rows
+ * @param format - Registration number format (default: DEFAULT_REGISTRATION_NUMBER_FORMAT)
+ * @returns Corrected rows (the input is not modified)
  */
-export function validateLoginCredentials(credentials: LoginCredentials): ValidationResult {
+export function normalizeStudentImportRows(
+  rows: StudentImportRow[],
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): StudentImportRow[] {
+  return rows.map(row => ({
+    ...row,
+    firstName: normalizeName(row.firstName ?? ''),
+    lastName: normalizeName(row.lastName ?? ''),
+    email: (row.email ?? '').trim(),
+    registrationNumber: normalizeRegistrationNumber(row.registrationNumber ?? '', format),
+  }));
+}
+
+/**
+ * Validate the student rows of a class list import
+ * Each row is checked with createStudentImportSchema (names as for lecturer
+ * registration, registration numbers in the institution's format);
+ * registration numbers must be unique across the import.
+ *
+ * @param rows - Imported student rows
+ * @param limits - Name length limits (default: DEFAULT_NAME_LENGTH_LIMITS)
+ * @param format - Registration number format (default: DEFAULT_REGISTRATION_NUMBER_FORMAT)
+ * @returns Validation result (row errors are reported as students[index].field)
+ */
+export function validateStudentImport(
+  rows: StudentImportRow[],
+  limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS,
+  format: RegistrationNumberFormat = DEFAULT_REGISTRATION_NUMBER_FORMAT
+): ValidationResult {
   const errors: ValidationError[] = [];
 
-  // Validate email
-  const emailResult = validateEmail(credentials.email);
-  errors.push(...emailResult.errors);
+  if (!Array.isArray(rows) || rows.length === 0) {
+    errors.push(createError('students', 'STUDENTS_REQUIRED'));
+    return createResult(errors);
+  }
 
-  // Validate password exists (don't validate strength for login)
-  if (!credentials.password) {
-    errors.push(createError('password', 'Password is required'));
+  const schema = createStudentImportSchema(limits, format);
+
+  rows.forEach((row, index) => {
+    validateSchema(schema, row).errors.forEach(error => {
+      errors.push({
+        ...error,
+        field: `students[${index}].${error.field}`,
+      });
+    });
+  });
+
+  // Check for duplicate registration numbers (ignoring case, whitespace and separators)
+  const numbers = rows.map(row => normalizeRegistrationNumber(row.registrationNumber ?? '', format)).filter(Boolean);
+  const duplicates = Array.from(new Set(numbers.filter((number, index) => numbers.indexOf(number) !== index)));
+
+  if (duplicates.length > 0) {
+    errors.push(createError('students', 'DUPLICATE_REGISTRATION_NUMBERS', { registrationNumbers: duplicates.join(', ') }));
   }
 
   return createResult(errors);
 }
 
+// ============================================
+// ASSESSMENT SCHEME VALIDATION
+// ============================================
+
 /**
- * Validate lecturer registration data
+ * Validate an assessment scheme definition
+ * Requirements:
+ * - At least one component
+ * - Unique, non-empty component keys and labels
+ * - Positive raw maxima
+ * - Positive component weights that add up to MAX_TOTAL_MARKS
+ * - Grading scale (if set) registered in the grading scale registry
+ * - Rounding policy (if set) with 0-4 decimal places and a non-negative borderline threshold
+ * - Status rule overrides (if set) for known statuses with a known treatment
+ * - Resit policy (if set) replacing a component of the scheme
  */
-export function validateLecturerRegistration(data: LecturerRegistrationData): ValidationResult {
+export function validateAssessmentScheme(scheme: AssessmentScheme): ValidationResult {
   const errors: ValidationError[] = [];
 
-  // Validate first name
-  const firstNameResult = validateName(data.firstName, 'firstName');
-  errors.push(...firstNameResult.errors);
+  if (!scheme.id) {
+    errors.push(createError('id', 'SCHEME_ID_REQUIRED'));
+  }
+
+  if (!Array.isArray(scheme.components) || scheme.components.length === 0) {
+    errors.push(createError('components', 'SCHEME_COMPONENTS_REQUIRED'));
+    return createResult(errors);
+  }
+
+  const seenKeys = new Set<string>();
 
-  // Validate last name
-  const lastNameResult = validateName(data.lastName, 'lastName');
-  errors.push(...lastNameResult.errors);
+  scheme.components.forEach((component, index) => {
+    const field = `components[${index}]`;
 
-  // Validate email
-  const emailResult = validateEmail(data.email);
-  errors.push(...emailResult.errors);
+    if (!component.key) {
+      errors.push(createError(`${field}.key`, 'COMPONENT_KEY_REQUIRED'));
+    } else if (seenKeys.has(component.key)) {
+      errors.push(createError(`${field}.key`, 'COMPONENT_KEY_DUPLICATE', { key: component.key }));
+    } else {
+      seenKeys.add(component.key);
+    }
+
+    if (!component.label) {
+      errors.push(createError(`${field}.label`, 'COMPONENT_LABEL_REQUIRED'));
+    }
+
+    if (typeof component.maxMarks !== 'number' || !(component.maxMarks > 0)) {
+      errors.push(createError(`${field}.maxMarks`, 'COMPONENT_MAX_INVALID'));
+    }
+
+    if (typeof component.weight !== 'number' || !(component.weight > 0)) {
+      errors.push(createError(`${field}.weight`, 'COMPONENT_WEIGHT_INVALID'));
+    }
+  });
 
-  // Validate phone
-  const phoneResult = validatePhone(data.phone);
-  errors.push(...phoneResult.errors);
+  // Compare with a small tolerance so fractional weights (e.g. 33.33) are accepted
+  const weightTotal = getSchemeMaxTotal(scheme);
+  if (Math.abs(weightTotal - MAX_TOTAL_MARKS) > 0.01) {
+    errors.push(createError('components', 'SCHEME_WEIGHTS_TOTAL', { max: MAX_TOTAL_MARKS, total: weightTotal }));
+  }
+
+  if (scheme.gradingScale && !resolveGradingScale(scheme.gradingScale)) {
+    errors.push(createError('gradingScale', 'GRADING_SCALE_NOT_FOUND', {
+      id: scheme.gradingScale.id,
+      version: scheme.gradingScale.version ?? 'latest',
+    }));
+  }
+
+  if (scheme.rounding) {
+    const { decimals, mode, borderlineThreshold } = scheme.rounding;
 
-  // Validate password
-  const passwordResult = validatePassword(data.password);
-  errors.push(...passwordResult.errors);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 4) {
+      errors.push(createError('rounding.decimals', 'ROUNDING_DECIMALS_INVALID', { min: 0, max: 4 }));
+    }
 
-  // Validate course ID
-  if (!data.courseId) {
-    errors.push(createError('courseId', 'Course ID is required'));
+    if (mode === 'borderline' && !(typeof borderlineThreshold === 'number' && borderlineThreshold >= 0)) {
+      errors.push(createError('rounding.borderlineThreshold', 'ROUNDING_THRESHOLD_INVALID'));
+    }
+  }
+
+  if (scheme.resit) {
+    const { component, cap } = scheme.resit;
+
+    if (!scheme.components.some(c => c.key === component)) {
+      errors.push(createError('resit.component', 'RESIT_COMPONENT_UNKNOWN', { component }));
+    }
+
+    if (cap.type === 'grade' && !getGradeBoundary(cap.grade, getSchemeGradingScale(scheme))) {
+      errors.push(createError('resit.cap', 'RESIT_CAP_INVALID', { grade: cap.grade }));
+    }
+  }
+
+  if (scheme.statusRules) {
+    Object.entries(scheme.statusRules).forEach(([status, rule]) => {
+      if (!isMarkStatus(status)) {
+        errors.push(createError(`statusRules.${status}`, 'STATUS_INVALID', { status }));
+      } else if (!rule || !['zero', 'reweight', 'withhold'].includes(rule.treatment)) {
+        errors.push(createError(`statusRules.${status}`, 'STATUS_RULE_INVALID', { status }));
+      }
+    });
   }
 
   return createResult(errors);
 }
 
+// ============================================
+// MODERATION VALIDATION
+// ============================================
+
+/**
+ * Validate a moderation rule and the reason for applying it
+ * Every moderation must state a reason (kept in the audit record).
+ */
+export function validateModeration(
+  rule: ModerationRule,
+  reason: string,
+  scheme: AssessmentScheme = DEFAULT_ASSESSMENT_SCHEME
+): ValidationResult {
+  return validateSchema(createModerationSchema(scheme), { rule, reason });
+}
+
+// ============================================
+// AUTHENTICATION VALIDATION
+// ============================================
+
+/**
+ * Validate login credentials
+ */
+export function validateLoginCredentials(credentials: LoginCredentials): ValidationResult {
+  return validateSchema(LOGIN_SCHEMA, credentials);
+}
+
+/**
+ * Validate lecturer registration data
+ */
+export function validateLecturerRegistration(
+  data: LecturerRegistrationData,
+  limits: NameLengthLimits = DEFAULT_NAME_LENGTH_LIMITS,
+  phoneCountry: PhoneCountryCode = DEFAULT_PHONE_COUNTRY,
+  passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): ValidationResult {
+  return validateSchema(createLecturerRegistrationSchema(limits, phoneCountry, passwordPolicy), data);
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================